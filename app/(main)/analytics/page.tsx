@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import {
   LineChart, Line, BarChart, Bar,
   XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
@@ -11,7 +12,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { CalendarIcon, TrendingUpIcon, PackageIcon, UsersIcon, AlertTriangleIcon, BarChart3Icon } from 'lucide-react';
+import { CalendarIcon, TrendingUpIcon, PackageIcon, UsersIcon, AlertTriangleIcon, BarChart3Icon, ClockIcon } from 'lucide-react';
+import { MaterialForecast } from '@/types/forecast';
 
 interface AnalyticsData {
   monthlyUsageByType: Array<{
@@ -32,6 +34,7 @@ interface AnalyticsData {
     materials_supplied: number;
     advance_stock: number;
     purchased_stock: number;
+    returned_quantity: number;
   }>;
   advanceMaterialsByCategory: Array<{
     material_type: string;
@@ -91,7 +94,7 @@ interface Filters {
     id: string;
     name: string;
   }>;
-  physicians: string[];
+  physicians: Array<{ id: string; name: string }>;
 }
 
 // Tooltip style for dark background
@@ -117,6 +120,7 @@ export default function AnalyticsPage() {
   const [selectedMaterial, setSelectedMaterial] = useState('all');
   const [selectedVendor, setSelectedVendor] = useState('all');
   const [selectedUsageType, setSelectedUsageType] = useState<string | null>(null);
+  const [forecast, setForecast] = useState<MaterialForecast[]>([]);
 
   const fetchData = useCallback(async () => {
     setLoading(true);
@@ -158,6 +162,17 @@ export default function AnalyticsPage() {
     fetchData();
   }, [fetchData]);
 
+  // The forecast always looks at recent usage, so it ignores the filters above
+  useEffect(() => {
+    fetch('/api/analytics/forecast')
+      .then(res => (res.ok ? res.json() : []))
+      .then(setForecast)
+      .catch((error) => {
+        console.error('Error fetching forecast:', error);
+        setForecast([]);
+      });
+  }, []);
+
   const fetchFilters = async () => {
     try {
       const response = await fetch('/api/analytics/filters');
@@ -212,6 +227,9 @@ export default function AnalyticsPage() {
           <p className="text-gray-600 dark:text-gray-400">Comprehensive insights into your inventory and usage patterns</p>
         </div>
         <div className="flex items-center gap-2">
+          <Link href="/analytics/valuation">
+            <Button variant="outline">Cost & Valuation</Button>
+          </Link>
           <BarChart3Icon className="h-6 w-6 text-blue-600" />
           <span className="text-sm text-gray-500">Real-time Data</span>
         </div>
@@ -569,6 +587,10 @@ export default function AnalyticsPage() {
                           <span>Advance Stock:</span>
                           <span className="font-medium text-orange-600">{formatNumber(vendor.advance_stock)}</span>
                         </div>
+                        <div className="flex justify-between">
+                          <span>Returned:</span>
+                          <span className="font-medium text-red-600">{formatNumber(vendor.returned_quantity)}</span>
+                        </div>
                         <div className="flex justify-between">
                           <span>Stock Efficiency:</span>
                           <span className={`font-medium ${efficiency > 50 ? 'text-green-600' : 'text-yellow-600'}`}>
@@ -657,6 +679,66 @@ export default function AnalyticsPage() {
             </Card>
           </div>
 
+          {/* Consumption Forecast */}
+          <Card id="forecast">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ClockIcon className="h-5 w-5" />
+                Consumption Forecast
+              </CardTitle>
+              <CardDescription>
+                Expected usage from a weighted average of the last 12 weeks, adjusted for the season where a year of
+                history exists, against usable stock and the next delivery
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {forecast.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No usage in the last 12 weeks to forecast from.</p>
+              ) : (
+                <div className="overflow-x-auto max-h-[32rem]">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead>
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Material</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Usable</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Per Day</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Per Week</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Season</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Days of Cover</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Stock-out</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Next Delivery</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {forecast.map((row) => (
+                        <tr key={row.materialId} className={row.runsOutBeforeDelivery ? 'bg-orange-50 dark:bg-orange-900/20' : ''}>
+                          <td className="px-4 py-2 text-sm">
+                            {row.name}{row.size && ` (${row.size})`}
+                            <div className="text-xs text-gray-500">{row.brand} • {row.materialType}</div>
+                          </td>
+                          <td className="px-4 py-2 text-sm text-right">{formatNumber(row.usableQuantity)}</td>
+                          <td className="px-4 py-2 text-sm text-right">{row.dailyUsage}</td>
+                          <td className="px-4 py-2 text-sm text-right">{row.weeklyUsage}</td>
+                          <td className="px-4 py-2 text-sm text-right">{row.seasonalFactor !== null ? `×${row.seasonalFactor}` : '-'}</td>
+                          <td className={`px-4 py-2 text-sm text-right font-medium ${row.runsOutBeforeDelivery ? 'text-orange-600' : ''}`}>
+                            {formatNumber(row.daysOfCover)}
+                          </td>
+                          <td className="px-4 py-2 text-sm whitespace-nowrap">{new Date(row.stockOutDate).toLocaleDateString()}</td>
+                          <td className="px-4 py-2 text-sm whitespace-nowrap">
+                            {new Date(row.nextDeliveryDate).toLocaleDateString()}
+                            <div className="text-xs text-gray-500">
+                              {row.deliveryBasis}{row.vendor && ` • ${row.vendor}`} • {row.leadTimeDays}-day lead time
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Advance Materials Detailed List */}
           <Card>
             <CardHeader>
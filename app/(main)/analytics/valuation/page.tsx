@@ -0,0 +1,215 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ConsumptionCost, CostRow, InventoryValuation } from '@/types/valuation';
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 2 }).format(value);
+
+const formatNumber = (num: number) => new Intl.NumberFormat().format(num);
+
+const formatMonth = (month: string) => {
+  const [year, m] = month.split('-');
+  if (!year || !m) return month;
+  return new Date(`${year}-${m}-01`).toLocaleString('default', { month: 'short', year: 'numeric' });
+};
+
+function CostTable({ rows, heading, formatLabel }: { rows: CostRow[]; heading: string; formatLabel?: (label: string) => string }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Nothing to show.</p>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+        <thead>
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">{heading}</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Units</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Value</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key}>
+              <td className="px-4 py-2 text-sm">{formatLabel ? formatLabel(row.label) : row.label}</td>
+              <td className="px-4 py-2 text-sm text-right">
+                {formatNumber(row.units)}
+                {row.uncostedUnits > 0 && (
+                  <span className="text-yellow-600" title="Units from batches with no unit cost">
+                    {' '}({formatNumber(row.uncostedUnits)} uncosted)
+                  </span>
+                )}
+              </td>
+              <td className="px-4 py-2 text-sm text-right font-medium">{formatCurrency(row.value)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function ValuationPage() {
+  const [inventory, setInventory] = useState<InventoryValuation | null>(null);
+  const [consumption, setConsumption] = useState<ConsumptionCost | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const params = new URLSearchParams();
+      if (dateFrom) params.append('dateFrom', dateFrom);
+      if (dateTo) params.append('dateTo', dateTo);
+      const response = await fetch(`/api/analytics/valuation?${params}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to fetch valuation');
+      }
+      const data = await response.json();
+      setInventory(data.inventory);
+      setConsumption(data.consumption);
+    } catch (error) {
+      console.error('Error fetching valuation:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch valuation');
+    } finally {
+      setLoading(false);
+    }
+  }, [dateFrom, dateTo]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Cost & Valuation</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Stock on hand and usage valued at the unit cost of the batches involved
+          </p>
+        </div>
+        <Link href="/analytics">
+          <Button variant="outline">Back to Analytics</Button>
+        </Link>
+      </div>
+
+      {error && <div className="text-center text-red-500">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <>
+          {inventory && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Inventory Valuation</CardTitle>
+                <CardDescription>
+                  {formatCurrency(inventory.totalValue)} across {formatNumber(inventory.totalUnits)} units on hand
+                  {inventory.uncostedUnits > 0 && `; ${formatNumber(inventory.uncostedUnits)} units have no unit cost recorded`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                  <CostTable rows={inventory.byMaterialType} heading="Material Type" />
+                  <CostTable rows={inventory.byVendor} heading="Vendor" />
+                  <CostTable rows={inventory.byLocation} heading="Location" />
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {consumption && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Cost of Consumption</CardTitle>
+                <CardDescription>
+                  {formatCurrency(consumption.totalValue)} for {formatNumber(consumption.totalUnits)} units used between{' '}
+                  {new Date(consumption.from).toLocaleDateString()} and {new Date(consumption.to).toLocaleDateString()}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="flex flex-col md:flex-row md:items-end gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="dateFrom">From</Label>
+                    <Input id="dateFrom" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="dateTo">To</Label>
+                    <Input id="dateTo" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+                  </div>
+                  {(dateFrom || dateTo) && (
+                    <Button variant="outline" onClick={() => { setDateFrom(''); setDateTo(''); }}>
+                      Last 12 Months
+                    </Button>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <div>
+                    <h3 className="font-semibold mb-2">By Month</h3>
+                    <CostTable rows={consumption.byMonth} heading="Month" formatLabel={formatMonth} />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold mb-2">By Physician</h3>
+                    <CostTable rows={consumption.byPhysician} heading="Physician" />
+                  </div>
+                </div>
+
+                <div>
+                  <h3 className="font-semibold mb-2">By Procedure</h3>
+                  {consumption.byProcedure.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No usage in this period.</p>
+                  ) : (
+                    <div className="overflow-x-auto max-h-[32rem]">
+                      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                        <thead>
+                          <tr>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Date</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Procedure</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Patient</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Physician</th>
+                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Units</th>
+                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Cost</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {consumption.byProcedure.map(procedure => (
+                            <tr key={procedure.key}>
+                              <td className="px-4 py-2 text-sm whitespace-nowrap">{new Date(procedure.procedureDate).toLocaleDateString()}</td>
+                              <td className="px-4 py-2 text-sm">{procedure.label}</td>
+                              <td className="px-4 py-2 text-sm">{procedure.patientName} ({procedure.patientId})</td>
+                              <td className="px-4 py-2 text-sm">{procedure.physician || '-'}</td>
+                              <td className="px-4 py-2 text-sm text-right">
+                                {formatNumber(procedure.units)}
+                                {procedure.uncostedUnits > 0 && (
+                                  <span className="text-yellow-600"> ({formatNumber(procedure.uncostedUnits)} uncosted)</span>
+                                )}
+                              </td>
+                              <td className="px-4 py-2 text-sm text-right font-medium">{formatCurrency(procedure.value)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
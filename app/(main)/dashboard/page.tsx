@@ -12,8 +12,9 @@ import {
 } from 'recharts'
 import {
   PackageIcon, TrendingUpIcon, UsersIcon, AlertTriangleIcon,
-  CalendarIcon, ActivityIcon
+  CalendarIcon, ActivityIcon, ClockIcon
 } from 'lucide-react'
+import { MaterialForecast } from '@/types/forecast'
 
 interface User {
   id: string
@@ -44,6 +45,10 @@ interface DashboardData {
     material_type: string
     brand_name: string
     total_quantity: number
+    held_quantity: number
+    location: string | null
+    min_level: number
+    reorder_quantity: number | null
   }>
   expiringSoonAlerts: Array<{
     id: string
@@ -93,6 +98,7 @@ interface DashboardData {
     material_type: string
     total_used: number
   }>
+  stockOutAlerts: MaterialForecast[]
 }
 
 // Tooltip style for dark background
@@ -251,7 +257,7 @@ export default function DashboardPage() {
         )}
 
         {/* Alerts and Activity Row */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6 mb-8">
           {/* Advance Materials Used */}
           <Card>
             <CardHeader>
@@ -316,6 +322,12 @@ export default function DashboardPage() {
                       </p>
                       <p className="text-xs text-gray-500 dark:text-gray-400">
                         {alert.brand_name} • {alert.material_type}
+                        {alert.location && ` • at ${alert.location}`}
+                        {alert.held_quantity > 0 && ` • ${alert.held_quantity} on hold`}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Min {alert.min_level}
+                        {alert.reorder_quantity !== null && ` • reorder ${alert.reorder_quantity} to reach par`}
                       </p>
                     </div>
                     <Badge variant="outline" className="text-yellow-700 border-yellow-300">
@@ -333,6 +345,58 @@ export default function DashboardPage() {
                     View All ({dashboardData.lowStockAlerts.length})
                   </Button>
                 )}
+                {dashboardData && dashboardData.lowStockAlerts.length > 0 && (
+                  <Button variant="outline" size="sm" className="w-full" onClick={() => router.push('/documents/purchase-orders')}>
+                    Reorder Suggestions
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Stock-out Alerts */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ClockIcon className="h-5 w-5 text-orange-600" />
+                Runs Out Before Delivery
+                <Badge variant="secondary" className="ml-auto">
+                  {dashboardData?.stockOutAlerts.length || 0}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {dashboardData?.stockOutAlerts.slice(0, 4).map((alert) => (
+                  <div key={alert.materialId} className="flex items-center justify-between p-2 bg-orange-50 dark:bg-orange-900/20 rounded-lg">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {alert.name}{alert.size && ` (${alert.size})`}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {alert.brand} • ~{alert.weeklyUsage}/week
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Out {new Date(alert.stockOutDate).toLocaleDateString()} • delivery{' '}
+                        {alert.deliveryBasis === 'Open order' ? 'due' : 'if ordered today'}{' '}
+                        {new Date(alert.nextDeliveryDate).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Badge variant="outline" className="text-orange-700 border-orange-300">
+                      {alert.daysOfCover} days
+                    </Badge>
+                  </div>
+                ))}
+                {dashboardData?.stockOutAlerts.length === 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Stock covers every expected delivery
+                  </p>
+                )}
+                {dashboardData && dashboardData.stockOutAlerts.length > 0 && (
+                  <Button variant="outline" size="sm" className="w-full" onClick={() => router.push('/analytics#forecast')}>
+                    View Forecast
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -1,4 +1,7 @@
 import { prisma } from '@/lib/prisma'
+import Link from 'next/link'
+import { orderLineStatus } from '@/lib/goods-receipts'
+import { formatInPurchaseUnits } from '@/lib/units'
 import { notFound } from 'next/navigation'
 import BackToInventoryButton from './BackToInventoryButton'
 import DeleteDocumentButton from './DeleteDocumentButton'
@@ -26,6 +29,16 @@ export default async function DocumentPage({ params }: DocumentPageProps) {
               }
             }
           }
+        },
+        orderLines: {
+          include: { material: { include: { brand: true } } },
+          orderBy: { createdAt: 'asc' }
+        },
+        stockAdjustments: {
+          include: {
+            batch: { select: { id: true, lotNumber: true, material: { select: { name: true, size: true, brand: true } } } }
+          },
+          orderBy: { createdAt: 'asc' }
         }
       }
     })
@@ -46,6 +59,14 @@ export default async function DocumentPage({ params }: DocumentPageProps) {
       return ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'webp'].includes(extension || '');
     };
 
+    // Order lines show in the unit they were ordered in
+    const orderedIn = (line: (typeof document.orderLines)[number], quantity: number) =>
+      formatInPurchaseUnits(quantity, {
+        baseUnit: line.material.unitOfMeasure,
+        purchaseUnit: line.unit ?? line.material.unitOfMeasure,
+        unitsPerPurchaseUnit: line.unitSize
+      });
+
     // Determine if file is a PDF
     const isPDF = (filePath: string) => {
       return filePath.toLowerCase().endsWith('.pdf');
@@ -62,6 +83,14 @@ export default async function DocumentPage({ params }: DocumentPageProps) {
         <div className="flex justify-between items-start mb-4">
           <BackToInventoryButton />
           <div className="flex gap-2">
+            {(document.type === 'Purchase Order' || document.type === 'Delivery Challan') && (
+              <Link
+                href={`/documents/${document.id}/receive`}
+                className="inline-block px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                Receive Goods
+              </Link>
+            )}
             <EditDocumentButton 
               documentId={document.id}
               document={document}
@@ -115,6 +144,68 @@ export default async function DocumentPage({ params }: DocumentPageProps) {
               </div>
             </div>
 
+            {document.orderLines.length > 0 && (
+              <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+                <h2 className="text-xl font-semibold mb-4">Order Lines</h2>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead>
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Material</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Brand</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Ordered</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Received</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {document.orderLines.map((line) => (
+                        <tr key={line.id}>
+                          <td className="px-4 py-2 text-sm">
+                            {line.material.name}{line.material.size ? ` (${line.material.size})` : ''}
+                          </td>
+                          <td className="px-4 py-2 text-sm">{line.material.brand.name}</td>
+                          <td className="px-4 py-2 text-sm text-right">{orderedIn(line, line.quantity)}</td>
+                          <td className="px-4 py-2 text-sm text-right">{orderedIn(line, line.receivedQuantity)}</td>
+                          <td className="px-4 py-2 text-sm">{orderLineStatus(line)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {document.stockAdjustments.length > 0 && (
+              <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+                <h2 className="text-xl font-semibold mb-4">Returned Items</h2>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead>
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Material</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Brand</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Lot Number</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Quantity</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {document.stockAdjustments.map((adjustment) => (
+                        <tr key={adjustment.id}>
+                          <td className="px-4 py-2 text-sm">
+                            {adjustment.batch.material.name}{adjustment.batch.material.size ? ` (${adjustment.batch.material.size})` : ''}
+                          </td>
+                          <td className="px-4 py-2 text-sm">{adjustment.batch.material.brand.name}</td>
+                          <td className="px-4 py-2 text-sm">{adjustment.batch.lotNumber || '-'}</td>
+                          <td className="px-4 py-2 text-sm text-right">{-adjustment.quantity}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
             {/* Linked Batches */}
             <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
               <h2 className="text-xl font-semibold mb-4">Linked Batches</h2>
@@ -0,0 +1,444 @@
+'use client';
+
+import { useState, useEffect, useCallback, use } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SearchableSelect } from '@/components/ui/searchable-select';
+import { X } from 'lucide-react';
+import { toast } from 'sonner';
+import { PURCHASE_TYPES } from '@/types/batch';
+import { OrderLineStatus } from '@/types/purchase-order';
+import { formatInPurchaseUnits, hasPurchaseUnit, purchaseUnitLabel, unitConversion } from '@/lib/units';
+
+interface OrderLine {
+  id: string;
+  materialId: string;
+  material: MaterialOption;
+  quantity: number;
+  receivedQuantity: number;
+  unit: string | null;
+  unitSize: number;
+  status: OrderLineStatus;
+}
+
+interface ReceiptDocument {
+  id: string;
+  type: string;
+  documentNumber: string;
+  vendor: string | null;
+  vendorId: string | null;
+  orderLines: OrderLine[];
+}
+
+interface MaterialOption {
+  id: string;
+  name: string;
+  size: string | null;
+  brand: { name: string };
+  unitOfMeasure: string;
+  purchaseUnit: string | null;
+  packSize: number | null;
+}
+
+interface ReceiptDraft {
+  key: number;
+  materialId: string;
+  quantity: string;
+  // Quantity and unit cost are per purchase unit (a box) rather than per base unit
+  inPurchaseUnits: boolean;
+  lotNumber: string;
+  expirationDate: string;
+  storageLocationId: string;
+  purchaseType: string;
+  unitCost: string;
+}
+
+const statusClasses: Record<OrderLineStatus, string> = {
+  Pending: 'bg-gray-100 text-gray-800',
+  'Partially Received': 'bg-blue-100 text-blue-800',
+  Received: 'bg-green-100 text-green-800',
+  'Over-received': 'bg-amber-100 text-amber-800',
+  Unexpected: 'bg-red-100 text-red-800',
+};
+
+const materialLabel = (material: MaterialOption) =>
+  `${material.name}${material.size ? ` (${material.size})` : ''} - ${material.brand.name}`;
+
+let nextKey = 0;
+
+// Order lines show in the unit they were ordered in
+const orderedIn = (line: OrderLine, quantity: number) =>
+  formatInPurchaseUnits(quantity, {
+    baseUnit: line.material.unitOfMeasure,
+    purchaseUnit: line.unit ?? line.material.unitOfMeasure,
+    unitsPerPurchaseUnit: line.unitSize,
+  });
+
+const emptyDraft = (materialId: string, inPurchaseUnits: boolean, quantity = ''): ReceiptDraft => ({
+  key: nextKey++,
+  materialId,
+  quantity,
+  inPurchaseUnits,
+  lotNumber: '',
+  expirationDate: '',
+  storageLocationId: '',
+  purchaseType: 'Purchased',
+  unitCost: '',
+});
+
+export default function ReceiveGoodsPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [document, setDocument] = useState<ReceiptDocument | null>(null);
+  const [drafts, setDrafts] = useState<ReceiptDraft[]>([]);
+  const [vendorId, setVendorId] = useState('');
+  const [vendors, setVendors] = useState<{ id: string; name: string }[]>([]);
+  const [storageLocations, setStorageLocations] = useState<{ id: string; path: string }[]>([]);
+  const [materials, setMaterials] = useState<MaterialOption[]>([]);
+  const [addMaterialId, setAddMaterialId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [canEdit, setCanEdit] = useState(false);
+
+  const fetchDocument = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/documents/${id}/receipt`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to fetch document');
+      }
+      const data: ReceiptDocument = await response.json();
+      setDocument(data);
+      setVendorId(data.vendorId ?? '');
+      // Start with one row per line still awaiting delivery, at the outstanding quantity; in
+      // boxes when it is a whole number of the boxes the material now comes in
+      setDrafts(
+        data.orderLines
+          .filter(line => line.quantity > line.receivedQuantity)
+          .map(line => {
+            const outstanding = line.quantity - line.receivedQuantity;
+            const conversion = unitConversion(line.material);
+            return hasPurchaseUnit(conversion) && outstanding % conversion.unitsPerPurchaseUnit === 0
+              ? emptyDraft(line.materialId, true, String(outstanding / conversion.unitsPerPurchaseUnit))
+              : emptyDraft(line.materialId, false, String(outstanding));
+          })
+      );
+    } catch (error) {
+      console.error('Error fetching document:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch document');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchDocument();
+    fetch('/api/inventory/filters')
+      .then(res => res.json())
+      .then(data => {
+        setVendors(data.vendors || []);
+        setStorageLocations(data.storageLocations || []);
+      })
+      .catch(() => {
+        setVendors([]);
+        setStorageLocations([]);
+      });
+    fetch('/api/inventory')
+      .then(res => res.json())
+      .then(data => setMaterials(Array.isArray(data.materials) ? data.materials : []))
+      .catch(() => setMaterials([]));
+  }, [fetchDocument]);
+
+  useEffect(() => {
+    if (!session?.user.id) return;
+    fetch(`/api/settings/users/${session.user.id}/permissions`)
+      .then(res => (res.ok ? res.json() : []))
+      .then((permissions: { name: string }[]) => setCanEdit(permissions.some(p => p.name === 'Edit Materials')))
+      .catch(() => setCanEdit(false));
+  }, [session?.user.id]);
+
+  const updateDraft = (key: number, changes: Partial<ReceiptDraft>) => {
+    setDrafts(current => current.map(draft => (draft.key === key ? { ...draft, ...changes } : draft)));
+  };
+
+  const isPurchaseOrder = document?.type === 'Purchase Order';
+  const rows = drafts.filter(draft => draft.quantity !== '' && Number(draft.quantity) > 0);
+
+  const conversionFor = (materialId: string) => {
+    const material = materials.find(m => m.id === materialId)
+      ?? document?.orderLines.find(line => line.materialId === materialId)?.material;
+    return material ? unitConversion(material) : null;
+  };
+
+  const newDraft = (materialId: string) => {
+    const conversion = conversionFor(materialId);
+    return emptyDraft(materialId, !!conversion && hasPurchaseUnit(conversion));
+  };
+
+  const baseQuantity = (draft: ReceiptDraft) =>
+    Number(draft.quantity) * (draft.inPurchaseUnits ? conversionFor(draft.materialId)?.unitsPerPurchaseUnit ?? 1 : 1);
+
+  // Over-receipt and unordered items, counting what this delivery adds to earlier receipts
+  const flagFor = (materialId: string) => {
+    if (!isPurchaseOrder || !document) return null;
+    const orderLine = document.orderLines.find(line => line.materialId === materialId);
+    if (!orderLine || orderLine.quantity === 0) return 'Not on order';
+    const entered = rows
+      .filter(draft => draft.materialId === materialId)
+      .reduce((sum, draft) => sum + baseQuantity(draft), 0);
+    return orderLine.receivedQuantity + entered > orderLine.quantity
+      ? `Over-receipt: ${orderedIn(orderLine, orderLine.receivedQuantity + entered)} of ${orderedIn(orderLine, orderLine.quantity)}`
+      : null;
+  };
+
+  const handleReceive = async () => {
+    if (rows.length === 0) {
+      toast.error('Enter a received quantity on at least one line');
+      return;
+    }
+    if (rows.some(draft => !draft.lotNumber.trim() || !draft.expirationDate || !draft.storageLocationId)) {
+      toast.error('Enter the lot, expiry and location of every received line');
+      return;
+    }
+    const flagged = [...new Set(rows.map(draft => draft.materialId))].filter(materialId => flagFor(materialId));
+    if (flagged.length > 0 && !confirm(`${flagged.length} material(s) are over-received or were not ordered. Receive anyway?`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/documents/${id}/receipt`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          vendorId,
+          lines: rows.map(({ key: _key, ...draft }) => draft),
+        }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to receive goods');
+        return;
+      }
+
+      toast.success(`Received ${data.batches.length} batch(es)`);
+      for (const warning of data.warnings as string[]) {
+        toast.warning(warning);
+      }
+      router.push(`/documents/${id}?referrer=documents`);
+    } catch (error) {
+      console.error('Error receiving goods:', error);
+      toast.error('Failed to receive goods');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6 text-center text-gray-500 dark:text-gray-400">Loading...</div>;
+  }
+
+  if (error || !document) {
+    return (
+      <div className="p-6 text-center text-red-500">
+        <p className="font-medium">Error loading document</p>
+        <p className="text-sm mt-2">{error || 'Document not found'}</p>
+      </div>
+    );
+  }
+
+  const materialName = (materialId: string) => {
+    const material = materials.find(m => m.id === materialId)
+      ?? document.orderLines.find(line => line.materialId === materialId)?.material;
+    return material ? materialLabel(material) : materialId;
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">
+            Receive Goods - {document.type} {document.documentNumber}
+          </h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Enter the quantity, lot and expiry of each lot delivered. Every line becomes a batch linked to this document.
+          </p>
+        </div>
+        <Link href={`/documents/${id}?referrer=documents`}>
+          <Button variant="outline">Back to Document</Button>
+        </Link>
+      </div>
+
+      {isPurchaseOrder && (
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+          <h2 className="text-lg font-semibold mb-4">Ordered</h2>
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Material</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Ordered</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Received</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {document.orderLines.map(line => (
+                <tr key={line.id}>
+                  <td className="px-4 py-2 text-sm">{materialLabel(line.material)}</td>
+                  <td className="px-4 py-2 text-sm text-right">{orderedIn(line, line.quantity)}</td>
+                  <td className="px-4 py-2 text-sm text-right">{orderedIn(line, line.receivedQuantity)}</td>
+                  <td className="px-4 py-2 text-sm">
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${statusClasses[line.status]}`}>{line.status}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {canEdit ? (
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6 space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <h2 className="text-lg font-semibold flex-1">Delivered</h2>
+            <div className="w-full md:w-72">
+              <SearchableSelect
+                options={vendors.map(vendor => ({ value: vendor.id, label: vendor.name }))}
+                value={vendorId}
+                onValueChange={setVendorId}
+                placeholder="Delivered by vendor"
+              />
+            </div>
+          </div>
+
+          {drafts.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Nothing is outstanding. Add a line for anything delivered.</p>
+          )}
+          {drafts.map(draft => {
+            const flag = flagFor(draft.materialId);
+            const conversion = conversionFor(draft.materialId);
+            return (
+              <div key={draft.key} className="border border-gray-200 dark:border-gray-700 rounded p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm flex-1">{materialName(draft.materialId)}</span>
+                  {flag && draft.quantity !== '' && (
+                    <span className="px-2 py-1 rounded text-xs font-medium bg-amber-100 text-amber-800">{flag}</span>
+                  )}
+                  <Button type="button" variant="outline" size="sm" onClick={() => setDrafts(current => {
+                    const index = current.findIndex(d => d.key === draft.key);
+                    return [...current.slice(0, index + 1), newDraft(draft.materialId), ...current.slice(index + 1)];
+                  })}>
+                    Add Lot
+                  </Button>
+                  <button
+                    type="button"
+                    className="text-red-500 hover:text-red-700"
+                    onClick={() => setDrafts(current => current.filter(d => d.key !== draft.key))}
+                    aria-label="Remove line"
+                  >
+                    <X size={18} />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+                  <div className="flex gap-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Quantity"
+                      value={draft.quantity}
+                      onChange={(e) => updateDraft(draft.key, { quantity: e.target.value })}
+                    />
+                    {conversion && hasPurchaseUnit(conversion) && (
+                      <select
+                        value={draft.inPurchaseUnits ? 'purchase' : 'base'}
+                        onChange={(e) => updateDraft(draft.key, { inPurchaseUnits: e.target.value === 'purchase' })}
+                        className="rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-2 text-sm"
+                        title={purchaseUnitLabel(conversion)}
+                      >
+                        <option value="purchase">{conversion.purchaseUnit}</option>
+                        <option value="base">{conversion.baseUnit}</option>
+                      </select>
+                    )}
+                  </div>
+                  <Input
+                    placeholder="Lot number"
+                    value={draft.lotNumber}
+                    onChange={(e) => updateDraft(draft.key, { lotNumber: e.target.value })}
+                  />
+                  <Input
+                    type="date"
+                    value={draft.expirationDate}
+                    onChange={(e) => updateDraft(draft.key, { expirationDate: e.target.value })}
+                  />
+                  <SearchableSelect
+                    options={storageLocations.map(location => ({ value: location.id, label: location.path }))}
+                    value={draft.storageLocationId}
+                    onValueChange={value => updateDraft(draft.key, { storageLocationId: value })}
+                    placeholder="Location"
+                  />
+                  <select
+                    value={draft.purchaseType}
+                    onChange={(e) => updateDraft(draft.key, { purchaseType: e.target.value })}
+                    className="rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 text-sm"
+                  >
+                    {PURCHASE_TYPES.map(type => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder={draft.inPurchaseUnits && conversion ? `Cost per ${conversion.purchaseUnit.toLowerCase()} (optional)` : 'Unit cost (optional)'}
+                    value={draft.unitCost}
+                    onChange={(e) => updateDraft(draft.key, { unitCost: e.target.value })}
+                  />
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex flex-col md:flex-row gap-2">
+            <div className="flex-1">
+              <SearchableSelect
+                options={materials.map(material => ({ value: material.id, label: materialLabel(material) }))}
+                value={addMaterialId}
+                onValueChange={setAddMaterialId}
+                placeholder={isPurchaseOrder ? 'Add an item that was not ordered' : 'Add a delivered material'}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={!addMaterialId}
+              onClick={() => {
+                setDrafts(current => [...current, newDraft(addMaterialId)]);
+                setAddMaterialId('');
+              }}
+            >
+              Add Line
+            </Button>
+          </div>
+
+          <div className="flex justify-end">
+            <Button variant="highlight" disabled={saving} onClick={handleReceive}>
+              {saving ? 'Receiving...' : `Receive ${rows.length} Line(s)`}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="p-6 text-center text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 rounded shadow">
+          You do not have permission to receive goods.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -35,7 +35,7 @@ export default function DocumentsPage() {
   const [dateFrom, setDateFrom] = useState("");
   const [dateTo, setDateTo] = useState("");
   const [vendors, setVendors] = useState<{ id: string; name: string }[]>([]);
-  const docTypes = ["Invoice", "Delivery Challan", "Purchase Order", "Governing Council", "Others"];
+  const docTypes = ["Invoice", "Delivery Challan", "Purchase Order", "Return Note", "Governing Council", "Others"];
   const [totalCount, setTotalCount] = useState<number | null>(null);
 
   useEffect(() => {
@@ -162,9 +162,14 @@ export default function DocumentsPage() {
           </p>
         </div>
         {hasEditPermission && (
-          <Link href="/documents/upload">
-            <Button variant="highlight">Upload New Document</Button>
-          </Link>
+          <div className="flex gap-2">
+            <Link href="/documents/purchase-orders">
+              <Button variant="outline">Create Purchase Order</Button>
+            </Link>
+            <Link href="/documents/upload">
+              <Button variant="highlight">Upload New Document</Button>
+            </Link>
+          </div>
         )}
       </div>
 
@@ -0,0 +1,338 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { SearchableSelect } from '@/components/ui/searchable-select';
+import { X } from 'lucide-react';
+import { toast } from 'sonner';
+import { ReorderSuggestion, ReorderSuggestionGroup } from '@/types/purchase-order';
+import { purchaseUnitLabel, unitConversion } from '@/lib/units';
+
+interface Vendor {
+  id: string;
+  name: string;
+}
+
+interface MaterialOption {
+  id: string;
+  name: string;
+  size: string | null;
+  brand: { name: string };
+  unitOfMeasure: string;
+  purchaseUnit: string | null;
+  packSize: number | null;
+}
+
+interface OrderLine {
+  materialId: string;
+  label: string;
+  suggestion: ReorderSuggestion | null;
+  // Quantities are ordered in this unit
+  unit: string;
+  quantity: string;
+}
+
+interface OrderDraft {
+  key: string;
+  vendorId: string;
+  lastVendor: string | null;
+  lines: OrderLine[];
+  notes: string;
+  addMaterialId: string;
+  generated: { id: string; documentNumber: string } | null;
+}
+
+const materialLabel = (name: string, size: string | null, brand: string) =>
+  `${name}${size ? ` (${size})` : ''} - ${brand}`;
+
+const toDraft = (group: ReorderSuggestionGroup): OrderDraft => ({
+  key: group.vendor?.id ?? 'none',
+  vendorId: group.vendor?.id ?? '',
+  lastVendor: group.vendor?.name ?? null,
+  lines: group.suggestions.map(suggestion => ({
+    materialId: suggestion.materialId,
+    label: materialLabel(suggestion.name, suggestion.size, suggestion.brand),
+    suggestion,
+    unit: suggestion.purchaseUnit,
+    quantity: String(suggestion.suggestedPurchaseQuantity),
+  })),
+  notes: '',
+  addMaterialId: '',
+  generated: null,
+});
+
+export default function PurchaseOrderSuggestionsPage() {
+  const { data: session } = useSession();
+  const [drafts, setDrafts] = useState<OrderDraft[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [materials, setMaterials] = useState<MaterialOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [hasPermission, setHasPermission] = useState(false);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const fetchSuggestions = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch('/api/purchase-orders/suggestions');
+      if (!response.ok) {
+        throw new Error('Failed to fetch reorder suggestions');
+      }
+      const groups: ReorderSuggestionGroup[] = await response.json();
+      setDrafts(groups.map(toDraft));
+    } catch (error) {
+      console.error('Error fetching reorder suggestions:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch reorder suggestions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSuggestions();
+    fetch('/api/settings/vendors').then(res => res.json()).then(setVendors).catch(() => setVendors([]));
+    fetch('/api/inventory')
+      .then(res => res.json())
+      .then(data => setMaterials(Array.isArray(data.materials) ? data.materials : []))
+      .catch(() => setMaterials([]));
+  }, [fetchSuggestions]);
+
+  useEffect(() => {
+    if (!session?.user) return;
+    fetch('/api/auth/me')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setHasPermission(!!data?.user?.permissions?.some((p: { name: string }) => p.name === 'Edit Documents')))
+      .catch(() => setHasPermission(false));
+  }, [session]);
+
+  const updateDraft = (key: string, changes: Partial<OrderDraft>) => {
+    setDrafts(current => current.map(draft => (draft.key === key ? { ...draft, ...changes } : draft)));
+  };
+
+  const updateLine = (draft: OrderDraft, index: number, quantity: string) => {
+    updateDraft(draft.key, {
+      lines: draft.lines.map((line, i) => (i === index ? { ...line, quantity } : line)),
+    });
+  };
+
+  const addLine = (draft: OrderDraft) => {
+    const material = materials.find(m => m.id === draft.addMaterialId);
+    if (!material) return;
+    updateDraft(draft.key, {
+      addMaterialId: '',
+      lines: [
+        ...draft.lines,
+        {
+          materialId: material.id,
+          label: materialLabel(material.name, material.size, material.brand.name),
+          suggestion: null,
+          unit: purchaseUnitLabel(unitConversion(material)),
+          quantity: '1',
+        },
+      ],
+    });
+  };
+
+  const handleGenerate = async (draft: OrderDraft) => {
+    if (!draft.vendorId) {
+      toast.error('Select a vendor for this order');
+      return;
+    }
+    if (draft.lines.length === 0) {
+      toast.error('Add at least one line to the order');
+      return;
+    }
+
+    setSavingKey(draft.key);
+    try {
+      const response = await fetch('/api/purchase-orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          vendorId: draft.vendorId,
+          notes: draft.notes,
+          lines: draft.lines.map(line => ({ materialId: line.materialId, quantity: line.quantity })),
+        }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to generate purchase order');
+        return;
+      }
+
+      toast.success(`Purchase order ${data.documentNumber} generated`);
+      updateDraft(draft.key, { generated: { id: data.id, documentNumber: data.documentNumber } });
+    } catch (error) {
+      console.error('Error generating purchase order:', error);
+      toast.error('Failed to generate purchase order');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Reorder Suggestions</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Materials below their reorder point, grouped by the vendor who last supplied them. Quantities
+            restock to par and cover at least a month of average use.
+          </p>
+        </div>
+        <Link href="/documents">
+          <Button variant="outline">Back to Documents</Button>
+        </Link>
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400">Loading...</div>
+      ) : error ? (
+        <div className="p-8 text-center text-red-500">
+          <p className="font-medium">Error loading reorder suggestions</p>
+          <p className="text-sm mt-2">{error}</p>
+        </div>
+      ) : drafts.length === 0 ? (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 rounded shadow">
+          No materials are below their reorder point.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {drafts.map(draft => (
+            <div key={draft.key} className="bg-white dark:bg-gray-800 rounded shadow p-6 space-y-4">
+              <div className="flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex-1">
+                  <h2 className="text-lg font-semibold">{draft.lastVendor ?? 'Never received'}</h2>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {draft.lastVendor ? 'Last supplier of these materials' : 'Choose a vendor to order these materials from'}
+                  </p>
+                </div>
+                <div className="w-full md:w-72">
+                  <SearchableSelect
+                    options={vendors.map(vendor => ({ value: vendor.id, label: vendor.name }))}
+                    value={draft.vendorId}
+                    onValueChange={value => updateDraft(draft.key, { vendorId: value })}
+                    placeholder="Order from vendor"
+                    disabled={!!draft.generated}
+                  />
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead>
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Material</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Type</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Usable</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Min / Par</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Avg / Month</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Order</th>
+                      <th className="px-4 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draft.lines.map((line, index) => (
+                      <tr key={line.materialId}>
+                        <td className="px-4 py-2 text-sm">
+                          {line.label}
+                          {line.suggestion && line.suggestion.lowLocations.length > 0 && (
+                            <p className="text-xs text-yellow-700 dark:text-yellow-400">
+                              Low at {line.suggestion.lowLocations.join(', ')}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm">{line.suggestion?.materialType ?? '-'}</td>
+                        <td className="px-4 py-2 text-sm text-right">{line.suggestion?.usableQuantity ?? '-'}</td>
+                        <td className="px-4 py-2 text-sm text-right">
+                          {line.suggestion ? `${line.suggestion.minLevel} / ${line.suggestion.parLevel ?? '-'}` : '-'}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right">{line.suggestion?.monthlyUsage ?? '-'}</td>
+                        <td className="px-4 py-2 text-sm text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <Input
+                              type="number"
+                              min={1}
+                              className="w-24 text-right"
+                              value={line.quantity}
+                              disabled={!!draft.generated}
+                              onChange={(e) => updateLine(draft, index, e.target.value)}
+                            />
+                            <span className="text-xs text-gray-500 whitespace-nowrap">{line.unit}</span>
+                          </div>
+                          {line.suggestion && line.suggestion.unitsPerPurchaseUnit > 1 && (
+                            <p className="text-xs text-gray-500 mt-1">{line.suggestion.suggestedQuantity} needed</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm">
+                          {!draft.generated && (
+                            <button
+                              type="button"
+                              className="text-red-500 hover:text-red-700"
+                              onClick={() => updateDraft(draft.key, { lines: draft.lines.filter((_, i) => i !== index) })}
+                              aria-label="Remove line"
+                            >
+                              <X size={18} />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {draft.generated ? (
+                <div className="rounded border border-green-300 bg-green-50 dark:bg-green-900/20 px-3 py-2 text-sm text-green-800 dark:text-green-200">
+                  Purchase order{' '}
+                  <Link href={`/documents/${draft.generated.id}?referrer=documents`} className="font-medium underline">
+                    {draft.generated.documentNumber}
+                  </Link>{' '}
+                  generated.
+                </div>
+              ) : hasPermission && (
+                <>
+                  <div className="flex flex-col md:flex-row gap-2">
+                    <div className="flex-1">
+                      <SearchableSelect
+                        options={materials
+                          .filter(material => !draft.lines.some(line => line.materialId === material.id))
+                          .map(material => ({ value: material.id, label: materialLabel(material.name, material.size, material.brand.name) }))}
+                        value={draft.addMaterialId}
+                        onValueChange={value => updateDraft(draft.key, { addMaterialId: value })}
+                        placeholder="Add another material"
+                      />
+                    </div>
+                    <Button type="button" variant="outline" disabled={!draft.addMaterialId} onClick={() => addLine(draft)}>
+                      Add Line
+                    </Button>
+                  </div>
+                  <Textarea
+                    placeholder="Notes for the vendor (optional)"
+                    value={draft.notes}
+                    onChange={(e) => updateDraft(draft.key, { notes: e.target.value })}
+                  />
+                  <div className="flex justify-end">
+                    <Button
+                      variant="highlight"
+                      disabled={savingKey === draft.key}
+                      onClick={() => handleGenerate(draft)}
+                    >
+                      {savingKey === draft.key ? 'Generating...' : 'Generate Purchase Order'}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,40 +4,86 @@ import { useState, useEffect, useCallback } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
 import { BatchForm } from '@/components/BatchForm';
 import { toast } from 'sonner';
 import { MaterialForm } from '@/components/MaterialForm';
 import Link from 'next/link';
 import BackToInventoryButton from '../../documents/[id]/BackToInventoryButton';
 import ActionsPopup from '@/components/ActionsPopup';
-import { Pencil, X, CirclePlus } from 'lucide-react';
+import { BatchStatusBadge } from '@/components/BatchStatusBadge';
+import { StockAdjustmentForm } from '@/components/StockAdjustmentForm';
+import { BatchHistoryPanel } from '@/components/BatchHistoryPanel';
+import { StockTransferForm } from '@/components/StockTransferForm';
+import { BatchLabelsDialog } from '@/components/BatchLabelsDialog';
+import { LocationLevelsForm, LocationLevel } from '@/components/LocationLevelsForm';
+import { DEFAULT_MIN_LEVEL } from '@/types/material';
+import { formatInPurchaseUnits, hasPurchaseUnit, purchaseUnitLabel, unitConversion } from '@/lib/units';
+import { BATCH_STATUSES } from '@/types/batch';
+import { Pencil, X, CirclePlus, Printer } from 'lucide-react';
 import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from '@/components/ui/tooltip';
 
 interface Batch {
   id: string;
+  labelNumber: number;
   quantity: number;
   initialQuantity: number;
   purchaseType: string;
   vendor: { id: string; name: string };
   documents: { document: { id: string; documentNumber: string } }[];
   addedBy: { username: string; email: string };
+  status: string;
+  statusReason: string | null;
+  statusSetBy: { username: string } | null;
+  statusSetAt: string | null;
   storageLocation: string;
+  storageLocationId: string | null;
+  parentBatch: { id: string; storageLocation: string } | null;
+  transfersOut: StockTransfer[];
   lotNumber: string | null;
-  cost: number | null;
+  unitCost: number | null;
   expirationDate: string;
   stockAddedDate: string;
   createdAt: string;
   updatedAt: string;
 }
 
+interface StockTransfer {
+  id: string;
+  quantity: number;
+  split: boolean;
+  fromLocation: string;
+  toLocation: string;
+  notes: string | null;
+  createdAt: string;
+  user: { username: string };
+}
+
 interface Material {
   id: string;
   name: string;
   size: string;
   brand: { id: string; name: string };
   materialType: { id: string; name: string };
+  minLevel: number | null;
+  parLevel: number | null;
+  maxLevel: number | null;
+  catalogNumber: string | null;
+  gtins: string[];
+  unitOfMeasure: string;
+  packSize: number | null;
+  purchaseUnit: string | null;
+  frenchSize: number | null;
+  lengthCm: number | null;
+  diameterMm: number | null;
+  singleUse: boolean;
+  sterile: boolean;
+  locationLevels: LocationLevel[];
   batches: Batch[];
 }
 
@@ -67,7 +113,17 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
   const [selectedBatch, setSelectedBatch] = useState<Batch | null>(null);
   const [brands, setBrands] = useState<{ id: string; name: string }[]>([]);
   const [materialTypes, setMaterialTypes] = useState<{ id: string; name: string }[]>([]);
+  const [storageLocations, setStorageLocations] = useState<{ id: string; path: string }[]>([]);
   const [materialId, setMaterialId] = useState<string | null>(null);
+  const [statusBatch, setStatusBatch] = useState<Batch | null>(null);
+  const [newStatus, setNewStatus] = useState('');
+  const [statusReason, setStatusReason] = useState('');
+  const [savingStatus, setSavingStatus] = useState(false);
+  const [adjustBatch, setAdjustBatch] = useState<Batch | null>(null);
+  const [historyBatch, setHistoryBatch] = useState<Batch | null>(null);
+  const [transferBatch, setTransferBatch] = useState<Batch | null>(null);
+  const [showLevelsDialog, setShowLevelsDialog] = useState(false);
+  const [showLabelsDialog, setShowLabelsDialog] = useState(false);
 
   const permissions = session?.user?.permissions || [];
   const canEdit = permissions.includes('Edit Materials');
@@ -114,6 +170,7 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
       const data = await response.json();
       setBrands(data.brands);
       setMaterialTypes(data.materialTypes);
+      setStorageLocations(data.storageLocations);
     } catch (err) {
       console.error('Error fetching filter options:', err);
     }
@@ -192,6 +249,43 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
     }
   };
 
+  const openStatusDialog = (batch: Batch) => {
+    setStatusBatch(batch);
+    setNewStatus(batch.status);
+    setStatusReason(batch.status === 'Available' ? '' : batch.statusReason || '');
+  };
+
+  const handleStatusSave = async () => {
+    if (!materialId || !statusBatch) return;
+    if (newStatus !== 'Available' && !statusReason.trim()) {
+      toast.error('Please give a reason for placing the batch on hold');
+      return;
+    }
+
+    setSavingStatus(true);
+    try {
+      const response = await fetch(`/api/inventory/${materialId}/batches/${statusBatch.id}/status`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: newStatus, reason: statusReason }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update batch status');
+      }
+
+      toast.success(`Batch marked ${newStatus}`);
+      setStatusBatch(null);
+      fetchMaterial();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update batch status');
+      console.error(err);
+    } finally {
+      setSavingStatus(false);
+    }
+  };
+
   const handleBatchSuccess = () => {
     fetchMaterial();
     setShowAddBatchDialog(false);
@@ -208,6 +302,26 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
   if (loading) return <div>Loading...</div>;
   if (error) return <div>{error}</div>;
   if (!material) return <div>Material not found</div>;
+
+  const usableQuantity = (batches: Batch[]) =>
+    batches.filter(batch => batch.status === 'Available').reduce((sum, batch) => sum + batch.quantity, 0);
+
+  // Usable stock at each location with its own levels, counting locations nested inside it
+  const locationLevels = material.locationLevels.map(level => {
+    const path = storageLocations.find(location => location.id === level.storageLocationId)?.path ?? '';
+    const quantity = usableQuantity(material.batches.filter(batch =>
+      batch.storageLocation === path || batch.storageLocation.startsWith(`${path} / `)
+    ));
+    return { ...level, path, quantity };
+  });
+  const totalUsable = usableQuantity(material.batches);
+  const conversion = unitConversion(material);
+  const minLevel = material.minLevel ?? DEFAULT_MIN_LEVEL;
+
+  // Transfers out of every batch of this material, newest first
+  const transfers = material.batches
+    .flatMap(batch => batch.transfersOut.map(transfer => ({ transfer, batch })))
+    .sort((a, b) => b.transfer.createdAt.localeCompare(a.transfer.createdAt));
   if (!materialId) return <div>Loading...</div>;
 
   type PopupAction = { label: string; onClick: (e: React.MouseEvent) => void; variant?: 'default' | 'outline' };
@@ -274,13 +388,113 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
                 <label className="text-sm font-medium text-gray-500">Material Type</label>
                 <p className="text-base font-medium">{material.materialType.name}</p>
               </div>
+              <div className="space-y-1">
+                <label className="text-sm font-medium text-gray-500">Usable Stock</label>
+                <p className={`text-base font-medium ${totalUsable > 0 && totalUsable < minLevel ? 'text-yellow-700 dark:text-yellow-400' : ''}`}>
+                  {totalUsable}
+                  {hasPurchaseUnit(conversion) && totalUsable > 0 && (
+                    <span className="text-sm text-gray-500"> ({formatInPurchaseUnits(totalUsable, conversion)})</span>
+                  )}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <label className="text-sm font-medium text-gray-500">Min / Par / Max</label>
+                <p className="text-base font-medium">
+                  {material.minLevel ?? `${DEFAULT_MIN_LEVEL} (default)`} / {material.parLevel ?? '-'} / {material.maxLevel ?? '-'}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <label className="text-sm font-medium text-gray-500">Catalog No.</label>
+                <p className="text-base font-medium">{material.catalogNumber || '-'}</p>
+              </div>
+              <div className="space-y-1">
+                <label className="text-sm font-medium text-gray-500">Unit / Pack</label>
+                <p className="text-base font-medium">
+                  {material.unitOfMeasure}
+                  {hasPurchaseUnit(conversion)
+                    ? `, bought by the ${purchaseUnitLabel(conversion)}`
+                    : material.packSize ? ` (${material.packSize} per box)` : ''}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <label className="text-sm font-medium text-gray-500">Dimensions</label>
+                <p className="text-base font-medium">
+                  {[
+                    material.frenchSize !== null && `${material.frenchSize} Fr`,
+                    material.lengthCm !== null && `${material.lengthCm} cm`,
+                    material.diameterMm !== null && `${material.diameterMm} mm`,
+                  ].filter(Boolean).join(' / ') || '-'}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <label className="text-sm font-medium text-gray-500">Handling</label>
+                <div className="flex gap-1">
+                  {material.singleUse && <Badge variant="secondary">Single use</Badge>}
+                  {material.sterile && <Badge variant="secondary">Sterile</Badge>}
+                  {!material.singleUse && !material.sterile && <p className="text-base font-medium">-</p>}
+                </div>
+              </div>
+              <div className="space-y-1 col-span-2">
+                <label className="text-sm font-medium text-gray-500">GTINs</label>
+                <p className="text-base font-medium font-mono">{material.gtins.length > 0 ? material.gtins.join(', ') : '-'}</p>
+              </div>
+            </div>
+            <div className="mt-4">
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium text-gray-500">Levels by Location</label>
+                {canEdit && (
+                  <Button variant="outline" size="sm" onClick={() => setShowLevelsDialog(true)}>
+                    Edit Location Levels
+                  </Button>
+                )}
+              </div>
+              {locationLevels.length === 0 ? (
+                <p className="text-sm text-gray-400">No location levels set</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead>
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Location</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Usable</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Min</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Par</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Max</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {locationLevels.map(level => (
+                      <tr key={level.storageLocationId}>
+                        <td className="px-4 py-2 text-sm">{level.path}</td>
+                        <td className={`px-4 py-2 text-sm text-right ${level.quantity < level.minLevel ? 'text-yellow-700 dark:text-yellow-400 font-medium' : ''}`}>
+                          {level.quantity}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right">{level.minLevel}</td>
+                        <td className="px-4 py-2 text-sm text-right">{level.parLevel ?? '-'}</td>
+                        <td className="px-4 py-2 text-sm text-right">{level.maxLevel ?? '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
             </div>
           </CardContent>
         </Card>
 
+        <LocationLevelsForm
+          materialId={materialId}
+          isOpen={showLevelsDialog}
+          levels={material.locationLevels}
+          storageLocations={storageLocations}
+          onClose={() => setShowLevelsDialog(false)}
+          onSuccess={() => {
+            setShowLevelsDialog(false);
+            fetchMaterial();
+          }}
+        />
+
         {/* Edit Material Dialog */}
         <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Edit Material</DialogTitle>
             </DialogHeader>
@@ -291,6 +505,19 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
                 size: material.size,
                 brandId: material.brand.id,
                 materialTypeId: material.materialType.id,
+                minLevel: material.minLevel?.toString() ?? '',
+                parLevel: material.parLevel?.toString() ?? '',
+                maxLevel: material.maxLevel?.toString() ?? '',
+                catalogNumber: material.catalogNumber ?? '',
+                gtins: material.gtins.join('\n'),
+                unitOfMeasure: material.unitOfMeasure,
+                packSize: material.packSize?.toString() ?? '',
+                purchaseUnit: material.purchaseUnit ?? '',
+                frenchSize: material.frenchSize?.toString() ?? '',
+                lengthCm: material.lengthCm?.toString() ?? '',
+                diameterMm: material.diameterMm?.toString() ?? '',
+                singleUse: material.singleUse,
+                sterile: material.sterile,
               }}
               brands={brands}
               materialTypes={materialTypes}
@@ -303,11 +530,18 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
         <div className="mt-6">
           <div className="flex justify-between items-center mb-4">
             <h2 className="text-2xl font-bold">Batches</h2>
-            {canEdit && (
-              <Button onClick={() => setShowAddBatchDialog(true)} className="flex items-center gap-2">
-                <CirclePlus className="w-5 h-5 mr-1" /> Add New Batch
-              </Button>
-            )}
+            <div className="flex gap-2">
+              {material.batches.length > 0 && (
+                <Button variant="outline" onClick={() => setShowLabelsDialog(true)} className="flex items-center gap-2">
+                  <Printer className="w-5 h-5 mr-1" /> Print Labels
+                </Button>
+              )}
+              {canEdit && (
+                <Button onClick={() => setShowAddBatchDialog(true)} className="flex items-center gap-2">
+                  <CirclePlus className="w-5 h-5 mr-1" /> Add New Batch
+                </Button>
+              )}
+            </div>
           </div>
 
           <div className="space-y-4">
@@ -319,6 +553,12 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
                       <label className="text-sm font-medium text-gray-500">Quantity</label>
                       <p className="text-base font-medium">{batch.quantity} / {batch.initialQuantity}</p>
                     </div>
+                    <div className="space-y-1 flex flex-col justify-center">
+                      <label className="text-sm font-medium text-gray-500">Status</label>
+                      <div>
+                        <BatchStatusBadge status={batch.status} reason={batch.statusReason} />
+                      </div>
+                    </div>
                     <div className="space-y-1">
                       <label className="text-sm font-medium text-gray-500">Vendor</label>
                       <p className="text-base font-medium">{batch.vendor.name}</p>
@@ -348,8 +588,10 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
                       <p className="text-base font-medium">{batch.lotNumber || 'N/A'}</p>
                     </div>
                     <div className="space-y-1">
-                      <label className="text-sm font-medium text-gray-500">Cost</label>
-                      <p className="text-base font-medium">{batch.cost ? `₹${batch.cost}` : 'N/A'}</p>
+                      <label className="text-sm font-medium text-gray-500">Unit Cost</label>
+                      <p className="text-base font-medium">
+                        {batch.unitCost ? `₹${batch.unitCost} (₹${(batch.unitCost * batch.initialQuantity).toFixed(2)} for ${batch.initialQuantity})` : 'N/A'}
+                      </p>
                     </div>
                     <div className="space-y-1">
                       <label className="text-sm font-medium text-gray-500">Added By</label>
@@ -386,6 +628,22 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
                       <label className="text-sm font-medium text-gray-500">Last Updated</label>
                       <p className="text-base font-medium">{new Date(batch.updatedAt).toLocaleDateString()}</p>
                     </div>
+                    {batch.parentBatch && (
+                      <div className="col-span-full text-sm text-gray-500 dark:text-gray-400">
+                        Split by transfer from a batch at {batch.parentBatch.storageLocation}
+                      </div>
+                    )}
+                    {batch.status !== 'Available' && (
+                      <div className="col-span-full rounded border border-red-200 bg-red-50 dark:bg-red-900/20 dark:border-red-800 px-3 py-2 text-sm">
+                        <span className="font-medium">On hold:</span> {batch.statusReason || 'No reason given'}
+                        {batch.statusSetBy && (
+                          <span className="text-gray-500 dark:text-gray-400">
+                            {' '}(set by {batch.statusSetBy.username}
+                            {batch.statusSetAt && ` on ${new Date(batch.statusSetAt).toLocaleDateString()}`})
+                          </span>
+                        )}
+                      </div>
+                    )}
                     <div className="space-y-1 col-span-full flex justify-end mt-3 gap-2">
                       <Tooltip>
                         <TooltipTrigger asChild>
@@ -414,6 +672,38 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
                                     },
                                     variant: 'outline' as const,
                                   },
+                                  {
+                                    label: 'Batch Details & History',
+                                    onClick: (e: React.MouseEvent) => {
+                                      e.stopPropagation();
+                                      setHistoryBatch(batch);
+                                    },
+                                    variant: 'outline' as const,
+                                  },
+                                  canEdit && {
+                                    label: 'Adjust Stock',
+                                    onClick: (e: React.MouseEvent) => {
+                                      e.stopPropagation();
+                                      setAdjustBatch(batch);
+                                    },
+                                    variant: 'outline' as const,
+                                  },
+                                  canEdit && batch.quantity > 0 && {
+                                    label: 'Transfer',
+                                    onClick: (e: React.MouseEvent) => {
+                                      e.stopPropagation();
+                                      setTransferBatch(batch);
+                                    },
+                                    variant: 'outline' as const,
+                                  },
+                                  canEdit && {
+                                    label: 'Set Status',
+                                    onClick: (e: React.MouseEvent) => {
+                                      e.stopPropagation();
+                                      openStatusDialog(batch);
+                                    },
+                                    variant: 'outline' as const,
+                                  },
                                 ].filter(Boolean) as PopupAction[])}
                               />
                             </span>
@@ -460,6 +750,44 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
           </div>
         </div>
 
+        {transfers.length > 0 && (
+          <div className="mt-6">
+            <h2 className="text-2xl font-bold mb-4">Transfers</h2>
+            <Card>
+              <CardContent className="p-0 overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead>
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Date</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Lot Number</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">From</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">To</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Quantity</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Moved</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Notes</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">By</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {transfers.map(({ transfer, batch }) => (
+                      <tr key={transfer.id}>
+                        <td className="px-4 py-2 text-sm whitespace-nowrap">{new Date(transfer.createdAt).toLocaleString()}</td>
+                        <td className="px-4 py-2 text-sm">{batch.lotNumber || 'N/A'}</td>
+                        <td className="px-4 py-2 text-sm">{transfer.fromLocation}</td>
+                        <td className="px-4 py-2 text-sm">{transfer.toLocation}</td>
+                        <td className="px-4 py-2 text-sm text-right">{transfer.quantity}</td>
+                        <td className="px-4 py-2 text-sm">{transfer.split ? 'Split into new batch' : 'Whole batch'}</td>
+                        <td className="px-4 py-2 text-sm">{transfer.notes || '-'}</td>
+                        <td className="px-4 py-2 text-sm">{transfer.user.username}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
         {/* Dialogs */}
         <Dialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
           <DialogContent>
@@ -498,6 +826,82 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
           </DialogContent>
         </Dialog>
 
+        <StockAdjustmentForm
+          materialId={materialId}
+          batch={adjustBatch}
+          onClose={() => setAdjustBatch(null)}
+          onSuccess={() => {
+            setAdjustBatch(null);
+            fetchMaterial();
+          }}
+        />
+
+        <BatchLabelsDialog
+          isOpen={showLabelsDialog}
+          material={material}
+          batches={material.batches}
+          onClose={() => setShowLabelsDialog(false)}
+        />
+
+        <StockTransferForm
+          materialId={materialId}
+          batch={transferBatch}
+          storageLocations={storageLocations}
+          onClose={() => setTransferBatch(null)}
+          onSuccess={() => {
+            setTransferBatch(null);
+            fetchMaterial();
+          }}
+        />
+
+        <BatchHistoryPanel
+          materialId={materialId}
+          batch={historyBatch}
+          onClose={() => setHistoryBatch(null)}
+        />
+
+        <Dialog open={!!statusBatch} onOpenChange={() => setStatusBatch(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Set Batch Status</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Batches that are not Available cannot be used and are excluded from usable stock.
+              </p>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={newStatus} onValueChange={setNewStatus}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BATCH_STATUSES.map(status => (
+                      <SelectItem key={status} value={status}>{status}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Reason{newStatus !== 'Available' && ' *'}</Label>
+                <Textarea
+                  value={statusReason}
+                  onChange={e => setStatusReason(e.target.value)}
+                  placeholder={newStatus === 'Available' ? 'Optional note' : 'Why is this batch on hold?'}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setStatusBatch(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleStatusSave} disabled={savingStatus}>
+                {savingStatus ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={showAddBatchDialog} onOpenChange={setShowAddBatchDialog}>
           <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col overflow-hidden">
             <DialogHeader className="flex-shrink-0">
@@ -506,7 +910,10 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
             <div className="flex-1 min-h-0 overflow-hidden">
               <BatchForm
                 materialId={materialId}
+                materialLabel={material ? `${material.name}${material.size ? ` (${material.size})` : ''}` : undefined}
+                conversion={material ? unitConversion(material) : undefined}
                 vendors={vendors}
+                storageLocations={storageLocations}
                 documents={documents}
                 onSuccess={handleBatchSuccess}
                 onCancel={() => setShowAddBatchDialog(false)}
@@ -532,12 +939,13 @@ export default function MaterialDetailsPage({ params }: { params: Promise<{ id:
                     expirationDate: selectedBatch.expirationDate.slice(0, 10),
                     vendorId: selectedBatch.vendor.id,
                     documentIds: selectedBatch.documents.map(d => d.document.id),
-                    storageLocation: selectedBatch.storageLocation,
+                    storageLocationId: selectedBatch.storageLocationId ?? '',
                     purchaseType: selectedBatch.purchaseType,
                     lotNumber: selectedBatch.lotNumber || '',
-                    cost: selectedBatch.cost ?? undefined,
+                    unitCost: selectedBatch.unitCost ?? undefined,
                   }}
                   vendors={vendors}
+                  storageLocations={storageLocations}
                   documents={documents}
                   onSuccess={handleBatchSuccess}
                   onCancel={() => setShowEditBatchDialog(null)}
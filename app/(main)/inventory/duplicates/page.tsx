@@ -0,0 +1,177 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { DuplicateGroup } from '@/types/material';
+
+// The material with the most batches is kept by default, the oldest when that is a tie
+const defaultSurvivor = (group: DuplicateGroup) =>
+  [...group.materials].sort((a, b) => b.batchCount - a.batchCount || a.createdAt.localeCompare(b.createdAt))[0].id;
+
+const groupKey = (group: DuplicateGroup) => group.materials.map(material => material.id).join('|');
+
+export default function DuplicateMaterialsPage() {
+  const { data: session } = useSession();
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  const canEdit = (session?.user?.permissions || []).includes('Edit Materials');
+
+  const fetchGroups = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch('/api/inventory/duplicates');
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to find duplicates');
+      }
+      const data: DuplicateGroup[] = await response.json();
+      setGroups(data);
+      setSurvivors(Object.fromEntries(data.map(group => [groupKey(group), defaultSurvivor(group)])));
+    } catch (error) {
+      console.error('Error finding duplicates:', error);
+      setError(error instanceof Error ? error.message : 'Failed to find duplicates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchGroups();
+  }, [fetchGroups]);
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    const key = groupKey(group);
+    const survivor = group.materials.find(material => material.id === survivors[key]);
+    if (!survivor) return;
+    const duplicates = group.materials.filter(material => material.id !== survivor.id);
+    if (!confirm(
+      `Merge ${duplicates.map(material => material.name).join(', ')} into ${survivor.name}? ` +
+      'Their batches and history move to it and the duplicates are deleted.'
+    )) {
+      return;
+    }
+
+    setMergingKey(key);
+    try {
+      for (const duplicate of duplicates) {
+        const response = await fetch('/api/inventory/merge', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ survivorId: survivor.id, duplicateId: duplicate.id }),
+        });
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || `Failed to merge ${duplicate.name}`);
+        }
+      }
+      toast.success(`Merged ${duplicates.length} material(s) into ${survivor.name}`);
+    } catch (error) {
+      console.error('Error merging materials:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to merge materials');
+    } finally {
+      setMergingKey(null);
+      fetchGroups();
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Duplicate Materials</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Materials of the same brand, type and size with near-identical names. Merging keeps the selected
+            material and moves everything recorded against the others onto it.
+          </p>
+        </div>
+        <Link href="/inventory">
+          <Button variant="outline">Back to Inventory</Button>
+        </Link>
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400">Loading...</div>
+      ) : error ? (
+        <div className="p-8 text-center text-red-500">
+          <p className="font-medium">Error finding duplicates</p>
+          <p className="text-sm mt-2">{error}</p>
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 rounded shadow">
+          No likely duplicates found.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {groups.map(group => {
+            const key = groupKey(group);
+            return (
+              <div key={key} className="bg-white dark:bg-gray-800 rounded shadow p-6 space-y-4">
+                <div>
+                  <h2 className="text-lg font-semibold">
+                    {group.brand} - {group.materialType}{group.size ? ` - ${group.size}` : ''}
+                  </h2>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Names {Math.round(group.similarity * 100)}% alike or more
+                  </p>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead>
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Keep</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Name</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Catalog No.</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Batches</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Quantity</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Created</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {group.materials.map(material => (
+                        <tr key={material.id}>
+                          <td className="px-4 py-2">
+                            <input
+                              type="radio"
+                              name={key}
+                              checked={survivors[key] === material.id}
+                              onChange={() => setSurvivors(current => ({ ...current, [key]: material.id }))}
+                              disabled={!canEdit}
+                            />
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            <Link href={`/inventory/${material.id}`} className="hover:underline">
+                              {material.name}{material.size ? ` (${material.size})` : ''}
+                            </Link>
+                          </td>
+                          <td className="px-4 py-2 text-sm">{material.catalogNumber || '-'}</td>
+                          <td className="px-4 py-2 text-sm text-right">{material.batchCount}</td>
+                          <td className="px-4 py-2 text-sm text-right">{material.quantity}</td>
+                          <td className="px-4 py-2 text-sm">{new Date(material.createdAt).toLocaleDateString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {canEdit && (
+                  <div className="flex justify-end">
+                    <Button variant="highlight" disabled={mergingKey === key} onClick={() => handleMerge(group)}>
+                      {mergingKey === key ? 'Merging...' : `Merge ${group.materials.length - 1} into Selected`}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
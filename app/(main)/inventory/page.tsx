@@ -9,22 +9,28 @@ import { useSession } from 'next-auth/react';
 import { X } from 'lucide-react';
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from '@/components/ui/select';
 import ActionsPopup from '@/components/ActionsPopup';
+import { BatchStatusBadge } from '@/components/BatchStatusBadge';
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { formatInPurchaseUnits, unitConversion } from '@/lib/units';
 
 // Copied from MaterialDetailsModal.tsx for type consistency
 interface Batch {
   id: string;
   purchaseType: string;
   quantity: number;
+  status: string;
+  statusReason: string | null;
   vendor: { id: string; name: string };
   lotNumber: string;
   expirationDate: string;
   storageLocation: string;
+  storageLocationId: string | null;
   documents: { document: { id: string; documentNumber: string } }[];
   stockAddedDate: string;
   stockAddedBy: string;
+  unitCost: number | null;
 }
 
 interface Material {
@@ -33,6 +39,10 @@ interface Material {
   size: string;
   brand: { id: string; name: string };
   materialType: { id: string; name: string };
+  unitOfMeasure: string;
+  purchaseUnit: string | null;
+  packSize: number | null;
+  lowStock: boolean;
   batches: Batch[];
 }
 
@@ -47,8 +57,11 @@ export default function InventoryPage() {
     materialType: "all",
     vendor: "all",
     purchaseType: "all",
-    stockStatus: "all"
+    stockStatus: "all",
+    storageLocation: "all"
   });
+  const [groupByLocation, setGroupByLocation] = useState(false);
+  const [inPurchaseUnits, setInPurchaseUnits] = useState(false);
   const [materials, setMaterials] = useState<Material[]>([]);
   const [totalCount, setTotalCount] = useState<number>(0);
   const [loading, setLoading] = useState(false);
@@ -61,12 +74,14 @@ export default function InventoryPage() {
     vendors: { id: string; name: string }[];
     purchaseTypes: string[];
     stockStatuses: string[];
+    storageLocations: { id: string; path: string }[];
   }>({
     brands: [],
     materialTypes: [],
     vendors: [],
     purchaseTypes: [],
-    stockStatuses: []
+    stockStatuses: [],
+    storageLocations: []
   });
 
   const permissions = session?.user?.permissions || [];
@@ -83,6 +98,7 @@ export default function InventoryPage() {
       if (filters.vendor && filters.vendor !== "all") params.append('vendor', filters.vendor);
       if (filters.purchaseType && filters.purchaseType !== "all") params.append('purchaseType', filters.purchaseType);
       if (filters.stockStatus && filters.stockStatus !== "all") params.append('stockStatus', filters.stockStatus);
+      if (filters.storageLocation && filters.storageLocation !== "all") params.append('storageLocation', filters.storageLocation);
 
       const res = await fetch(`/api/inventory?${params.toString()}`);
       const data = await res.json();
@@ -116,7 +132,7 @@ export default function InventoryPage() {
         const data = await res.json();
         setFilterOptions(data);
       } catch {
-        setFilterOptions({ brands: [], materialTypes: [], vendors: [], purchaseTypes: [], stockStatuses: [] });
+        setFilterOptions({ brands: [], materialTypes: [], vendors: [], purchaseTypes: [], stockStatuses: [], storageLocations: [] });
       }
     }
     fetchFilterOptions();
@@ -147,6 +163,10 @@ export default function InventoryPage() {
     return d.toLocaleDateString('en-GB'); // DD/MM/YYYY
   }
 
+  // Stock is kept in base units; the purchase unit view shows whole boxes and loose units
+  const showQuantity = (material: Material, quantity: number) =>
+    inPurchaseUnits ? formatInPurchaseUnits(quantity, unitConversion(material)) : quantity;
+
   // Export as Excel (all batches)
   const handleExportExcel = () => {
     const exportData: Record<string, string | number | null | undefined>[] = [];
@@ -159,6 +179,11 @@ export default function InventoryPage() {
           'Material Type': mat.materialType.name,
           'Purchase Type': batch.purchaseType,
           'Quantity': batch.quantity,
+          'Unit': mat.unitOfMeasure,
+          'In Purchase Units': formatInPurchaseUnits(batch.quantity, unitConversion(mat)),
+          'Unit Cost': batch.unitCost,
+          'Value': batch.unitCost != null ? batch.quantity * batch.unitCost : null,
+          'Status': batch.status,
           'Vendor': batch.vendor?.name,
           'Lot Number': batch.lotNumber,
           'Expiration Date': formatDate(batch.expirationDate),
@@ -185,7 +210,9 @@ export default function InventoryPage() {
           mat.size || '',
           mat.materialType.name || '',
           batch.purchaseType || '',
-          batch.quantity,
+          showQuantity(mat, batch.quantity),
+          batch.unitCost != null ? (batch.quantity * batch.unitCost).toFixed(2) : '',
+          batch.status,
           batch.vendor?.name || '',
           batch.lotNumber || '',
           formatDate(batch.expirationDate),
@@ -196,7 +223,7 @@ export default function InventoryPage() {
     });
     autoTable(doc, {
       head: [[
-        'Brand', 'Name', 'Size', 'Material Type', 'Purchase Type', 'Quantity', 'Vendor', 'Lot Number', 'Expiration Date', 'Storage Location', 'Stock Added Date'
+        'Brand', 'Name', 'Size', 'Material Type', 'Purchase Type', 'Quantity', 'Value', 'Status', 'Vendor', 'Lot Number', 'Expiration Date', 'Storage Location', 'Stock Added Date'
       ]],
       body: exportData,
       styles: { fontSize: 8 },
@@ -205,6 +232,17 @@ export default function InventoryPage() {
     doc.save('inventory_export.pdf');
   };
 
+  // Every batch on the page under its storage location path, locations in path order
+  const locationGroups = Object.entries(
+    materials.reduce<Record<string, { material: Material; batch: Batch }[]>>((groups, material) => {
+      material.batches.forEach(batch => {
+        const key = batch.storageLocation || 'Unspecified';
+        (groups[key] ??= []).push({ material, batch });
+      });
+      return groups;
+    }, {})
+  ).sort(([a], [b]) => a.localeCompare(b));
+
   // Don't render anything until mounted to prevent hydration mismatch
   if (!mounted) {
     return null;
@@ -216,7 +254,7 @@ export default function InventoryPage() {
         <div className="flex flex-row flex-wrap gap-x-2 gap-y-2 items-center">
           <input
             type="text"
-            placeholder="Search by name, brand, vendor..."
+            placeholder="Search by name, brand, vendor, catalog no., GTIN..."
             value={search}
             onChange={(e) => setSearch(e.target.value)}
             className="border rounded px-3 py-2 text-sm w-64"
@@ -347,6 +385,45 @@ export default function InventoryPage() {
               </button>
             )}
           </div>
+          <div className="flex items-center gap-x-1">
+            <Select value={filters.storageLocation} onValueChange={value => setFilters(f => ({ ...f, storageLocation: value }))}>
+              <SelectTrigger>
+                <SelectValue placeholder="All Locations" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Locations</SelectItem>
+                {filterOptions.storageLocations.map((l) => (
+                  <SelectItem key={l.id} value={l.id}>{l.path}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {filters.storageLocation && filters.storageLocation !== "all" && (
+              <button
+                type="button"
+                className="text-red-500 hover:text-red-700"
+                onClick={() => setFilters((f) => ({ ...f, storageLocation: "all" }))}
+                aria-label="Clear storage location"
+              >
+                <X size={18} />
+              </button>
+            )}
+          </div>
+          <label className="flex items-center gap-x-1 text-sm whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={groupByLocation}
+              onChange={(e) => setGroupByLocation(e.target.checked)}
+            />
+            Group by location
+          </label>
+          <label className="flex items-center gap-x-1 text-sm whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={inPurchaseUnits}
+              onChange={(e) => setInPurchaseUnits(e.target.checked)}
+            />
+            In purchase units
+          </label>
         </div>
         <div className="flex gap-2">
           {canEdit && (
@@ -354,6 +431,16 @@ export default function InventoryPage() {
               Add Material
             </Button>
           )}
+          {canEdit && (
+            <Link href="/inventory/returns">
+              <Button variant="outline">Return to Vendor</Button>
+            </Link>
+          )}
+          {canEdit && (
+            <Link href="/inventory/duplicates">
+              <Button variant="outline">Find Duplicates</Button>
+            </Link>
+          )}
           <Button variant="outline" onClick={handleExportExcel}>
             Export as Excel
           </Button>
@@ -379,6 +466,51 @@ export default function InventoryPage() {
           <div className="p-8 text-center text-gray-500 dark:text-gray-400">
             No materials found matching your search criteria.
           </div>
+        ) : groupByLocation ? (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Brand</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Name</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Size</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Lot Number</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Quantity</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Status</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Expiration Date</th>
+              </tr>
+            </thead>
+            <tbody>
+              {locationGroups.map(([location, entries]) => (
+                <React.Fragment key={location}>
+                  <tr className="bg-gray-100 dark:bg-gray-700">
+                    <td colSpan={7} className="px-4 py-2 text-sm font-semibold">
+                      {location}
+                      <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">
+                        {entries.length} batch(es), {entries.reduce((sum, { batch }) => sum + batch.quantity, 0)} units
+                      </span>
+                    </td>
+                  </tr>
+                  {entries.map(({ material, batch }) => (
+                    <tr
+                      key={batch.id}
+                      className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                      onClick={() => { window.location.href = `/inventory/${material.id}`; }}
+                    >
+                      <td className="px-4 py-2">{material.brand.name}</td>
+                      <td className="px-4 py-2">{material.name}</td>
+                      <td className="px-4 py-2">{material.size}</td>
+                      <td className="px-4 py-2">{batch.lotNumber || '-'}</td>
+                      <td className="px-4 py-2">{showQuantity(material, batch.quantity)}</td>
+                      <td className="px-4 py-2">
+                        <BatchStatusBadge status={batch.status} reason={batch.statusReason} />
+                      </td>
+                      <td className="px-4 py-2">{new Date(batch.expirationDate).toLocaleDateString()}</td>
+                    </tr>
+                  ))}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
         ) : (
           <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
             <thead>
@@ -387,15 +519,17 @@ export default function InventoryPage() {
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Name</th>
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Size</th>
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Material Type</th>
-                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Total Quantity</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Usable Quantity</th>
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Stock Status</th>
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Actions</th>
               </tr>
             </thead>
             <tbody>
               {materials.map((mat) => {
-                const totalQty = mat.batches.reduce((sum, b) => sum + b.quantity, 0);
-                const stockStatus = totalQty === 0 ? "Out of Stock" : totalQty < 5 ? "Low Stock" : "In Stock";
+                // Held (non-Available) stock is shown separately and does not count towards stock status
+                const usableQty = mat.batches.filter(b => b.status === 'Available').reduce((sum, b) => sum + b.quantity, 0);
+                const heldQty = mat.batches.filter(b => b.status !== 'Available').reduce((sum, b) => sum + b.quantity, 0);
+                const stockStatus = usableQty === 0 ? "Out of Stock" : mat.lowStock ? "Low Stock" : "In Stock";
                 const query = new URLSearchParams({
                   search,
                   brand: filters.brand,
@@ -403,6 +537,7 @@ export default function InventoryPage() {
                   vendor: filters.vendor,
                   purchaseType: filters.purchaseType,
                   stockStatus: filters.stockStatus,
+                  storageLocation: filters.storageLocation,
                 });
 
                 return (
@@ -415,7 +550,12 @@ export default function InventoryPage() {
                       <td className="px-4 py-2">{mat.name}</td>
                       <td className="px-4 py-2">{mat.size}</td>
                       <td className="px-4 py-2">{mat.materialType.name}</td>
-                      <td className="px-4 py-2">{totalQty}</td>
+                      <td className="px-4 py-2">
+                        {showQuantity(mat, usableQty)}
+                        {heldQty > 0 && (
+                          <span className="ml-2 text-xs text-red-600 dark:text-red-400">+{showQuantity(mat, heldQty)} on hold</span>
+                        )}
+                      </td>
                       <td className="px-4 py-2">
                         <span className={`px-2 py-1 rounded text-xs font-medium ${
                           stockStatus === "Out of Stock" ? "bg-red-100 text-red-800" :
@@ -458,6 +598,7 @@ export default function InventoryPage() {
                                 <tr>
                                   <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">Purchase Type</th>
                                   <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">Quantity</th>
+                                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">Status</th>
                                   <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">Vendor</th>
                                   <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">Expiration Date</th>
                                   <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">Storage Location</th>
@@ -477,7 +618,10 @@ export default function InventoryPage() {
                                         {batch.purchaseType}
                                       </span>
                                     </td>
-                                    <td className="px-4 py-2">{batch.quantity}</td>
+                                    <td className="px-4 py-2">{showQuantity(mat, batch.quantity)}</td>
+                                    <td className="px-4 py-2">
+                                      <BatchStatusBadge status={batch.status} reason={batch.statusReason} />
+                                    </td>
                                     <td className="px-4 py-2">{batch.vendor?.name || '-'}</td>
                                     <td className="px-4 py-2">{new Date(batch.expirationDate).toLocaleDateString()}</td>
                                     <td className="px-4 py-2">{batch.storageLocation}</td>
@@ -517,7 +661,7 @@ export default function InventoryPage() {
 
       {/* Add Material Dialog */}
       <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Add New Material</DialogTitle>
           </DialogHeader>
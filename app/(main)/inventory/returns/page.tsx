@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { SearchableSelect } from '@/components/ui/searchable-select';
+import { BatchStatusBadge } from '@/components/BatchStatusBadge';
+import { toast } from 'sonner';
+
+interface ReturnableBatch {
+  id: string;
+  lotNumber: string | null;
+  quantity: number;
+  expirationDate: string;
+  purchaseType: string;
+  status: string;
+  statusReason: string | null;
+  storageLocation: string;
+  material: { name: string; size: string | null; brand: { name: string } };
+}
+
+const daysUntil = (date: string) => Math.ceil((new Date(date).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+
+export default function VendorReturnPage() {
+  const router = useRouter();
+  const [vendors, setVendors] = useState<{ id: string; name: string }[]>([]);
+  const [vendorId, setVendorId] = useState('');
+  const [batches, setBatches] = useState<ReturnableBatch[]>([]);
+  const [advanceOnly, setAdvanceOnly] = useState(true);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/settings/vendors').then(res => res.json()).then(setVendors).catch(() => setVendors([]));
+  }, []);
+
+  useEffect(() => {
+    setQuantities({});
+    setBatches([]);
+    if (!vendorId) return;
+    setLoading(true);
+    fetch(`/api/vendor-returns?vendorId=${vendorId}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || 'Failed to fetch batches');
+        }
+        setBatches(await response.json());
+      })
+      .catch((error) => {
+        console.error('Error fetching batches:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to fetch batches');
+      })
+      .finally(() => setLoading(false));
+  }, [vendorId]);
+
+  const shown = batches.filter(batch => !advanceOnly || batch.purchaseType === 'Advance');
+  const lines = Object.entries(quantities)
+    .filter(([, quantity]) => quantity !== '' && Number(quantity) > 0)
+    .map(([batchId, quantity]) => ({ batchId, quantity: Number(quantity) }));
+  const totalUnits = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  const handleSubmit = async () => {
+    if (lines.length === 0) {
+      toast.error('Enter a quantity to return for at least one batch');
+      return;
+    }
+    const over = lines.find(line => line.quantity > (batches.find(b => b.id === line.batchId)?.quantity ?? 0));
+    if (over) {
+      toast.error('A return quantity is more than the batch holds');
+      return;
+    }
+    if (!confirm(`Return ${totalUnits} unit(s) from ${lines.length} batch(es) to the vendor? Stock will be reduced immediately.`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/vendor-returns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ vendorId, lines, reason }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to return stock');
+        return;
+      }
+      toast.success(`Return note ${data.documentNumber} generated`);
+      router.push(`/documents/${data.id}?referrer=documents`);
+    } catch (error) {
+      console.error('Error returning stock:', error);
+      toast.error('Failed to return stock');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Return to Vendor</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Send unused or near-expiry stock back to its vendor with a printable return note
+          </p>
+        </div>
+        <Link href="/inventory">
+          <Button variant="outline">Back to Inventory</Button>
+        </Link>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded shadow p-6 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="w-full md:w-80 space-y-2">
+            <Label>Vendor</Label>
+            <SearchableSelect
+              options={vendors.map(vendor => ({ value: vendor.id, label: vendor.name }))}
+              value={vendorId}
+              onValueChange={setVendorId}
+              placeholder="Select a vendor"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={advanceOnly} onChange={(e) => setAdvanceOnly(e.target.checked)} />
+            Advance stock only
+          </label>
+        </div>
+
+        {!vendorId ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Select the vendor to return stock to.</p>
+        ) : loading ? (
+          <div className="p-6 text-center text-gray-500 dark:text-gray-400">Loading...</div>
+        ) : shown.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No stock from this vendor to return.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Material</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Lot</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Expiry</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Location</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Type</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Status</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">In Stock</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Return</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map(batch => {
+                  const days = daysUntil(batch.expirationDate);
+                  return (
+                    <tr key={batch.id}>
+                      <td className="px-4 py-2 text-sm">
+                        {batch.material.name}{batch.material.size ? ` (${batch.material.size})` : ''} - {batch.material.brand.name}
+                      </td>
+                      <td className="px-4 py-2 text-sm">{batch.lotNumber || '-'}</td>
+                      <td className={`px-4 py-2 text-sm whitespace-nowrap ${days <= 90 ? 'text-red-600 font-medium' : ''}`}>
+                        {new Date(batch.expirationDate).toLocaleDateString()}
+                        {days <= 90 && ` (${days < 0 ? 'expired' : `${days} days`})`}
+                      </td>
+                      <td className="px-4 py-2 text-sm">{batch.storageLocation}</td>
+                      <td className="px-4 py-2 text-sm">{batch.purchaseType}</td>
+                      <td className="px-4 py-2 text-sm">
+                        <BatchStatusBadge status={batch.status} reason={batch.statusReason} />
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right">{batch.quantity}</td>
+                      <td className="px-4 py-2 text-sm text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Input
+                            type="number"
+                            min={0}
+                            max={batch.quantity}
+                            className="w-24 text-right"
+                            value={quantities[batch.id] ?? ''}
+                            onChange={(e) => setQuantities(current => ({ ...current, [batch.id]: e.target.value }))}
+                          />
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setQuantities(current => ({ ...current, [batch.id]: String(batch.quantity) }))}
+                          >
+                            All
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {lines.length > 0 && (
+          <>
+            <Textarea
+              placeholder="Reason for the return (optional), e.g. near expiry, no longer stocked"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            <div className="flex items-center justify-end gap-4">
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                {totalUnits} unit(s) from {lines.length} batch(es)
+              </span>
+              <Button variant="highlight" disabled={saving} onClick={handleSubmit}>
+                {saving ? 'Returning...' : 'Generate Return Note'}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
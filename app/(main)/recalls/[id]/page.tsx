@@ -0,0 +1,334 @@
+'use client';
+
+import { useState, useEffect, useCallback, use } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import * as XLSX from 'xlsx';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+
+interface RecallBatch {
+  id: string;
+  quantityAtRecall: number;
+  batch: {
+    id: string;
+    lotNumber: string | null;
+    quantity: number;
+    expirationDate: string;
+    storageLocation: string;
+    purchaseType: string;
+    vendor: { name: string };
+  };
+}
+
+interface AffectedUsage {
+  id: string;
+  procedureId: string;
+  patientName: string;
+  patientId: string;
+  procedureName: string;
+  procedureDate: string;
+  physician: { id: string; name: string } | null;
+  legacyPhysician: string | null;
+  quantity: number;
+  batch: { id: string; lotNumber: string | null };
+  user: { username: string };
+}
+
+interface RecallDetail {
+  id: string;
+  reference: string;
+  lotNumbers: string[];
+  reason: string | null;
+  status: string;
+  createdAt: string;
+  closedAt: string | null;
+  material: {
+    name: string;
+    size: string | null;
+    brand: { name: string };
+    materialType: { name: string };
+  };
+  createdBy: { username: string };
+  batches: RecallBatch[];
+  usageRecords: AffectedUsage[];
+}
+
+interface Permission {
+  name: string;
+}
+
+// Helper to format date as DD/MM/YYYY
+function formatDate(dateString: string | null | undefined) {
+  if (!dateString) return '';
+  const d = new Date(dateString);
+  if (isNaN(d.getTime())) return '';
+  return d.toLocaleDateString('en-GB');
+}
+
+const physicianName = (record: AffectedUsage) =>
+  record.physician?.name ?? record.legacyPhysician ?? '';
+
+export default function RecallDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [recall, setRecall] = useState<RecallDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [userPermissions, setUserPermissions] = useState<Permission[]>([]);
+  const [showCloseDialog, setShowCloseDialog] = useState(false);
+
+  const fetchRecall = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/recalls/${id}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to fetch recall');
+      }
+      setRecall(await response.json());
+    } catch (error) {
+      console.error('Error fetching recall:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch recall');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchRecall();
+  }, [fetchRecall]);
+
+  useEffect(() => {
+    if (!session?.user.id) return;
+    fetch(`/api/settings/users/${session.user.id}/permissions`)
+      .then(res => (res.ok ? res.json() : []))
+      .then(setUserPermissions)
+      .catch(() => setUserPermissions([]));
+  }, [session?.user.id]);
+
+  const canEdit = userPermissions.some(p => p.name === 'Edit Materials');
+
+  const handleCloseRecall = async () => {
+    setShowCloseDialog(false);
+    try {
+      const response = await fetch(`/api/recalls/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'Closed' }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to close recall');
+        return;
+      }
+      toast.success('Recall closed; its batches are no longer quarantined');
+      fetchRecall();
+    } catch (error) {
+      console.error('Error closing recall:', error);
+      toast.error('Failed to close recall');
+    }
+  };
+
+  const exportFileName = `recall_${recall?.reference.replace(/[^a-z0-9_-]+/gi, '_')}_patients`;
+
+  // Export affected patients as Excel
+  const handleExportExcel = () => {
+    if (!recall) return;
+    const exportData = recall.usageRecords.map(rec => ({
+      'Patient Name': rec.patientName,
+      'Patient ID': rec.patientId,
+      'Procedure Name': rec.procedureName,
+      'Procedure Date': formatDate(rec.procedureDate),
+      'Physician': physicianName(rec),
+      'Batch Lot': rec.batch.lotNumber,
+      'Quantity': rec.quantity,
+      'Recorded By': rec.user.username,
+    }));
+    const ws = XLSX.utils.json_to_sheet(exportData);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Affected Patients');
+    XLSX.writeFile(wb, `${exportFileName}.xlsx`);
+  };
+
+  // Export affected patients as PDF
+  const handleExportPDF = () => {
+    if (!recall) return;
+    const doc = new jsPDF({ orientation: 'landscape' });
+    doc.setFontSize(12);
+    doc.text(`Recall ${recall.reference} - ${recall.material.name} (${recall.material.brand.name}), lots: ${recall.lotNumbers.join(', ')}`, 14, 15);
+    const exportData = recall.usageRecords.map(rec => ([
+      rec.patientName,
+      rec.patientId,
+      rec.procedureName,
+      formatDate(rec.procedureDate),
+      physicianName(rec),
+      rec.batch.lotNumber,
+      rec.quantity,
+      rec.user.username,
+    ]));
+    autoTable(doc, {
+      startY: 20,
+      head: [['Patient Name', 'Patient ID', 'Procedure Name', 'Procedure Date', 'Physician', 'Batch Lot', 'Quantity', 'Recorded By']],
+      body: exportData,
+      styles: { fontSize: 8 },
+      headStyles: { fillColor: [49, 46, 129] },
+    });
+    doc.save(`${exportFileName}.pdf`);
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center">Loading...</div>
+      </div>
+    );
+  }
+
+  if (error || !recall) {
+    return (
+      <div className="p-6 text-center text-red-500">
+        <p className="font-medium">Error loading recall</p>
+        <p className="text-sm mt-2">{error}</p>
+      </div>
+    );
+  }
+
+  const patientCount = new Set(recall.usageRecords.map(rec => rec.patientId)).size;
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6">
+      <div className="flex justify-between items-start">
+        <Button variant="outline" onClick={() => router.push('/recalls')}>
+          Back to Recalls
+        </Button>
+        {canEdit && recall.status === 'Open' && (
+          <Button variant="destructive" onClick={() => setShowCloseDialog(true)}>
+            Close Recall
+          </Button>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <h1 className="text-2xl font-bold">Recall {recall.reference}</h1>
+          <span className={`px-2 py-1 rounded text-xs font-medium ${
+            recall.status === 'Open' ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-800'
+          }`}>
+            {recall.status}
+          </span>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+          <div><strong>Material:</strong> {recall.material.name} {recall.material.size && `(${recall.material.size})`}</div>
+          <div><strong>Brand:</strong> {recall.material.brand.name}</div>
+          <div><strong>Lot Numbers:</strong> {recall.lotNumbers.join(', ')}</div>
+          <div><strong>Material Type:</strong> {recall.material.materialType.name}</div>
+          <div><strong>Opened:</strong> {new Date(recall.createdAt).toLocaleString()} by {recall.createdBy.username}</div>
+          {recall.closedAt && <div><strong>Closed:</strong> {new Date(recall.closedAt).toLocaleString()}</div>}
+          {recall.reason && <div className="md:col-span-2"><strong>Reason:</strong> {recall.reason}</div>}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+        <h2 className="text-xl font-semibold mb-4">Affected Batches</h2>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Lot Number</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Remaining</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">At Recall</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Storage Location</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Expiry</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Purchase Type</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Vendor</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recall.batches.map(({ id, quantityAtRecall, batch }) => (
+                <tr key={id}>
+                  <td className="px-4 py-2">{batch.lotNumber || 'N/A'}</td>
+                  <td className="px-4 py-2">{batch.quantity}</td>
+                  <td className="px-4 py-2">{quantityAtRecall}</td>
+                  <td className="px-4 py-2">{batch.storageLocation}</td>
+                  <td className="px-4 py-2">{formatDate(batch.expirationDate)}</td>
+                  <td className="px-4 py-2">{batch.purchaseType}</td>
+                  <td className="px-4 py-2">{batch.vendor.name}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-4 gap-2">
+          <h2 className="text-xl font-semibold">
+            Affected Patients ({patientCount})
+          </h2>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleExportExcel} disabled={recall.usageRecords.length === 0}>
+              Export as Excel
+            </Button>
+            <Button variant="outline" onClick={handleExportPDF} disabled={recall.usageRecords.length === 0}>
+              Export as PDF
+            </Button>
+          </div>
+        </div>
+        {recall.usageRecords.length === 0 ? (
+          <div className="text-gray-500 text-center py-4">No units from these lots have been used.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Patient</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Patient ID</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Procedure</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Physician</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Lot</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Quantity</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recall.usageRecords.map((rec) => (
+                  <tr key={rec.id}>
+                    <td className="px-4 py-2">{rec.patientName}</td>
+                    <td className="px-4 py-2">{rec.patientId}</td>
+                    <td className="px-4 py-2">{rec.procedureName}</td>
+                    <td className="px-4 py-2">{formatDate(rec.procedureDate)}</td>
+                    <td className="px-4 py-2">{physicianName(rec)}</td>
+                    <td className="px-4 py-2">{rec.batch.lotNumber || 'N/A'}</td>
+                    <td className="px-4 py-2">{rec.quantity}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={showCloseDialog} onOpenChange={setShowCloseDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Close Recall</DialogTitle>
+          </DialogHeader>
+          <p>
+            Closing recall {recall.reference} returns the batch(es) it quarantined to Available,
+            so any remaining stock can be used again. Continue?
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCloseDialog(false)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleCloseRecall}>Close Recall</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
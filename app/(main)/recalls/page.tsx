@@ -0,0 +1,146 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { RecallForm } from '@/components/RecallForm';
+
+interface Recall {
+  id: string;
+  reference: string;
+  lotNumbers: string[];
+  reason: string | null;
+  status: string;
+  createdAt: string;
+  closedAt: string | null;
+  material: { id: string; name: string; size: string | null; brand: { name: string } };
+  createdBy: { username: string };
+  _count: { batches: number };
+}
+
+interface Permission {
+  name: string;
+}
+
+export default function RecallsPage() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [recalls, setRecalls] = useState<Recall[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [userPermissions, setUserPermissions] = useState<Permission[]>([]);
+  const [showAddDialog, setShowAddDialog] = useState(false);
+
+  const fetchRecalls = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch('/api/recalls');
+      if (!response.ok) {
+        throw new Error('Failed to fetch recalls');
+      }
+      setRecalls(await response.json());
+    } catch (error) {
+      console.error('Error fetching recalls:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch recalls');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRecalls();
+  }, [fetchRecalls]);
+
+  useEffect(() => {
+    if (!session?.user.id) return;
+    fetch(`/api/settings/users/${session.user.id}/permissions`)
+      .then(res => (res.ok ? res.json() : []))
+      .then(setUserPermissions)
+      .catch(() => setUserPermissions([]));
+  }, [session?.user.id]);
+
+  const canEdit = userPermissions.some(p => p.name === 'Edit Materials');
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Recalls</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Quarantine recalled lots and trace the patients who received them
+          </p>
+        </div>
+        {canEdit && (
+          <Button variant="highlight" className="font-semibold" onClick={() => setShowAddDialog(true)}>
+            Open Recall
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded shadow">
+        {loading ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">Loading...</div>
+        ) : error ? (
+          <div className="p-8 text-center text-red-500">
+            <p className="font-medium">Error loading recalls</p>
+            <p className="text-sm mt-2">{error}</p>
+          </div>
+        ) : recalls.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            No recalls have been opened.
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Reference</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Material</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Lot Numbers</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Batches</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Status</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Opened</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Opened By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recalls.map((recall) => (
+                <tr
+                  key={recall.id}
+                  className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                  onClick={() => router.push(`/recalls/${recall.id}`)}
+                >
+                  <td className="px-4 py-2 font-medium">{recall.reference}</td>
+                  <td className="px-4 py-2">
+                    {recall.material.name} {recall.material.size && `(${recall.material.size})`} - {recall.material.brand.name}
+                  </td>
+                  <td className="px-4 py-2">{recall.lotNumbers.join(', ')}</td>
+                  <td className="px-4 py-2">{recall._count.batches}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${
+                      recall.status === 'Open' ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {recall.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">{new Date(recall.createdAt).toLocaleDateString()}</td>
+                  <td className="px-4 py-2">{recall.createdBy.username}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <RecallForm
+        isOpen={showAddDialog}
+        onClose={() => setShowAddDialog(false)}
+        onSuccess={(recallId) => {
+          setShowAddDialog(false);
+          router.push(`/recalls/${recallId}`);
+        }}
+      />
+    </div>
+  );
+}
@@ -22,6 +22,9 @@ export default function DataLogDetails({ log, onClose }: DataLogDetailsProps) {
     ...Object.keys(log.newValues || {}),
   ]);
 
+  // Usage drawn from an expired batch carries the justification given for the override
+  const overrideReason = log.newValues?.expiryOverrideReason;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white dark:bg-gray-900 rounded-lg shadow-xl p-6 w-full max-w-4xl max-h-[80vh] overflow-y-auto">
@@ -30,6 +33,13 @@ export default function DataLogDetails({ log, onClose }: DataLogDetailsProps) {
           <button onClick={onClose} className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200">&times;</button>
         </div>
 
+        {typeof overrideReason === 'string' && overrideReason && (
+          <div className="mb-4 p-3 rounded border border-amber-300 bg-amber-50 dark:bg-amber-900/30 dark:border-amber-700">
+            <strong className="block text-sm font-medium text-amber-800 dark:text-amber-200">Expiry Override Justification:</strong>
+            <p className="text-sm text-amber-900 dark:text-amber-100 mt-1 whitespace-pre-wrap">{overrideReason}</p>
+          </div>
+        )}
+
         <div className="grid grid-cols-2 gap-4">
           <div>
             <h3 className="text-lg font-semibold mb-2 border-b pb-2 text-gray-900 dark:text-gray-100">Old Values</h3>
@@ -0,0 +1,288 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { STORAGE_LOCATION_TYPES, StorageLocation } from '@/types/storage-location';
+
+type LocationFormData = Pick<StorageLocation, 'name' | 'type'> & { parentId: string };
+
+const emptyForm: LocationFormData = {
+  name: '',
+  type: 'Room',
+  parentId: '',
+};
+
+const inputClassName = 'mt-1 block w-full rounded-md border border-gray-300 dark:border-gray-700 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100';
+
+export default function StorageLocations() {
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<LocationFormData>(emptyForm);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  useEffect(() => {
+    fetchLocations();
+  }, []);
+
+  const fetchLocations = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/settings/storage-locations');
+      const data = await response.json();
+      setLocations(data);
+      setError(null);
+    } catch (err) {
+      setError('Failed to fetch storage locations');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Surfaces the API's validation message, e.g. a Room placed inside a Shelf
+  const send = async (url: string, init: RequestInit, fallback: string) => {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || fallback);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await send(
+        editingId ? `/api/settings/storage-locations/${editingId}` : '/api/settings/storage-locations',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...formData, parentId: formData.parentId || null }),
+        },
+        'Failed to save storage location'
+      );
+      await fetchLocations();
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save storage location');
+      console.error(err);
+    }
+  };
+
+  const handleEdit = (location: StorageLocation) => {
+    setEditingId(location.id);
+    setFormData({
+      name: location.name,
+      type: location.type,
+      parentId: location.parentId || '',
+    });
+    setIsAdding(true);
+  };
+
+  const handleAddInside = (location: StorageLocation) => {
+    const next = STORAGE_LOCATION_TYPES[STORAGE_LOCATION_TYPES.indexOf(location.type) + 1];
+    setEditingId(null);
+    setFormData({ name: '', type: next ?? 'Bin', parentId: location.id });
+    setIsAdding(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this storage location?')) return;
+
+    try {
+      await send(`/api/settings/storage-locations/${id}`, { method: 'DELETE' }, 'Failed to delete storage location');
+      await fetchLocations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete storage location');
+      console.error(err);
+    }
+  };
+
+  const handleMerge = async (location: StorageLocation) => {
+    const target = locations.find(l => l.id === mergeTargetId);
+    if (!target) return;
+    if (!confirm(`Move all ${location.batchCount} batch(es) from "${location.path}" to "${target.path}" and delete "${location.path}"?`)) return;
+
+    try {
+      await send(
+        `/api/settings/storage-locations/${location.id}/merge`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ targetId: mergeTargetId }),
+        },
+        'Failed to merge storage location'
+      );
+      setMergingId(null);
+      setMergeTargetId('');
+      await fetchLocations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge storage location');
+      console.error(err);
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingId(null);
+    setIsAdding(false);
+  };
+
+  // A location cannot be placed inside itself or anything beneath it
+  const parentOptions = locations.filter(location =>
+    !editingId || (location.id !== editingId && !location.path.startsWith(`${locations.find(l => l.id === editingId)?.path} / `))
+  );
+
+  const depthOf = (location: StorageLocation) => location.path.split(' / ').length - 1;
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-medium">Storage Locations</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Building, room, cabinet and shelf or bin. Merge duplicates to move their batches into one location.
+          </p>
+        </div>
+        <button
+          onClick={() => { resetForm(); setIsAdding(true); }}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          Add Location
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-900 shadow sm:rounded-lg p-6">
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="locationName" className="block text-sm font-medium text-gray-400">
+                Name
+              </label>
+              <input
+                type="text"
+                id="locationName"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={inputClassName}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="locationType" className="block text-sm font-medium text-gray-400">
+                Type
+              </label>
+              <select
+                id="locationType"
+                value={formData.type}
+                onChange={(e) => setFormData({ ...formData, type: e.target.value as LocationFormData['type'] })}
+                className={inputClassName}
+              >
+                {STORAGE_LOCATION_TYPES.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="locationParent" className="block text-sm font-medium text-gray-400">
+                Inside
+              </label>
+              <select
+                id="locationParent"
+                value={formData.parentId}
+                onChange={(e) => setFormData({ ...formData, parentId: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="">(Top level)</option>
+                {parentOptions.map(location => (
+                  <option key={location.id} value={location.id}>{location.path} ({location.type})</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="mt-4 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-md text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              {editingId ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white dark:bg-gray-900 shadow sm:rounded-lg">
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {locations.map((location) => (
+            <li key={location.id} className="px-6 py-4 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100">
+              <div className="flex items-center justify-between">
+                <div style={{ paddingLeft: `${depthOf(location) * 1.5}rem` }}>
+                  <div className="font-medium">{location.name}</div>
+                  <div className="text-gray-500 dark:text-gray-400">
+                    {location.type} &middot; {location.batchCount} batch(es)
+                  </div>
+                </div>
+                <div className="flex gap-2 ml-auto">
+                  {location.type !== 'Bin' && (
+                    <button className="text-blue-600 hover:underline" onClick={() => handleAddInside(location)}>Add Inside</button>
+                  )}
+                  <button className="text-blue-600 hover:underline" onClick={() => handleEdit(location)}>Edit</button>
+                  <button
+                    className="text-blue-600 hover:underline"
+                    onClick={() => { setMergingId(mergingId === location.id ? null : location.id); setMergeTargetId(''); }}
+                  >
+                    Merge
+                  </button>
+                  <button className="text-red-600 hover:underline" onClick={() => handleDelete(location.id)}>Delete</button>
+                </div>
+              </div>
+              {mergingId === location.id && (
+                <div className="mt-3 flex items-center gap-2" style={{ paddingLeft: `${depthOf(location) * 1.5}rem` }}>
+                  <span className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">Merge into</span>
+                  <select
+                    value={mergeTargetId}
+                    onChange={(e) => setMergeTargetId(e.target.value)}
+                    className={`${inputClassName} mt-0`}
+                  >
+                    <option value="">Select a location</option>
+                    {locations
+                      .filter(l => l.id !== location.id && !l.path.startsWith(`${location.path} / `))
+                      .map(l => (
+                        <option key={l.id} value={l.id}>{l.path} ({l.type})</option>
+                      ))}
+                  </select>
+                  <button
+                    disabled={!mergeTargetId}
+                    onClick={() => handleMerge(location)}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Merge
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { useSession } from 'next-auth/react';
 import MaterialTypes from './components/MaterialTypes';
 import Brands from './components/Brands';
 import Vendors from './components/Vendors';
+import StorageLocations from './components/StorageLocations';
 import Physicians from './components/Physicians';
 import Backup from './components/Backup';
 import UserManagement from './components/UserManagement';
@@ -20,6 +21,7 @@ const tabs = [
   { id: 'material-types', name: 'Material Types' },
   { id: 'brands', name: 'Brands' },
   { id: 'vendors', name: 'Vendors' },
+  { id: 'storage-locations', name: 'Storage Locations' },
   { id: 'physicians', name: 'Physicians' },
   { id: 'backup', name: 'Backup' },
   { id: 'user-management', name: 'User Management' },
@@ -71,6 +73,8 @@ export default function SettingsPage() {
         return <Brands />;
       case 'vendors':
         return <Vendors />;
+      case 'storage-locations':
+        return <StorageLocations />;
       case 'physicians':
         return <Physicians />;
       case 'backup':
@@ -0,0 +1,449 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef, use } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+
+interface StockTakeLine {
+  id: string;
+  frozenQuantity: number;
+  countedQuantity: number | null;
+  systemQuantity: number | null;
+  countedAt: string | null;
+  adjustment: number | null;
+  batch: {
+    id: string;
+    quantity: number;
+    lotNumber: string | null;
+    expirationDate: string;
+    storageLocation: string;
+    material: {
+      name: string;
+      size: string | null;
+      brand: { name: string };
+      materialType: { name: string };
+    };
+  };
+}
+
+interface StockTakeDetail {
+  id: string;
+  reference: string;
+  storageLocations: string[];
+  materialTypes: { id: string; name: string }[];
+  notes: string | null;
+  status: string;
+  createdAt: string;
+  postedAt: string | null;
+  startedBy: { username: string };
+  postedBy: { username: string } | null;
+  lines: StockTakeLine[];
+}
+
+interface Permission {
+  name: string;
+}
+
+// Helper to format date as DD/MM/YYYY
+function formatDate(dateString: string | null | undefined) {
+  if (!dateString) return '';
+  const d = new Date(dateString);
+  if (isNaN(d.getTime())) return '';
+  return d.toLocaleDateString('en-GB');
+}
+
+const materialLabel = (line: StockTakeLine) =>
+  `${line.batch.material.name}${line.batch.material.size ? ` (${line.batch.material.size})` : ''} - ${line.batch.material.brand.name}`;
+
+// Saved counts are compared with the system quantity captured when they were entered;
+// unsaved ones with the current quantity, which is what will be captured on save
+const expectedQuantity = (line: StockTakeLine, draft: string | undefined) =>
+  draft === undefined && line.systemQuantity !== null ? line.systemQuantity : line.batch.quantity;
+
+export default function StockTakeDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [stockTake, setStockTake] = useState<StockTakeDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [userPermissions, setUserPermissions] = useState<Permission[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [scanValue, setScanValue] = useState('');
+  const [lastScannedId, setLastScannedId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [showPostDialog, setShowPostDialog] = useState(false);
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchStockTake = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/stock-takes/${id}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to fetch stock take');
+      }
+      setStockTake(await response.json());
+      setDrafts({});
+    } catch (error) {
+      console.error('Error fetching stock take:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch stock take');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchStockTake();
+  }, [fetchStockTake]);
+
+  useEffect(() => {
+    if (!session?.user.id) return;
+    fetch(`/api/settings/users/${session.user.id}/permissions`)
+      .then(res => (res.ok ? res.json() : []))
+      .then(setUserPermissions)
+      .catch(() => setUserPermissions([]));
+  }, [session?.user.id]);
+
+  const canEdit = userPermissions.some(p => p.name === 'Edit Materials');
+  const isOpen = stockTake?.status === 'In Progress';
+  const editable = canEdit && isOpen;
+
+  const countValue = (line: StockTakeLine) =>
+    drafts[line.id] ?? (line.countedQuantity === null ? '' : String(line.countedQuantity));
+
+  const varianceOf = (line: StockTakeLine) => {
+    const value = countValue(line);
+    if (value === '') return null;
+    return parseInt(value) - expectedQuantity(line, drafts[line.id]);
+  };
+
+  // Each scan of a lot number or batch id counts one unit
+  const handleScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = scanValue.trim().toLowerCase();
+    setScanValue('');
+    if (!code || !stockTake) return;
+
+    const matches = stockTake.lines.filter(line =>
+      line.batch.id.toLowerCase() === code || line.batch.lotNumber?.toLowerCase() === code
+    );
+
+    if (matches.length === 0) {
+      toast.error(`No batch in this stock take matches "${code}"`);
+      return;
+    }
+    if (matches.length > 1) {
+      toast.error(`"${code}" matches ${matches.length} batches; enter their counts manually`);
+      return;
+    }
+
+    const line = matches[0];
+    const current = parseInt(countValue(line)) || 0;
+    setDrafts(prev => ({ ...prev, [line.id]: String(current + 1) }));
+    setLastScannedId(line.id);
+    scanInputRef.current?.focus();
+  };
+
+  const handleSave = async () => {
+    const entries = Object.entries(drafts);
+    if (entries.length === 0) return;
+
+    const counts = entries.map(([lineId, value]) => ({
+      lineId,
+      countedQuantity: value === '' ? null : parseInt(value),
+    }));
+    if (counts.some(count => count.countedQuantity !== null && (isNaN(count.countedQuantity) || count.countedQuantity < 0))) {
+      toast.error('Counts must be whole numbers of zero or more');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/stock-takes/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ counts }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save counts');
+        return;
+      }
+      setStockTake(prev => (prev ? { ...prev, ...data } : data));
+      setDrafts({});
+      toast.success(`${counts.length} count(s) saved`);
+    } catch (error) {
+      console.error('Error saving counts:', error);
+      toast.error('Failed to save counts');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePost = async () => {
+    setShowPostDialog(false);
+    try {
+      const response = await fetch(`/api/stock-takes/${id}/post`, { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to post stock take');
+        return;
+      }
+      toast.success(`Stock take ${data.reference} posted`);
+      fetchStockTake();
+    } catch (error) {
+      console.error('Error posting stock take:', error);
+      toast.error('Failed to post stock take');
+    }
+  };
+
+  const handleCancel = async () => {
+    setShowCancelDialog(false);
+    try {
+      const response = await fetch(`/api/stock-takes/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'Cancelled' }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to cancel stock take');
+        return;
+      }
+      toast.success('Stock take cancelled');
+      fetchStockTake();
+    } catch (error) {
+      console.error('Error cancelling stock take:', error);
+      toast.error('Failed to cancel stock take');
+    }
+  };
+
+  // Printable variance report
+  const handleExportPDF = () => {
+    if (!stockTake) return;
+    const doc = new jsPDF({ orientation: 'landscape' });
+    doc.setFontSize(12);
+    doc.text(`Stock Take ${stockTake.reference} - ${stockTake.status}`, 14, 15);
+    doc.setFontSize(9);
+    doc.text(
+      `Started ${formatDate(stockTake.createdAt)} by ${stockTake.startedBy.username}` +
+        (stockTake.postedAt ? ` | Posted ${formatDate(stockTake.postedAt)} by ${stockTake.postedBy?.username ?? ''}` : '') +
+        ` | Scope: ${[...stockTake.storageLocations, ...stockTake.materialTypes.map(type => type.name)].join(', ')}`,
+      14,
+      21
+    );
+    const exportData = stockTake.lines.map(line => {
+      const variance = varianceOf(line);
+      return [
+        line.batch.storageLocation,
+        materialLabel(line),
+        line.batch.lotNumber || '',
+        formatDate(line.batch.expirationDate),
+        line.frozenQuantity,
+        expectedQuantity(line, drafts[line.id]) - line.frozenQuantity,
+        expectedQuantity(line, drafts[line.id]),
+        countValue(line) === '' ? 'Not counted' : countValue(line),
+        variance === null ? '' : variance,
+        line.adjustment === null ? '' : line.adjustment,
+      ];
+    });
+    autoTable(doc, {
+      startY: 26,
+      head: [['Location', 'Material', 'Lot', 'Expiry', 'Frozen', 'Movement Since Freeze', 'Expected', 'Counted', 'Variance', 'Posted Adjustment']],
+      body: exportData,
+      styles: { fontSize: 8 },
+      headStyles: { fillColor: [49, 46, 129] },
+    });
+    doc.save(`stock_take_${stockTake.reference}_variances.pdf`);
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center">Loading...</div>
+      </div>
+    );
+  }
+
+  if (error || !stockTake) {
+    return (
+      <div className="p-6 text-center text-red-500">
+        <p className="font-medium">Error loading stock take</p>
+        <p className="text-sm mt-2">{error}</p>
+      </div>
+    );
+  }
+
+  const countedLines = stockTake.lines.filter(line => countValue(line) !== '');
+  const varianceLines = countedLines.filter(line => varianceOf(line) !== 0);
+  const hasDrafts = Object.keys(drafts).length > 0;
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div className="flex justify-between items-start">
+        <Button variant="outline" onClick={() => router.push('/stock-takes')}>
+          Back to Stock Takes
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExportPDF}>
+            Variance Report (PDF)
+          </Button>
+          {editable && (
+            <>
+              <Button variant="destructive" onClick={() => setShowCancelDialog(true)}>
+                Cancel Stock Take
+              </Button>
+              <Button
+                variant="highlight"
+                onClick={() => setShowPostDialog(true)}
+                disabled={hasDrafts || countedLines.length === 0}
+                title={hasDrafts ? 'Save counts before posting' : undefined}
+              >
+                Post Adjustments
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <h1 className="text-2xl font-bold">Stock Take {stockTake.reference}</h1>
+          <span className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800">{stockTake.status}</span>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+          <div><strong>Storage Locations:</strong> {stockTake.storageLocations.join(', ') || 'All'}</div>
+          <div><strong>Material Types:</strong> {stockTake.materialTypes.map(type => type.name).join(', ') || 'All'}</div>
+          <div><strong>Started:</strong> {formatDate(stockTake.createdAt)} by {stockTake.startedBy.username}</div>
+          {stockTake.postedAt && (
+            <div><strong>Posted:</strong> {formatDate(stockTake.postedAt)} by {stockTake.postedBy?.username}</div>
+          )}
+          <div><strong>Counted:</strong> {countedLines.length} / {stockTake.lines.length} batches</div>
+          <div><strong>Variances:</strong> {varianceLines.length}</div>
+          {stockTake.notes && <div className="md:col-span-2"><strong>Notes:</strong> {stockTake.notes}</div>}
+        </div>
+      </div>
+
+      {editable && (
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-4 flex flex-col md:flex-row md:items-center gap-3">
+          <form onSubmit={handleScan} className="flex-1 flex gap-2">
+            <Input
+              ref={scanInputRef}
+              value={scanValue}
+              onChange={(e) => setScanValue(e.target.value)}
+              placeholder="Scan or type a lot number / batch id and press Enter to count one unit"
+              autoFocus
+            />
+            <Button type="submit" variant="outline">Count</Button>
+          </form>
+          <Button onClick={handleSave} disabled={saving || !hasDrafts}>
+            {saving ? 'Saving...' : `Save Counts${hasDrafts ? ` (${Object.keys(drafts).length})` : ''}`}
+          </Button>
+        </div>
+      )}
+
+      <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded shadow">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead>
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Location</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Material</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Lot</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Expiry</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Frozen</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Since Freeze</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Expected</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Counted</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Variance</th>
+              {stockTake.status === 'Posted' && (
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Posted</th>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {stockTake.lines.map((line) => {
+              const expected = expectedQuantity(line, drafts[line.id]);
+              const variance = varianceOf(line);
+              return (
+                <tr
+                  key={line.id}
+                  className={lastScannedId === line.id ? 'bg-indigo-50 dark:bg-indigo-900/20' : undefined}
+                >
+                  <td className="px-4 py-2 text-sm">{line.batch.storageLocation}</td>
+                  <td className="px-4 py-2 text-sm">{materialLabel(line)}</td>
+                  <td className="px-4 py-2 text-sm">{line.batch.lotNumber || 'N/A'}</td>
+                  <td className="px-4 py-2 text-sm">{formatDate(line.batch.expirationDate)}</td>
+                  <td className="px-4 py-2 text-sm text-right">{line.frozenQuantity}</td>
+                  <td className="px-4 py-2 text-sm text-right">
+                    {expected - line.frozenQuantity === 0 ? '-' : expected - line.frozenQuantity}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{expected}</td>
+                  <td className="px-4 py-2 text-sm">
+                    {editable ? (
+                      <Input
+                        type="number"
+                        min={0}
+                        className="w-24"
+                        value={countValue(line)}
+                        onChange={(e) => setDrafts(prev => ({ ...prev, [line.id]: e.target.value }))}
+                      />
+                    ) : (
+                      countValue(line) || <span className="text-gray-400">Not counted</span>
+                    )}
+                  </td>
+                  <td className={`px-4 py-2 text-sm text-right font-medium ${
+                    variance === null || variance === 0 ? '' : variance < 0 ? 'text-red-600' : 'text-green-600'
+                  }`}>
+                    {variance === null ? '-' : `${variance > 0 ? '+' : ''}${variance}`}
+                  </td>
+                  {stockTake.status === 'Posted' && (
+                    <td className="px-4 py-2 text-sm text-right">{line.adjustment ?? '-'}</td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <Dialog open={showPostDialog} onOpenChange={setShowPostDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Post Adjustments</DialogTitle>
+          </DialogHeader>
+          <p>
+            {varianceLines.length} of {countedLines.length} counted batch(es) have a variance and will be corrected
+            to the counted quantity. {stockTake.lines.length - countedLines.length} uncounted batch(es) will be left
+            unchanged. The stock take cannot be edited after posting. Continue?
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowPostDialog(false)}>Cancel</Button>
+            <Button variant="highlight" onClick={handlePost}>Post Adjustments</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showCancelDialog} onOpenChange={setShowCancelDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Stock Take</DialogTitle>
+          </DialogHeader>
+          <p>No stock will be adjusted and no further counts can be entered. Continue?</p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCancelDialog(false)}>Keep Counting</Button>
+            <Button variant="destructive" onClick={handleCancel}>Cancel Stock Take</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
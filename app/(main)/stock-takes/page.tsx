@@ -0,0 +1,159 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { StockTakeForm } from '@/components/StockTakeForm';
+
+interface StockTake {
+  id: string;
+  reference: string;
+  storageLocations: string[];
+  materialTypes: { id: string; name: string }[];
+  status: string;
+  createdAt: string;
+  postedAt: string | null;
+  startedBy: { username: string };
+  postedBy: { username: string } | null;
+  lineCount: number;
+  countedCount: number;
+  adjustedCount: number;
+}
+
+interface Permission {
+  name: string;
+}
+
+const statusClasses: Record<string, string> = {
+  'In Progress': 'bg-blue-100 text-blue-800',
+  Posted: 'bg-green-100 text-green-800',
+  Cancelled: 'bg-gray-100 text-gray-800',
+};
+
+export default function StockTakesPage() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [userPermissions, setUserPermissions] = useState<Permission[]>([]);
+  const [showAddDialog, setShowAddDialog] = useState(false);
+
+  const fetchStockTakes = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch('/api/stock-takes');
+      if (!response.ok) {
+        throw new Error('Failed to fetch stock takes');
+      }
+      setStockTakes(await response.json());
+    } catch (error) {
+      console.error('Error fetching stock takes:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch stock takes');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStockTakes();
+  }, [fetchStockTakes]);
+
+  useEffect(() => {
+    if (!session?.user.id) return;
+    fetch(`/api/settings/users/${session.user.id}/permissions`)
+      .then(res => (res.ok ? res.json() : []))
+      .then(setUserPermissions)
+      .catch(() => setUserPermissions([]));
+  }, [session?.user.id]);
+
+  const canEdit = userPermissions.some(p => p.name === 'Edit Materials');
+
+  const scopeOf = (stockTake: StockTake) =>
+    [...stockTake.storageLocations, ...stockTake.materialTypes.map(type => type.name)].join(', ');
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Stock Takes</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Count physical stock, review variances and post corrections
+          </p>
+        </div>
+        {canEdit && (
+          <Button variant="highlight" className="font-semibold" onClick={() => setShowAddDialog(true)}>
+            Start Stock Take
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded shadow">
+        {loading ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">Loading...</div>
+        ) : error ? (
+          <div className="p-8 text-center text-red-500">
+            <p className="font-medium">Error loading stock takes</p>
+            <p className="text-sm mt-2">{error}</p>
+          </div>
+        ) : stockTakes.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            No stock takes have been started.
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Reference</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Scope</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Counted</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Adjusted</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Status</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Started</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Started By</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Posted</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stockTakes.map((stockTake) => (
+                <tr
+                  key={stockTake.id}
+                  className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                  onClick={() => router.push(`/stock-takes/${stockTake.id}`)}
+                >
+                  <td className="px-4 py-2 font-medium">{stockTake.reference}</td>
+                  <td className="px-4 py-2">{scopeOf(stockTake)}</td>
+                  <td className="px-4 py-2">{stockTake.countedCount} / {stockTake.lineCount}</td>
+                  <td className="px-4 py-2">{stockTake.status === 'Posted' ? stockTake.adjustedCount : '-'}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${statusClasses[stockTake.status] ?? ''}`}>
+                      {stockTake.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">{new Date(stockTake.createdAt).toLocaleDateString()}</td>
+                  <td className="px-4 py-2">{stockTake.startedBy.username}</td>
+                  <td className="px-4 py-2">
+                    {stockTake.postedAt
+                      ? `${new Date(stockTake.postedAt).toLocaleDateString()} by ${stockTake.postedBy?.username ?? ''}`
+                      : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <StockTakeForm
+        isOpen={showAddDialog}
+        onClose={() => setShowAddDialog(false)}
+        onSuccess={(stockTakeId) => {
+          setShowAddDialog(false);
+          router.push(`/stock-takes/${stockTakeId}`);
+        }}
+      />
+    </div>
+  );
+}
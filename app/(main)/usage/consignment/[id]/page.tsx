@@ -0,0 +1,290 @@
+'use client';
+
+import { useState, useEffect, useCallback, use } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { SearchableSelect } from '@/components/ui/searchable-select';
+import { toast } from 'sonner';
+import * as XLSX from 'xlsx';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { ConsignmentStatementStatus } from '@/types/consignment';
+
+interface StatementUsage {
+  id: string;
+  patientName: string;
+  patientId: string;
+  procedureName: string;
+  procedureDate: string;
+  quantity: number;
+  physician: { name: string } | null;
+  legacyPhysician: string | null;
+  batch: {
+    lotNumber: string | null;
+    expirationDate: string;
+    material: { name: string; size: string | null; brand: { name: string }; materialType: { name: string } };
+  };
+}
+
+interface StatementDetail {
+  id: string;
+  reference: string;
+  vendor: { id: string; name: string; gstNumber: string | null };
+  periodStart: string;
+  periodEnd: string;
+  status: ConsignmentStatementStatus;
+  invoice: { id: string; documentNumber: string; date: string } | null;
+  billedAt: string | null;
+  createdBy: { username: string };
+  createdAt: string;
+  usageRecords: StatementUsage[];
+  invoiceOptions: { id: string; documentNumber: string; date: string }[];
+}
+
+// Helper to format date as DD/MM/YYYY
+function formatDate(dateString: string | null | undefined) {
+  if (!dateString) return '';
+  const d = new Date(dateString);
+  if (isNaN(d.getTime())) return '';
+  return d.toLocaleDateString('en-GB');
+}
+
+const physicianName = (record: StatementUsage) =>
+  record.physician?.name ?? record.legacyPhysician ?? '';
+
+const materialName = (record: StatementUsage) =>
+  `${record.batch.material.name}${record.batch.material.size ? ` (${record.batch.material.size})` : ''}`;
+
+export default function ConsignmentStatementPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [statement, setStatement] = useState<StatementDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [canEdit, setCanEdit] = useState(false);
+  const [invoiceId, setInvoiceId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchStatement = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/consignment-statements/${id}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to fetch statement');
+      }
+      setStatement(await response.json());
+    } catch (error) {
+      console.error('Error fetching statement:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch statement');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchStatement();
+  }, [fetchStatement]);
+
+  useEffect(() => {
+    if (!session?.user.id) return;
+    fetch(`/api/settings/users/${session.user.id}/permissions`)
+      .then(res => (res.ok ? res.json() : []))
+      .then((permissions: { name: string }[]) => setCanEdit(permissions.some(p => p.name === 'Edit Documents')))
+      .catch(() => setCanEdit(false));
+  }, [session?.user.id]);
+
+  const handleMarkBilled = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/consignment-statements/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ invoiceId }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to link invoice');
+        return;
+      }
+      toast.success('Invoice linked; usage marked as billed');
+      setInvoiceId('');
+      fetchStatement();
+    } catch (error) {
+      console.error('Error linking invoice:', error);
+      toast.error('Failed to link invoice');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!statement || !confirm(`Cancel statement ${statement.reference}? Its usage will be available for a new statement.`)) return;
+    try {
+      const response = await fetch(`/api/consignment-statements/${id}`, { method: 'DELETE' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to cancel statement');
+        return;
+      }
+      toast.success('Statement cancelled');
+      router.push('/usage/consignment');
+    } catch (error) {
+      console.error('Error cancelling statement:', error);
+      toast.error('Failed to cancel statement');
+    }
+  };
+
+  const exportRows = (records: StatementUsage[]) => records.map(record => ({
+    'Procedure Date': formatDate(record.procedureDate),
+    'Patient Name': record.patientName,
+    'Patient ID': record.patientId,
+    'Procedure Name': record.procedureName,
+    'Physician': physicianName(record),
+    'Material': materialName(record),
+    'Brand': record.batch.material.brand.name,
+    'Batch Lot': record.batch.lotNumber || '',
+    'Expiry': formatDate(record.batch.expirationDate),
+    'Quantity': record.quantity,
+  }));
+
+  const handleExportExcel = () => {
+    if (!statement) return;
+    const ws = XLSX.utils.json_to_sheet(exportRows(statement.usageRecords));
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Consumption');
+    XLSX.writeFile(wb, `${statement.reference}.xlsx`);
+  };
+
+  const handleExportPDF = () => {
+    if (!statement) return;
+    const doc = new jsPDF({ orientation: 'landscape' });
+    doc.setFontSize(14);
+    doc.text(`Consignment Consumption Statement ${statement.reference}`, 14, 15);
+    doc.setFontSize(10);
+    doc.text([
+      `Vendor: ${statement.vendor.name}${statement.vendor.gstNumber ? ` (GSTIN: ${statement.vendor.gstNumber})` : ''}`,
+      `Period: ${formatDate(statement.periodStart)} - ${formatDate(statement.periodEnd)}`,
+    ], 14, 22);
+    const rows = exportRows(statement.usageRecords);
+    const units = statement.usageRecords.reduce((sum, record) => sum + record.quantity, 0);
+    autoTable(doc, {
+      startY: 32,
+      head: [Object.keys(rows[0])],
+      body: rows.map(row => Object.values(row)),
+      foot: [['', '', '', '', '', '', '', '', 'Total', units]],
+      styles: { fontSize: 8 },
+      headStyles: { fillColor: [49, 46, 129] },
+      footStyles: { fillColor: [49, 46, 129] },
+    });
+    doc.save(`${statement.reference}.pdf`);
+  };
+
+  if (loading) {
+    return <div className="p-6 text-center text-gray-500 dark:text-gray-400">Loading...</div>;
+  }
+
+  if (error || !statement) {
+    return (
+      <div className="p-6 text-center text-red-500">
+        <p className="font-medium">Error loading statement</p>
+        <p className="text-sm mt-2">{error || 'Statement not found'}</p>
+      </div>
+    );
+  }
+
+  const totalUnits = statement.usageRecords.reduce((sum, record) => sum + record.quantity, 0);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Statement {statement.reference}</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            {statement.vendor.name} &middot; {formatDate(statement.periodStart)} - {formatDate(statement.periodEnd)} &middot;{' '}
+            {statement.usageRecords.length} record(s), {totalUnits} unit(s)
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/usage/consignment">
+            <Button variant="outline">Back</Button>
+          </Link>
+          <Button variant="outline" onClick={handleExportExcel}>Export as Excel</Button>
+          <Button variant="outline" onClick={handleExportPDF}>Export as PDF</Button>
+          {canEdit && statement.status === 'Open' && (
+            <Button variant="outline" className="text-red-600" onClick={handleCancel}>Cancel Statement</Button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+        {statement.status === 'Billed' ? (
+          <p className="text-sm">
+            Billed on invoice{' '}
+            {statement.invoice ? (
+              <Link href={`/documents/${statement.invoice.id}?referrer=documents`} className="font-medium text-blue-600 hover:underline">
+                {statement.invoice.documentNumber}
+              </Link>
+            ) : '(deleted)'}
+            {statement.billedAt && ` on ${formatDate(statement.billedAt)}`}. The usage on this statement is locked.
+          </p>
+        ) : canEdit ? (
+          <div className="flex flex-col md:flex-row md:items-center gap-2">
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              When {statement.vendor.name}&apos;s invoice arrives, upload it under Documents and link it here:
+            </span>
+            <div className="flex-1">
+              <SearchableSelect
+                options={statement.invoiceOptions.map(invoice => ({
+                  value: invoice.id,
+                  label: `${invoice.documentNumber} (${formatDate(invoice.date)})`,
+                }))}
+                value={invoiceId}
+                onValueChange={setInvoiceId}
+                placeholder="Select the vendor's invoice"
+              />
+            </div>
+            <Button variant="highlight" disabled={!invoiceId || saving} onClick={handleMarkBilled}>
+              Mark Billed
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-400">Awaiting the vendor&apos;s invoice.</p>
+        )}
+      </div>
+
+      <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded shadow">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead>
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Date</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Patient</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Procedure</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Physician</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Material</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Lot</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Quantity</th>
+            </tr>
+          </thead>
+          <tbody>
+            {statement.usageRecords.map(record => (
+              <tr key={record.id}>
+                <td className="px-4 py-2 text-sm whitespace-nowrap">{formatDate(record.procedureDate)}</td>
+                <td className="px-4 py-2 text-sm">{record.patientName} ({record.patientId})</td>
+                <td className="px-4 py-2 text-sm">{record.procedureName}</td>
+                <td className="px-4 py-2 text-sm">{physicianName(record) || '-'}</td>
+                <td className="px-4 py-2 text-sm">{materialName(record)} - {record.batch.material.brand.name}</td>
+                <td className="px-4 py-2 text-sm">{record.batch.lotNumber || '-'}</td>
+                <td className="px-4 py-2 text-sm text-right">{record.quantity}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
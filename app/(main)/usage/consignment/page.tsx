@@ -0,0 +1,331 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SearchableSelect } from '@/components/ui/searchable-select';
+import { toast } from 'sonner';
+import { ConsignmentStatementStatus, UnbilledConsignment } from '@/types/consignment';
+
+interface Statement {
+  id: string;
+  reference: string;
+  vendor: { id: string; name: string };
+  periodStart: string;
+  periodEnd: string;
+  status: ConsignmentStatementStatus;
+  invoice: { id: string; documentNumber: string } | null;
+  createdBy: { username: string };
+  createdAt: string;
+  recordCount: number;
+  units: number;
+}
+
+interface UnbilledRecord {
+  id: string;
+  patientName: string;
+  patientId: string;
+  procedureName: string;
+  procedureDate: string;
+  quantity: number;
+  physician: { name: string } | null;
+  legacyPhysician: string | null;
+  batch: {
+    lotNumber: string | null;
+    material: { name: string; size: string | null; brand: { name: string } };
+  };
+}
+
+const statusClasses: Record<ConsignmentStatementStatus, string> = {
+  Open: 'bg-blue-100 text-blue-800',
+  Billed: 'bg-green-100 text-green-800',
+};
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+export default function ConsignmentBillingPage() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [unbilled, setUnbilled] = useState<UnbilledConsignment[]>([]);
+  const [statements, setStatements] = useState<Statement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [canEdit, setCanEdit] = useState(false);
+  const [vendorId, setVendorId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [preview, setPreview] = useState<UnbilledRecord[] | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const [unbilledResponse, statementsResponse] = await Promise.all([
+        fetch('/api/consignment-statements/unbilled'),
+        fetch('/api/consignment-statements'),
+      ]);
+      if (!unbilledResponse.ok || !statementsResponse.ok) {
+        throw new Error('Failed to fetch consignment billing');
+      }
+      setUnbilled(await unbilledResponse.json());
+      setStatements(await statementsResponse.json());
+    } catch (error) {
+      console.error('Error fetching consignment billing:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch consignment billing');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  useEffect(() => {
+    if (!session?.user.id) return;
+    fetch(`/api/settings/users/${session.user.id}/permissions`)
+      .then(res => (res.ok ? res.json() : []))
+      .then((permissions: { name: string }[]) => setCanEdit(permissions.some(p => p.name === 'Edit Documents')))
+      .catch(() => setCanEdit(false));
+  }, [session?.user.id]);
+
+  // Defaults to the previous calendar month, the usual billing cycle
+  const prepare = (row: UnbilledConsignment) => {
+    const now = new Date();
+    setVendorId(row.vendorId);
+    setFrom(toDateInput(new Date(Date.UTC(now.getFullYear(), now.getMonth() - 1, 1))));
+    setTo(toDateInput(new Date(Date.UTC(now.getFullYear(), now.getMonth(), 0))));
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    if (!vendorId || !from || !to) {
+      toast.error('Select a vendor and period');
+      return;
+    }
+    try {
+      const params = new URLSearchParams({ vendorId, from, to });
+      const response = await fetch(`/api/consignment-statements/unbilled?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to fetch unbilled usage');
+        return;
+      }
+      setPreview(data);
+    } catch (error) {
+      console.error('Error fetching unbilled usage:', error);
+      toast.error('Failed to fetch unbilled usage');
+    }
+  };
+
+  const handleGenerate = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/consignment-statements', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ vendorId, from, to }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to generate statement');
+        return;
+      }
+      toast.success(`Statement ${data.reference} generated`);
+      router.push(`/usage/consignment/${data.id}`);
+    } catch (error) {
+      console.error('Error generating statement:', error);
+      toast.error('Failed to generate statement');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6 text-center text-gray-500 dark:text-gray-400">Loading...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="p-6 text-center text-red-500">
+        <p className="font-medium">Error loading consignment billing</p>
+        <p className="text-sm mt-2">{error}</p>
+      </div>
+    );
+  }
+
+  const previewUnits = preview?.reduce((sum, record) => sum + record.quantity, 0) ?? 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Consignment Billing</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Advance stock used in each period, stated to the vendor and marked billed once their invoice is linked
+          </p>
+        </div>
+        <Link href="/usage">
+          <Button variant="outline">Back to Usage</Button>
+        </Link>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+        <h2 className="text-lg font-semibold mb-4">Not Yet Billed</h2>
+        {unbilled.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">All Advance usage is on a statement.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Vendor</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Records</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Units</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Used Between</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {unbilled.map(row => (
+                <tr key={row.vendorId}>
+                  <td className="px-4 py-2 text-sm">{row.vendorName}</td>
+                  <td className="px-4 py-2 text-sm text-right">{row.recordCount}</td>
+                  <td className="px-4 py-2 text-sm text-right">{row.units}</td>
+                  <td className="px-4 py-2 text-sm">
+                    {new Date(row.earliestDate).toLocaleDateString()} - {new Date(row.latestDate).toLocaleDateString()}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">
+                    {canEdit && (
+                      <Button variant="outline" size="sm" onClick={() => prepare(row)}>
+                        Prepare Statement
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {canEdit && (
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6 space-y-4">
+          <h2 className="text-lg font-semibold">New Statement</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Vendor</Label>
+              <SearchableSelect
+                options={unbilled.map(row => ({ value: row.vendorId, label: row.vendorName }))}
+                value={vendorId}
+                onValueChange={value => { setVendorId(value); setPreview(null); }}
+                placeholder="Select a vendor"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="from">From</Label>
+              <Input id="from" type="date" value={from} onChange={(e) => { setFrom(e.target.value); setPreview(null); }} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="to">To</Label>
+              <Input id="to" type="date" value={to} onChange={(e) => { setTo(e.target.value); setPreview(null); }} />
+            </div>
+            <Button variant="outline" onClick={handlePreview}>Preview Usage</Button>
+          </div>
+
+          {preview && (
+            preview.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No unbilled Advance usage from this vendor in the period.</p>
+            ) : (
+              <>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead>
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Date</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Patient</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Procedure</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Physician</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Material</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Lot</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Quantity</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.map(record => (
+                        <tr key={record.id}>
+                          <td className="px-4 py-2 text-sm whitespace-nowrap">{new Date(record.procedureDate).toLocaleDateString()}</td>
+                          <td className="px-4 py-2 text-sm">{record.patientName} ({record.patientId})</td>
+                          <td className="px-4 py-2 text-sm">{record.procedureName}</td>
+                          <td className="px-4 py-2 text-sm">{record.physician?.name ?? record.legacyPhysician ?? '-'}</td>
+                          <td className="px-4 py-2 text-sm">
+                            {record.batch.material.name}{record.batch.material.size ? ` (${record.batch.material.size})` : ''} - {record.batch.material.brand.name}
+                          </td>
+                          <td className="px-4 py-2 text-sm">{record.batch.lotNumber || '-'}</td>
+                          <td className="px-4 py-2 text-sm text-right">{record.quantity}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="flex items-center justify-end gap-4">
+                  <span className="text-sm text-gray-600 dark:text-gray-400">
+                    {preview.length} record(s), {previewUnits} unit(s)
+                  </span>
+                  <Button variant="highlight" disabled={saving} onClick={handleGenerate}>
+                    {saving ? 'Generating...' : 'Generate Statement'}
+                  </Button>
+                </div>
+              </>
+            )
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded shadow">
+        {statements.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">No statements have been generated.</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Reference</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Vendor</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Period</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Units</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Status</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Invoice</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Created By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {statements.map(statement => (
+                <tr
+                  key={statement.id}
+                  className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                  onClick={() => router.push(`/usage/consignment/${statement.id}`)}
+                >
+                  <td className="px-4 py-2 text-sm font-medium">{statement.reference}</td>
+                  <td className="px-4 py-2 text-sm">{statement.vendor.name}</td>
+                  <td className="px-4 py-2 text-sm">
+                    {new Date(statement.periodStart).toLocaleDateString()} - {new Date(statement.periodEnd).toLocaleDateString()}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{statement.units}</td>
+                  <td className="px-4 py-2 text-sm">
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${statusClasses[statement.status]}`}>{statement.status}</span>
+                  </td>
+                  <td className="px-4 py-2 text-sm">{statement.invoice?.documentNumber ?? '-'}</td>
+                  <td className="px-4 py-2 text-sm">{statement.createdBy.username}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
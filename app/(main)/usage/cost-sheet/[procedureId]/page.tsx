@@ -0,0 +1,230 @@
+'use client';
+
+import { useState, useEffect, use } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Procedure } from '@/types/procedure';
+
+interface ProcedureUsage {
+  id: string;
+  quantity: number;
+  physician: { name: string } | null;
+  legacyPhysician: string | null;
+  procedure: Procedure & { physician: { name: string } | null };
+  batch: {
+    id: string;
+    lotNumber: string | null;
+    expirationDate: string;
+    unitCost: number | null;
+    material: { name: string; size: string | null; brand: { name: string } };
+  };
+}
+
+interface CostLine {
+  batchId: string;
+  material: string;
+  brand: string;
+  lotNumber: string;
+  expiry: string;
+  quantity: number;
+  unitCost: number | null;
+}
+
+// Helper to format date as DD/MM/YYYY
+function formatDate(dateString: string | null | undefined) {
+  if (!dateString) return '';
+  const d = new Date(dateString);
+  if (isNaN(d.getTime())) return '';
+  return d.toLocaleDateString('en-GB');
+}
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+// One line per batch: the same lot drawn twice during a case is billed as one line
+function costLines(records: ProcedureUsage[]) {
+  const lines = new Map<string, CostLine>();
+  for (const record of records) {
+    const line = lines.get(record.batch.id);
+    if (line) {
+      line.quantity += record.quantity;
+      continue;
+    }
+    const material = record.batch.material;
+    lines.set(record.batch.id, {
+      batchId: record.batch.id,
+      material: `${material.name}${material.size ? ` (${material.size})` : ''}`,
+      brand: material.brand.name,
+      lotNumber: record.batch.lotNumber || '-',
+      expiry: formatDate(record.batch.expirationDate),
+      quantity: record.quantity,
+      unitCost: record.batch.unitCost,
+    });
+  }
+  return Array.from(lines.values());
+}
+
+const SIGNATURES = ['Prepared by', 'Physician', 'Billing'];
+
+export default function ProcedureCostSheetPage({ params }: { params: Promise<{ procedureId: string }> }) {
+  const { procedureId } = use(params);
+  const router = useRouter();
+  const [records, setRecords] = useState<ProcedureUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch(`/api/usage/procedure?procedureId=${procedureId}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || 'Failed to fetch procedure');
+        }
+        setRecords(await response.json());
+      })
+      .catch((error) => {
+        console.error('Error fetching procedure:', error);
+        setError(error instanceof Error ? error.message : 'Failed to fetch procedure');
+      })
+      .finally(() => setLoading(false));
+  }, [procedureId]);
+
+  if (loading) {
+    return <div className="p-6 text-center text-gray-500 dark:text-gray-400">Loading...</div>;
+  }
+
+  if (error || records.length === 0) {
+    return (
+      <div className="p-6 text-center text-red-500">
+        <p className="font-medium">Error loading cost sheet</p>
+        <p className="text-sm mt-2">{error || 'Procedure not found'}</p>
+      </div>
+    );
+  }
+
+  const procedure = records[0].procedure;
+  // The procedure's physician; records only name one for procedures from before physicians were linked
+  const physician = procedure.physician?.name ?? records[0].physician?.name ?? records[0].legacyPhysician ?? '';
+  const lines = costLines(records);
+  const grandTotal = lines.reduce((sum, line) => sum + (line.unitCost ?? 0) * line.quantity, 0);
+  const uncosted = lines.filter(line => line.unitCost === null).length;
+
+  const handleExportPDF = () => {
+    const doc = new jsPDF();
+    doc.setFontSize(16);
+    doc.text('Procedure Cost Sheet', 14, 18);
+    doc.setFontSize(10);
+    doc.text([
+      `Patient: ${procedure.patientName} (${procedure.patientId})`,
+      `Procedure: ${procedure.procedureName}`,
+      `Date: ${formatDate(procedure.procedureDate)}`,
+      `Physician: ${physician || '-'}`,
+    ], 14, 28);
+
+    autoTable(doc, {
+      startY: 52,
+      head: [['#', 'Material', 'Brand', 'Lot', 'Expiry', 'Qty', 'Unit Cost', 'Total']],
+      body: lines.map((line, index) => [
+        index + 1,
+        line.material,
+        line.brand,
+        line.lotNumber,
+        line.expiry,
+        line.quantity,
+        line.unitCost !== null ? formatAmount(line.unitCost) : '-',
+        line.unitCost !== null ? formatAmount(line.unitCost * line.quantity) : '-',
+      ]),
+      foot: [['', '', '', '', '', '', 'Grand Total', formatAmount(grandTotal)]],
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [49, 46, 129] },
+      footStyles: { fillColor: [49, 46, 129] },
+    });
+
+    let y = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8;
+    if (uncosted > 0) {
+      doc.text(`${uncosted} item(s) have no unit cost recorded and are not included in the total.`, 14, y);
+      y += 6;
+    }
+    y += 20;
+    SIGNATURES.forEach((label, index) => {
+      const x = 14 + index * 64;
+      doc.line(x, y, x + 54, y);
+      doc.text(label, x, y + 5);
+    });
+
+    doc.save(`cost-sheet-${procedure.patientId}-${procedure.procedureDate.slice(0, 10)}.pdf`);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 print:hidden">
+        <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Procedure Cost Sheet</h1>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.back()}>Back</Button>
+          <Button variant="outline" onClick={() => window.print()}>Print</Button>
+          <Button variant="highlight" onClick={handleExportPDF}>Export as PDF</Button>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded shadow p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+          <div><strong>Patient:</strong> {procedure.patientName} ({procedure.patientId})</div>
+          <div><strong>Date:</strong> {formatDate(procedure.procedureDate)}</div>
+          <div><strong>Procedure:</strong> {procedure.procedureName}</div>
+          <div><strong>Physician:</strong> {physician || '-'}</div>
+          {procedure.room && <div><strong>Room:</strong> {procedure.room}</div>}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Material</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Brand</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Lot</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Expiry</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Quantity</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Unit Cost</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map(line => (
+                <tr key={line.batchId}>
+                  <td className="px-4 py-2 text-sm">{line.material}</td>
+                  <td className="px-4 py-2 text-sm">{line.brand}</td>
+                  <td className="px-4 py-2 text-sm">{line.lotNumber}</td>
+                  <td className="px-4 py-2 text-sm">{line.expiry}</td>
+                  <td className="px-4 py-2 text-sm text-right">{line.quantity}</td>
+                  <td className="px-4 py-2 text-sm text-right">{line.unitCost !== null ? `₹${formatAmount(line.unitCost)}` : '-'}</td>
+                  <td className="px-4 py-2 text-sm text-right">
+                    {line.unitCost !== null ? `₹${formatAmount(line.unitCost * line.quantity)}` : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td colSpan={6} className="px-4 py-2 text-sm text-right font-semibold">Grand Total</td>
+                <td className="px-4 py-2 text-sm text-right font-semibold">₹{formatAmount(grandTotal)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+
+        {uncosted > 0 && (
+          <p className="text-sm text-yellow-600">
+            {uncosted} item(s) have no unit cost recorded and are not included in the total.
+          </p>
+        )}
+
+        <div className="grid grid-cols-3 gap-8 pt-12">
+          {SIGNATURES.map(label => (
+            <div key={label} className="border-t border-gray-400 pt-1 text-sm text-gray-600 dark:text-gray-400">{label}</div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
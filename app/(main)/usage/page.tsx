@@ -11,13 +11,14 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { UsageForm } from '@/components/UsageForm';
 import { EditUsageForm } from '@/components/EditUsageForm';
 import { toast } from 'sonner';
-import { Edit, Trash2, X } from 'lucide-react';
+import { Edit, Receipt, Trash2, X } from 'lucide-react';
 import ActionsPopup from '@/components/ActionsPopup';
 import { useRouter } from 'next/navigation';
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Procedure } from '@/types/procedure';
 
 interface Action {
   label: string;
@@ -27,11 +28,15 @@ interface Action {
 
 interface UsageRecord {
   id: string;
+  procedureId: string;
+  procedure: Procedure;
   patientName: string;
   patientId: string;
   procedureName: string;
   procedureDate: string;
-  physician: string;
+  physicianId: string | null;
+  physician: { id: string; name: string } | null;
+  legacyPhysician: string | null;
   batchId: string;
   quantity: number;
   createdAt: string;
@@ -61,6 +66,7 @@ interface UsageRecord {
     lotNumber: string;
     document?: { id: string } | null;
     purchaseType: string | null;
+    unitCost: number | null;
   };
 }
 
@@ -142,6 +148,7 @@ function UsagePageInner() {
     procedureName: string;
     procedureDate: string;
     physician: string;
+    procedure: Procedure;
     records: UsageRecord[];
   }>(null);
 
@@ -151,7 +158,7 @@ function UsagePageInner() {
     try {
       const params = new URLSearchParams();
       if (search.trim()) params.append('search', search.trim());
-      if (physician) params.append('physician', physician);
+      if (physician) params.append('physicianId', physician);
       if (dateRange !== 'all') {
         if (from) params.append('dateFrom', from);
         if (to) params.append('dateTo', to);
@@ -393,14 +400,12 @@ function UsagePageInner() {
     procedureName: string;
     procedureDate: string;
     physician: string;
+    procedure: Procedure;
     records: UsageRecord[];
   }) => {
     try {
       const params = new URLSearchParams({
-        patientName: group.patientName,
-        patientId: group.patientId,
-        procedureName: group.procedureName,
-        procedureDate: new Date(group.procedureDate).toISOString().split('T')[0],
+        procedureId: group.procedure.id,
       });
 
       const res = await fetch(`/api/usage/procedure?${params.toString()}`);
@@ -416,11 +421,15 @@ function UsagePageInner() {
         const firstRecord = fullProcedureRecords[0];
         const groupedUsageRecord: GroupedUsageRecord = {
           id: `group-${firstRecord.id}`,
+          procedureId: firstRecord.procedureId,
+          procedure: firstRecord.procedure,
           patientName: group.patientName,
           patientId: group.patientId,
           procedureName: group.procedureName,
           procedureDate: group.procedureDate,
-          physician: group.physician,
+          physicianId: firstRecord.physicianId,
+          physician: firstRecord.physician,
+          legacyPhysician: firstRecord.legacyPhysician,
           batchId: '',
           quantity: 0,
           createdAt: firstRecord.createdAt,
@@ -456,6 +465,7 @@ function UsagePageInner() {
     procedureName: string;
     procedureDate: string;
     physician: string;
+    procedure: Procedure;
     records: UsageRecord[];
   }) => {
     setGroupToDelete(group);
@@ -487,18 +497,23 @@ function UsagePageInner() {
     }
   };
 
+  // Records not yet matched to a physician still show the name they were entered with
+  function physicianName(record: UsageRecord) {
+    return record.physician?.name ?? record.legacyPhysician ?? '';
+  }
+
   // Helper to group records into procedures
   function groupRecords(records: UsageRecord[]) {
     return records.reduce((groups, record) => {
-      const procedureDate = new Date(record.procedureDate).toISOString().split('T')[0];
-      const key = `${record.patientName}-${record.patientId}-${record.procedureName}-${procedureDate}`;
+      const key = record.procedureId;
       if (!groups[key]) {
         groups[key] = {
           patientName: record.patientName,
           patientId: record.patientId,
           procedureName: record.procedureName,
           procedureDate: record.procedureDate,
-          physician: record.physician,
+          physician: physicianName(record),
+          procedure: record.procedure,
           records: []
         };
       }
@@ -510,6 +525,7 @@ function UsagePageInner() {
       procedureName: string;
       procedureDate: string;
       physician: string;
+      procedure: Procedure;
       records: UsageRecord[];
     }>);
   }
@@ -577,7 +593,7 @@ function UsagePageInner() {
       'Patient ID': rec.patientId,
       'Procedure Name': rec.procedureName,
       'Procedure Date': formatDate(rec.procedureDate),
-      'Physician': rec.physician,
+      'Physician': physicianName(rec),
       'Material': rec.batch.material.name,
       'Material Type': rec.batch.material.materialType.name,
       'Brand': rec.batch.material.brand.name,
@@ -585,6 +601,8 @@ function UsagePageInner() {
       'Purchase Type': rec.batch.purchaseType,
       'Vendor': rec.batch.vendor?.name,
       'Quantity': rec.quantity,
+      'Unit Cost': rec.batch.unitCost ?? '',
+      'Cost': rec.batch.unitCost != null ? rec.quantity * rec.batch.unitCost : '',
       'Recorded By': rec.user.username,
     }));
     const ws = XLSX.utils.json_to_sheet(exportData);
@@ -605,7 +623,7 @@ function UsagePageInner() {
       rec.patientId,
       rec.procedureName,
       formatDate(rec.procedureDate),
-      rec.physician,
+      physicianName(rec),
       rec.batch.material.name,
       rec.batch.material.materialType.name,
       rec.batch.material.brand.name,
@@ -613,10 +631,11 @@ function UsagePageInner() {
       rec.batch.purchaseType,
       rec.batch.vendor?.name,
       rec.quantity,
+      rec.batch.unitCost != null ? (rec.quantity * rec.batch.unitCost).toFixed(2) : '',
       rec.user.username,
     ]));
     autoTable(doc, {
-      head: [['Patient Name', 'Patient ID', 'Procedure Name', 'Procedure Date', 'Physician', 'Material', 'Material Type', 'Brand', 'Batch Lot', 'Purchase Type', 'Vendor', 'Quantity', 'Recorded By']],
+      head: [['Patient Name', 'Patient ID', 'Procedure Name', 'Procedure Date', 'Physician', 'Material', 'Material Type', 'Brand', 'Batch Lot', 'Purchase Type', 'Vendor', 'Quantity', 'Cost', 'Recorded By']],
       body: exportData,
       styles: { fontSize: 8 },
       headStyles: { fillColor: [49, 46, 129] },
@@ -651,6 +670,9 @@ function UsagePageInner() {
           <Button variant="outline" onClick={handleExportPDF}>
             Export as PDF
           </Button>
+          <Button variant="outline" onClick={() => router.push('/usage/consignment')}>
+            Consignment Billing
+          </Button>
         </div>
       </div>
 
@@ -688,7 +710,7 @@ function UsagePageInner() {
               </SelectTrigger>
               <SelectContent>
                 {physicians.map((p) => (
-                  <SelectItem key={p.id} value={p.name}>
+                  <SelectItem key={p.id} value={p.id}>
                     {p.name}
                   </SelectItem>
                 ))}
@@ -922,6 +944,15 @@ function UsagePageInner() {
                     <div className="text-sm text-gray-500">
                       {new Date(group.procedureDate).toLocaleDateString()}
                     </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => router.push(`/usage/cost-sheet/${group.procedure.id}`)}
+                      className="h-8 w-8 p-0"
+                      title="Cost Sheet"
+                    >
+                      <Receipt className="h-4 w-4" />
+                    </Button>
                     {hasPermission('Record Usage') && (
                       <div className="flex gap-2">
                         <Button
@@ -947,6 +978,17 @@ function UsagePageInner() {
                 <div className="text-sm text-gray-600">
                   <div><strong>Procedure:</strong> {group.procedureName}</div>
                   <div><strong>Physician:</strong> {group.physician}</div>
+                  {group.procedure.room && <div><strong>Room:</strong> {group.procedure.room}</div>}
+                  {(group.procedure.startTime || group.procedure.endTime) && (
+                    <div>
+                      <strong>Time:</strong>{' '}
+                      {group.procedure.startTime ? new Date(group.procedure.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '?'}
+                      {' - '}
+                      {group.procedure.endTime ? new Date(group.procedure.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '?'}
+                    </div>
+                  )}
+                  {group.procedure.status !== 'Completed' && <div><strong>Status:</strong> {group.procedure.status}</div>}
+                  {group.procedure.notes && <div><strong>Notes:</strong> {group.procedure.notes}</div>}
                 </div>
               </CardHeader>
               <CardContent>
@@ -1025,6 +1067,7 @@ function UsagePageInner() {
         isOpen={showAddDialog}
         onClose={() => setShowAddDialog(false)}
         onSuccess={handleUsageSuccess}
+        canOverrideExpiry={hasPermission('Override Expiry')}
       />
 
       <EditUsageForm
@@ -1034,6 +1077,7 @@ function UsagePageInner() {
           setSelectedUsageRecord(null);
         }}
         onSuccess={handleEditSuccess}
+        canOverrideExpiry={hasPermission('Override Expiry')}
         usageRecord={selectedUsageRecord}
       />
 
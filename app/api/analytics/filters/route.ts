@@ -29,18 +29,18 @@ export async function GET(_request: NextRequest) {
       orderBy: { name: 'asc' }
     });
 
-    // Get physicians from usage records
-    const physicians = await prisma.usageRecord.findMany({
-      select: { physician: true },
-      distinct: ['physician'],
-      orderBy: { physician: 'asc' }
+    // Get physicians that have usage records
+    const physicians = await prisma.physician.findMany({
+      where: { usageRecords: { some: {} } },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' }
     });
 
     return NextResponse.json({
       materialTypes,
       materials,
       vendors,
-      physicians: physicians.map(p => p.physician)
+      physicians
     });
 
   } catch (error) {
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getConsumptionForecast } from '@/lib/forecasting';
+
+// GET /api/analytics/forecast - forecast usage, days of cover and stock-out dates per material
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const forecast = await getConsumptionForecast(prisma);
+    return NextResponse.json(forecast);
+  } catch (error) {
+    console.error('Error fetching consumption forecast:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
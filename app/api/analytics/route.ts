@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { Prisma } from '@prisma/client';
+import { DEFAULT_MIN_LEVEL } from '@/types/material';
 
 function convertBigInt(obj: unknown): unknown {
   if (Array.isArray(obj)) {
@@ -98,7 +99,13 @@ export async function GET(req: NextRequest) {
         SUM(b."initialQuantity") as total_purchased,
         COUNT(DISTINCT m.id) as materials_supplied,
         SUM(CASE WHEN b."purchaseType" = 'Advance' THEN b.quantity ELSE 0 END) as advance_stock,
-        SUM(CASE WHEN b."purchaseType" = 'Purchased' THEN b.quantity ELSE 0 END) as purchased_stock
+        SUM(CASE WHEN b."purchaseType" = 'Purchased' THEN b.quantity ELSE 0 END) as purchased_stock,
+        COALESCE((
+          SELECT -SUM(sa.quantity)
+          FROM "StockAdjustment" sa
+          JOIN "Batch" rb ON sa."batchId" = rb.id
+          WHERE rb."vendorId" = v.id AND sa.type = 'Return to Vendor'
+        ), 0) as returned_quantity
       FROM "Vendor" v
       LEFT JOIN "Batch" b ON v.id = b."vendorId"
       LEFT JOIN "Material" m ON b."materialId" = m.id
@@ -152,7 +159,7 @@ export async function GET(req: NextRequest) {
         COUNT(DISTINCT m.id) as total_materials,
         COUNT(DISTINCT CASE WHEN COALESCE(b.quantity, 0) > 0 THEN m.id END) as in_stock_materials,
         COUNT(DISTINCT CASE WHEN COALESCE(b.quantity, 0) = 0 THEN m.id END) as out_of_stock_materials,
-        COUNT(DISTINCT CASE WHEN COALESCE(b.quantity, 0) < 5 AND COALESCE(b.quantity, 0) > 0 THEN m.id END) as low_stock_materials,
+        COUNT(DISTINCT CASE WHEN COALESCE(b.quantity, 0) < COALESCE(m."minLevel", ${DEFAULT_MIN_LEVEL}) AND COALESCE(b.quantity, 0) > 0 THEN m.id END) as low_stock_materials,
         SUM(b.quantity) as total_stock
       FROM "MaterialType" mt
       JOIN "Material" m ON mt.id = m."materialTypeId"
@@ -196,7 +203,7 @@ export async function GET(req: NextRequest) {
     // 8. Usage by Physician (fetch all physicians, count unique procedures for each)
     // Get all physicians
     const allPhysicians = await prisma.physician.findMany({
-      select: { name: true },
+      select: { id: true, name: true },
       orderBy: { name: 'asc' }
     });
     // Get all usage records in the period
@@ -208,10 +215,8 @@ export async function GET(req: NextRequest) {
         }
       },
       select: {
-        physician: true,
-        patientId: true,
-        procedureName: true,
-        procedureDate: true,
+        physicianId: true,
+        procedureId: true,
         quantity: true
       }
     });
@@ -219,19 +224,18 @@ export async function GET(req: NextRequest) {
     const physicianMap = new Map();
     const quantityMap = new Map();
     for (const rec of usageRecords) {
-      const key = `${rec.patientId}|${rec.procedureName}|${rec.procedureDate.toISOString().slice(0, 10)}`;
-      if (!physicianMap.has(rec.physician)) {
-        physicianMap.set(rec.physician, new Set());
-        quantityMap.set(rec.physician, 0);
+      if (!physicianMap.has(rec.physicianId)) {
+        physicianMap.set(rec.physicianId, new Set());
+        quantityMap.set(rec.physicianId, 0);
       }
-      physicianMap.get(rec.physician).add(key);
-      quantityMap.set(rec.physician, quantityMap.get(rec.physician) + (rec.quantity || 0));
+      physicianMap.get(rec.physicianId).add(rec.procedureId);
+      quantityMap.set(rec.physicianId, quantityMap.get(rec.physicianId) + (rec.quantity || 0));
     }
     // Build the final array for all physicians
     const usageByPhysician = allPhysicians.map(p => ({
       physician: p.name,
-      procedure_count: physicianMap.get(p.name) ? physicianMap.get(p.name).size : 0,
-      total_quantity: quantityMap.get(p.name) || 0
+      procedure_count: physicianMap.get(p.id) ? physicianMap.get(p.id).size : 0,
+      total_quantity: quantityMap.get(p.id) || 0
     })).sort((a, b) => b.total_quantity - a.total_quantity);
 
     // 9. Procedures Per Month
@@ -239,7 +243,7 @@ export async function GET(req: NextRequest) {
     const proceduresPerMonth = await prisma.$queryRawUnsafe(`
       SELECT
         TO_CHAR(DATE_TRUNC('month', ur."procedureDate"), 'YYYY-MM') as month,
-        COUNT(DISTINCT CAST(ur."patientId" AS TEXT) || '|' || ur."procedureName" || '|' || TO_CHAR(ur."procedureDate", 'YYYY-MM-DD')) as procedure_count
+        COUNT(DISTINCT ur."procedureId") as procedure_count
       FROM "UsageRecord" ur
       WHERE ${dateFromCondition}
         AND ${dateToCondition}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getConsumptionCost, getInventoryValuation, parseCostPeriod } from '@/lib/valuation';
+
+// GET /api/analytics/valuation?dateFrom=&dateTo= - on-hand stock value and the cost of usage in the period
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const period = parseCostPeriod(searchParams.get('dateFrom'), searchParams.get('dateTo'));
+  if (!period) {
+    return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+  }
+
+  try {
+    const [inventory, consumption] = await Promise.all([
+      getInventoryValuation(prisma),
+      getConsumptionCost(prisma, period),
+    ]);
+
+    return NextResponse.json({ inventory, consumption });
+  } catch (error) {
+    console.error('Error fetching valuation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { hasPermissionByName } from '@/lib/permissions';
+import {
+  cancelConsignmentStatement,
+  ConsignmentError,
+  consignmentStatementInclude,
+  markStatementBilled,
+} from '@/lib/consignment';
+
+// GET /api/consignment-statements/[id] - the statement with its usage records
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const statement = await prisma.consignmentStatement.findUnique({
+      where: { id },
+      include: consignmentStatementInclude,
+    });
+
+    if (!statement) {
+      return NextResponse.json({ error: 'Consignment statement not found' }, { status: 404 });
+    }
+
+    // Invoices from the vendor that no statement has been billed on yet
+    const invoiceOptions = statement.status === 'Open'
+      ? await prisma.document.findMany({
+          where: { type: 'Invoice', vendor: statement.vendor.name, consignmentStatements: { none: {} } },
+          select: { id: true, documentNumber: true, date: true },
+          orderBy: { date: 'desc' },
+        })
+      : [];
+
+    return NextResponse.json({ ...statement, invoiceOptions });
+  } catch (error) {
+    console.error('Error fetching consignment statement:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/consignment-statements/[id] - link the vendor's invoice and mark the usage billed
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Documents') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    if (!body.invoiceId) {
+      return NextResponse.json({ error: 'Select the vendor\'s invoice' }, { status: 400 });
+    }
+
+    const statement = await prisma.$transaction((tx) =>
+      markStatementBilled(tx, id, String(body.invoiceId), session.user.id)
+    );
+
+    return NextResponse.json(statement);
+  } catch (error) {
+    if (error instanceof ConsignmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error billing consignment statement:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/consignment-statements/[id] - cancel an open statement
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Documents') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    await prisma.$transaction((tx) => cancelConsignmentStatement(tx, id, session.user.id));
+
+    return NextResponse.json({ message: 'Consignment statement cancelled' });
+  } catch (error) {
+    if (error instanceof ConsignmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error cancelling consignment statement:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
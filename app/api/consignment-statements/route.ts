@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { hasPermissionByName } from '@/lib/permissions';
+import { ConsignmentError, createConsignmentStatement } from '@/lib/consignment';
+import { NumberConflictError, retryOnNumberConflict } from '@/lib/numbering';
+
+// GET /api/consignment-statements - statements, newest first
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const statements = await prisma.consignmentStatement.findMany({
+      include: {
+        vendor: { select: { id: true, name: true } },
+        invoice: { select: { id: true, documentNumber: true } },
+        createdBy: { select: { username: true } },
+        usageRecords: { select: { quantity: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json(
+      statements.map(({ usageRecords, ...statement }) => ({
+        ...statement,
+        recordCount: usageRecords.length,
+        units: usageRecords.reduce((sum, record) => sum + record.quantity, 0),
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching consignment statements:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/consignment-statements - claim a vendor's unbilled Advance usage for a period
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Documents') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (!body.vendorId) {
+      return NextResponse.json({ error: 'Select a vendor' }, { status: 400 });
+    }
+
+    const statement = await retryOnNumberConflict('reference', () => prisma.$transaction((tx) =>
+      createConsignmentStatement(tx, {
+        vendorId: String(body.vendorId),
+        from: body.from,
+        to: body.to,
+        userId: session.user.id,
+      })
+    ));
+
+    return NextResponse.json(statement);
+  } catch (error) {
+    if (error instanceof ConsignmentError || error instanceof NumberConflictError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating consignment statement:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
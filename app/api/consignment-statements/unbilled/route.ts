@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ConsignmentError, getUnbilledConsignment, parsePeriod, unbilledUsageWhere } from '@/lib/consignment';
+
+// GET /api/consignment-statements/unbilled - unbilled Advance usage per vendor, or with
+// vendorId, from and to, that vendor's usage records in the period
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const vendorId = searchParams.get('vendorId');
+    if (!vendorId) {
+      return NextResponse.json(await getUnbilledConsignment(prisma));
+    }
+
+    const { start, endExclusive } = parsePeriod(searchParams.get('from'), searchParams.get('to'));
+    const usageRecords = await prisma.usageRecord.findMany({
+      where: unbilledUsageWhere(vendorId, start, endExclusive),
+      include: {
+        physician: { select: { name: true } },
+        batch: { include: { material: { include: { brand: true } } } },
+      },
+      orderBy: [{ procedureDate: 'asc' }, { patientName: 'asc' }],
+    });
+
+    return NextResponse.json(usageRecords);
+  } catch (error) {
+    if (error instanceof ConsignmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching unbilled consignment usage:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
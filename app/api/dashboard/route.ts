@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { findLowStock } from '@/lib/stock-levels';
+import { getConsumptionForecast } from '@/lib/forecasting';
 
 function convertBigInt(obj: unknown): unknown {
   if (Array.isArray(obj)) {
@@ -37,24 +39,14 @@ export async function GET(_req: NextRequest) {
       },
     });
 
-    // 2. Low Stock Alerts (materials with total quantity < 5)
-    const lowStockAlerts = await prisma.$queryRaw`
-      SELECT 
-        m.id,
-        m.name as material_name,
-        m.size,
-        mt.name as material_type,
-        br.name as brand_name,
-        SUM(b.quantity) as total_quantity
-      FROM "Material" m
-      JOIN "MaterialType" mt ON m."materialTypeId" = mt.id
-      JOIN "Brand" br ON m."brandId" = br.id
-      LEFT JOIN "Batch" b ON m.id = b."materialId"
-      GROUP BY m.id, m.name, m.size, mt.name, br.name
-      HAVING SUM(b.quantity) < 5 AND SUM(b.quantity) > 0
-      ORDER BY total_quantity ASC
-      LIMIT 10
-    `;
+    // 2. Low Stock Alerts (usable quantity below each material's minimum level, overall or per location;
+    // held batches are reported separately)
+    const lowStock = await findLowStock(prisma);
+    const lowStockAlerts = lowStock.slice(0, 10);
+
+    // Materials forecast to run out before their next delivery could arrive
+    const forecast = await getConsumptionForecast(prisma);
+    const stockOutAlerts = forecast.filter(row => row.runsOutBeforeDelivery).slice(0, 10);
 
     // 3. Expiring Soon Alerts (batches expiring within 30 days)
     const expiringSoonAlertsRaw = await prisma.$queryRaw`
@@ -74,6 +66,7 @@ export async function GET(_req: NextRequest) {
       JOIN "Brand" br ON m."brandId" = br.id
       JOIN "Vendor" v ON b."vendorId" = v.id
       WHERE b.quantity > 0 
+        AND b.status = 'Available'
         AND b."expirationDate" <= NOW() + INTERVAL '30 days'
         AND b."expirationDate" > NOW()
       ORDER BY b."expirationDate" ASC
@@ -93,10 +86,9 @@ export async function GET(_req: NextRequest) {
         (SELECT COUNT(*) FROM "Material") as total_materials,
         (SELECT COUNT(*) FROM "Batch" WHERE quantity > 0) as active_batches,
         (SELECT COUNT(*) FROM "Vendor") as total_vendors,
-        (SELECT COUNT(DISTINCT CAST("patientId" AS TEXT) || '|' || "procedureName" || '|' || TO_CHAR("procedureDate", 'YYYY-MM-DD')) FROM "UsageRecord" WHERE "procedureDate" >= NOW() - INTERVAL '30 days') as usage_last_30_days,
+        (SELECT COUNT(*) FROM "Procedure" WHERE "procedureDate" >= NOW() - INTERVAL '30 days') as usage_last_30_days,
         (SELECT COUNT(*) FROM "Document") as total_documents,
-        (SELECT COUNT(*) FROM "Batch" WHERE quantity < 5 AND quantity > 0) as low_stock_materials,
-        (SELECT COUNT(*) FROM "Batch" WHERE "expirationDate" <= NOW() + INTERVAL '30 days' AND "expirationDate" > NOW() AND quantity > 0) as expiring_soon_count
+        (SELECT COUNT(*) FROM "Batch" WHERE "expirationDate" <= NOW() + INTERVAL '30 days' AND "expirationDate" > NOW() AND quantity > 0 AND status = 'Available') as expiring_soon_count
     `;
 
     // 5. Inventory by Category (for chart)
@@ -116,7 +108,7 @@ export async function GET(_req: NextRequest) {
     const monthlyUsageTrends = await prisma.$queryRaw`
       SELECT 
         TO_CHAR(DATE_TRUNC('month', ur."procedureDate"), 'YYYY-MM') as month,
-        COUNT(DISTINCT CAST(ur."patientId" AS TEXT) || '|' || ur."procedureName" || '|' || TO_CHAR(ur."procedureDate", 'YYYY-MM-DD')) as procedure_count,
+        COUNT(DISTINCT ur."procedureId") as procedure_count,
         SUM(ur.quantity) as total_quantity
       FROM "UsageRecord" ur
       WHERE ur."procedureDate" >= NOW() - INTERVAL '6 months'
@@ -149,15 +141,10 @@ export async function GET(_req: NextRequest) {
       recentActivity: convertBigInt(recentActivity),
       lowStockAlerts: convertBigInt(lowStockAlerts),
       expiringSoonAlerts: convertBigInt(expiringSoonAlerts),
-      summaryStats: convertBigInt((summaryStats as Array<{
-        total_materials: number
-        active_batches: number
-        total_vendors: number
-        usage_last_30_days: number
-        total_documents: number
-        low_stock_materials: number
-        expiring_soon_count: number
-      }>)[0]) as {
+      summaryStats: {
+        ...(convertBigInt((summaryStats as Array<unknown>)[0]) as object),
+        low_stock_materials: new Set(lowStock.map(row => row.material_id)).size,
+      } as {
         total_materials: number
         active_batches: number
         total_vendors: number
@@ -169,6 +156,7 @@ export async function GET(_req: NextRequest) {
       inventoryByCategory: convertBigInt(inventoryByCategory),
       monthlyUsageTrends: convertBigInt(monthlyUsageTrends),
       advanceMaterialsUsed: convertBigInt(advanceMaterialsUsed),
+      stockOutAlerts,
     });
 
   } catch (error) {
@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { hasPermissionByName } from '@/lib/permissions';
+import { GoodsReceiptError, orderLineStatus, receiveGoods } from '@/lib/goods-receipts';
+import { StorageLocationError } from '@/lib/storage-locations';
+import { ReceiptLine } from '@/types/purchase-order';
+
+// GET /api/documents/[id]/receipt - the document with what has been ordered and received so far
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const document = await prisma.document.findUnique({
+      where: { id },
+      include: {
+        orderLines: {
+          include: {
+            material: {
+              select: {
+                id: true,
+                name: true,
+                size: true,
+                brand: { select: { name: true } },
+                unitOfMeasure: true,
+                purchaseUnit: true,
+                packSize: true,
+              },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const vendor = document.vendor
+      ? await prisma.vendor.findUnique({ where: { name: document.vendor }, select: { id: true } })
+      : null;
+
+    return NextResponse.json({
+      ...document,
+      vendorId: vendor?.id ?? null,
+      orderLines: document.orderLines.map(line => ({ ...line, status: orderLineStatus(line) })),
+    });
+  } catch (error) {
+    console.error('Error fetching goods receipt:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/documents/[id]/receipt - create the received batches in one transaction
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Materials') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const lines: ReceiptLine[] = Array.isArray(body.lines)
+      ? body.lines.map((line: Record<string, unknown>) => ({
+          materialId: String(line.materialId),
+          quantity: Number(line.quantity),
+          lotNumber: typeof line.lotNumber === 'string' ? line.lotNumber : '',
+          expirationDate: typeof line.expirationDate === 'string' ? line.expirationDate : '',
+          storageLocationId: typeof line.storageLocationId === 'string' ? line.storageLocationId : '',
+          purchaseType: typeof line.purchaseType === 'string' ? line.purchaseType : '',
+          unitCost: line.unitCost === undefined || line.unitCost === null || line.unitCost === '' ? null : Number(line.unitCost),
+          inPurchaseUnits: line.inPurchaseUnits === true,
+        }))
+      : [];
+
+    const result = await prisma.$transaction(
+      (tx) => receiveGoods(tx, {
+        documentId: id,
+        vendorId: body.vendorId || null,
+        lines,
+        userId: session.user.id,
+      }),
+      { timeout: 30000 }
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof GoodsReceiptError || error instanceof StorageLocationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error receiving goods:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { hasPermissionByName } from '@/lib/permissions';
+import { applyStockAdjustment, isManualStockAdjustmentType, StockAdjustmentError } from '@/lib/batches';
+import { MANUAL_STOCK_ADJUSTMENT_TYPES } from '@/types/batch';
+
+// POST /api/inventory/[id]/batches/[batchId]/adjustments - write off or correct stock
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; batchId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Materials') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id: materialId, batchId } = await params;
+    const body = await request.json();
+    const { type, quantity } = body;
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    if (!isManualStockAdjustmentType(type)) {
+      return NextResponse.json(
+        { error: `Type must be one of: ${MANUAL_STOCK_ADJUSTMENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!reason) {
+      return NextResponse.json({ error: 'A reason is required for stock adjustments' }, { status: 400 });
+    }
+
+    const batch = await prisma.batch.findFirst({
+      where: { id: batchId, materialId },
+      select: { id: true },
+    });
+
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    const adjustment = await prisma.$transaction((tx) =>
+      applyStockAdjustment(tx, { batchId, type, quantity: Number(quantity), reason, userId: session.user.id })
+    );
+
+    return NextResponse.json(adjustment);
+  } catch (error) {
+    if (error instanceof StockAdjustmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error adjusting stock:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getBatchHistory } from '@/lib/batch-history';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/inventory/[id]/batches/[batchId]/history - every change to the batch quantity with the balance after it
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; batchId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: materialId, batchId } = await params;
+
+    const batch = await prisma.batch.findFirst({
+      where: { id: batchId, materialId },
+      select: { id: true },
+    });
+
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    const history = await getBatchHistory(prisma, batchId);
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error('Error fetching batch history:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
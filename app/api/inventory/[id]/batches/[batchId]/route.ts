@@ -4,6 +4,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { logUpdate, logDelete } from '@/lib/data-logger';
 import { hasPermissionByName } from '@/lib/permissions';
+import { applyStockAdjustment, isManualStockAdjustmentType, StockAdjustmentError } from '@/lib/batches';
+import { resolveBatchLocation, StorageLocationError } from '@/lib/storage-locations';
 
 export async function PUT(
   request: Request,
@@ -33,10 +35,12 @@ export async function PUT(
       expirationDate,
       vendorId,
       documentIds,
-      storageLocation,
+      storageLocationId,
       purchaseType,
       lotNumber,
-      cost
+      unitCost,
+      adjustmentType = 'Count Correction',
+      adjustmentReason
     } = body;
 
     const material = await prisma.material.findUnique({
@@ -59,74 +63,103 @@ export async function PUT(
         }
     });
 
-    // Delete existing document relationships
-    await prisma.batchDocument.deleteMany({
-      where: { batchId }
+    if (!currentBatch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    // Quantity is never rewritten directly; a change is recorded as a stock adjustment
+    const quantityDelta = quantity === undefined ? 0 : Number(quantity) - currentBatch.quantity;
+    if (quantityDelta !== 0) {
+      if (!isManualStockAdjustmentType(adjustmentType)) {
+        return NextResponse.json({ error: 'Invalid adjustment type' }, { status: 400 });
+      }
+      if (!adjustmentReason?.trim()) {
+        return NextResponse.json({ error: 'A reason is required when changing the quantity' }, { status: 400 });
+      }
+    }
+
+    const location = await resolveBatchLocation(prisma, storageLocationId);
+
+    const batch = await prisma.$transaction(async (tx) => {
+      if (quantityDelta !== 0) {
+        await applyStockAdjustment(tx, {
+          batchId,
+          type: adjustmentType,
+          quantity: quantityDelta,
+          reason: adjustmentReason,
+          userId: session.user.id,
+        });
+      }
+
+      // Delete existing document relationships
+      await tx.batchDocument.deleteMany({
+        where: { batchId }
+      });
+
+      return tx.batch.update({
+        where: { id: batchId },
+        data: {
+          initialQuantity,
+          expirationDate: new Date(expirationDate),
+          vendorId,
+          ...location,
+          purchaseType,
+          lotNumber,
+          unitCost,
+          documents: {
+            create: documentIds?.map((documentId: string) => ({
+              document: {
+                connect: { id: documentId }
+              }
+            })) || []
+          }
+        },
+        include: {
+          vendor: true,
+          documents: {
+            include: {
+              document: { select: { id: true, documentNumber: true } }
+            }
+          },
+          addedBy: { select: { username: true, email: true } },
+          statusSetBy: { select: { username: true } },
+        },
+      });
     });
 
-    const batch = await prisma.batch.update({
-      where: { id: batchId },
-      data: {
-        quantity,
+    await logUpdate(
+      'Batch',
+      batchId,
+      {
+        initialQuantity: currentBatch.initialQuantity,
+        expirationDate: currentBatch.expirationDate,
+        vendorId: currentBatch.vendorId,
+        documentIds: currentBatch.documents.map(d => d.document.id),
+        storageLocationId: currentBatch.storageLocationId,
+        storageLocation: currentBatch.storageLocation,
+        purchaseType: currentBatch.purchaseType,
+        lotNumber: currentBatch.lotNumber,
+        unitCost: currentBatch.unitCost,
+      },
+      {
         initialQuantity,
-        expirationDate: new Date(expirationDate),
+        expirationDate,
         vendorId,
-        storageLocation,
+        documentIds: documentIds || [],
+        ...location,
         purchaseType,
         lotNumber,
-        cost,
-        documents: {
-          create: documentIds?.map((documentId: string) => ({
-            document: {
-              connect: { id: documentId }
-            }
-          })) || []
-        }
-      },
-      include: {
-        vendor: true,
-        documents: {
-          include: {
-            document: { select: { id: true, documentNumber: true } }
-          }
-        },
-        addedBy: { select: { username: true, email: true } },
+        unitCost,
       },
-    });
-
-    if (currentBatch) {
-        await logUpdate(
-            'Batch',
-            batchId,
-            {
-                quantity: currentBatch.quantity,
-                initialQuantity: currentBatch.initialQuantity,
-                expirationDate: currentBatch.expirationDate,
-                vendorId: currentBatch.vendorId,
-                documentIds: currentBatch.documents.map(d => d.document.id),
-                storageLocation: currentBatch.storageLocation,
-                purchaseType: currentBatch.purchaseType,
-                lotNumber: currentBatch.lotNumber,
-                cost: currentBatch.cost,
-            },
-            {
-                quantity,
-                initialQuantity,
-                expirationDate,
-                vendorId,
-                documentIds: documentIds || [],
-                storageLocation,
-                purchaseType,
-                lotNumber,
-                cost,
-            },
-            session.user.id,
-            `Updated batch for material: ${material.name} (Quantity: ${quantity})`
-        );
-    }
+      session.user.id,
+      `Updated batch for material: ${material.name} (Quantity: ${batch.quantity})`
+    );
 
     return NextResponse.json(batch);
   } catch (error) {
+    if (error instanceof StockAdjustmentError || error instanceof StorageLocationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error updating batch:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
@@ -194,7 +227,7 @@ export async function DELETE(
             storageLocation: batchToDelete.storageLocation,
             purchaseType: batchToDelete.purchaseType,
             lotNumber: batchToDelete.lotNumber,
-            cost: batchToDelete.cost,
+            unitCost: batchToDelete.unitCost,
         },
         session.user.id,
         `Deleted batch for material: ${material.name}`
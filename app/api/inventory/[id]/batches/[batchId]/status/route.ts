@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { hasPermissionByName } from '@/lib/permissions';
+import { findOpenRecall, isValidBatchStatus, setBatchStatus } from '@/lib/batches';
+import { BATCH_STATUSES } from '@/types/batch';
+
+// PUT /api/inventory/[id]/batches/[batchId]/status - place a batch on hold or release it
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; batchId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Materials') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id: materialId, batchId } = await params;
+    const body = await request.json();
+    const { status } = body;
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    if (!isValidBatchStatus(status)) {
+      return NextResponse.json(
+        { error: `Status must be one of: ${BATCH_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (status !== 'Available' && !reason) {
+      return NextResponse.json({ error: 'A reason is required when placing a batch on hold' }, { status: 400 });
+    }
+
+    const batch = await prisma.batch.findFirst({
+      where: { id: batchId, materialId },
+    });
+
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    if (status === 'Available') {
+      const recall = await findOpenRecall(prisma, batchId);
+      if (recall) {
+        return NextResponse.json(
+          { error: `Batch is under open recall ${recall.reference}; close the recall to release it` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updated = await prisma.$transaction((tx) =>
+      setBatchStatus(tx, batchId, status, reason || null, session.user.id)
+    );
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating batch status:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { hasPermissionByName } from '@/lib/permissions';
+import { StockAdjustmentError } from '@/lib/batches';
+import { StorageLocationError } from '@/lib/storage-locations';
+import { transferBatch } from '@/lib/stock-transfers';
+
+// POST /api/inventory/[id]/batches/[batchId]/transfers - move some or all of a batch to another location
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; batchId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Materials') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id: materialId, batchId } = await params;
+    const { toLocationId, quantity, notes } = await request.json();
+
+    if (!toLocationId) {
+      return NextResponse.json({ error: 'Destination location is required' }, { status: 400 });
+    }
+
+    const batch = await prisma.batch.findFirst({
+      where: { id: batchId, materialId },
+      select: { id: true },
+    });
+
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    const transfer = await prisma.$transaction((tx) =>
+      transferBatch(tx, { batchId, toLocationId, quantity: Number(quantity), notes, userId: session.user.id })
+    );
+
+    return NextResponse.json(transfer);
+  } catch (error) {
+    if (error instanceof StockAdjustmentError || error instanceof StorageLocationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error transferring stock:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
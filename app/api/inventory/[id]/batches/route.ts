@@ -4,6 +4,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { logCreate, logUpdate } from '@/lib/data-logger';
 import { hasPermissionByName } from '@/lib/permissions';
+import { resolveBatchLocation, StorageLocationError } from '@/lib/storage-locations';
+import { toBaseUnits, unitConversion } from '@/lib/units';
 
 export async function GET(
   request: Request,
@@ -67,42 +69,50 @@ export async function POST(
     const { id: _id } = await params;
     const body = await request.json();
     const {
-      quantity,
-      initialQuantity,
       expirationDate,
       vendorId,
       documentIds,
-      storageLocation,
+      storageLocationId,
       purchaseType,
       lotNumber,
-      cost
+      inPurchaseUnits
     } = body;
 
     const material = await prisma.material.findUnique({
       where: { id: _id },
-      select: { name: true },
+      select: { name: true, unitOfMeasure: true, purchaseUnit: true, packSize: true },
     });
 
     if (!material) {
       return NextResponse.json({ error: 'Material not found' }, { status: 404 });
     }
 
+    // Stock is kept in base units, whatever it was counted in on arrival
+    const conversion = inPurchaseUnits ? unitConversion(material) : null;
+    const { quantity, unitCost } = conversion
+      ? toBaseUnits(Number(body.quantity), body.unitCost, conversion)
+      : { quantity: body.quantity, unitCost: body.unitCost };
+    const initialQuantity = conversion ? quantity : body.initialQuantity;
+
+    const location = await resolveBatchLocation(prisma, storageLocationId);
+
     const batch = await prisma.batch.create({
       data: {
         quantity,
         initialQuantity,
         expirationDate: new Date(expirationDate),
         vendorId,
-        storageLocation,
+        ...location,
         purchaseType,
         lotNumber,
-        cost,
+        unitCost,
         materialId: _id,
         addedById: session.user.id,
       },
       include: {
         vendor: true,
         addedBy: { select: { username: true, email: true } },
+        statusSetBy: { select: { username: true } },
       },
     });
 
@@ -127,6 +137,7 @@ export async function POST(
           }
         },
         addedBy: { select: { username: true, email: true } },
+        statusSetBy: { select: { username: true } },
       },
     });
 
@@ -140,10 +151,11 @@ export async function POST(
         expirationDate: batch.expirationDate,
         vendorId: batch.vendorId,
         documentIds: documentIds || [],
+        storageLocationId: batch.storageLocationId,
         storageLocation: batch.storageLocation,
         purchaseType: batch.purchaseType,
         lotNumber: batch.lotNumber,
-        cost: batch.cost,
+        unitCost: batch.unitCost,
         materialId: batch.materialId,
       },
       session.user.id,
@@ -152,6 +164,9 @@ export async function POST(
 
     return NextResponse.json(batchWithDocuments);
   } catch (error) {
+    if (error instanceof StorageLocationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error creating batch:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
@@ -189,7 +204,7 @@ export async function PUT(
       storageLocation,
       purchaseType,
       lotNumber,
-      cost
+      unitCost
     } = body;
 
     const material = await prisma.material.findUnique({
@@ -228,7 +243,7 @@ export async function PUT(
         storageLocation,
         purchaseType,
         lotNumber,
-        cost,
+        unitCost,
         documents: {
           create: documentIds?.map((documentId: string) => ({
             document: {
@@ -245,6 +260,7 @@ export async function PUT(
           }
         },
         addedBy: { select: { username: true, email: true } },
+        statusSetBy: { select: { username: true } },
       },
     });
 
@@ -262,7 +278,7 @@ export async function PUT(
           storageLocation: currentBatch.storageLocation,
           purchaseType: currentBatch.purchaseType,
           lotNumber: currentBatch.lotNumber,
-          cost: currentBatch.cost,
+          unitCost: currentBatch.unitCost,
         },
         {
           quantity: batch.quantity,
@@ -273,7 +289,7 @@ export async function PUT(
           storageLocation: batch.storageLocation,
           purchaseType: batch.purchaseType,
           lotNumber: batch.lotNumber,
-          cost: batch.cost,
+          unitCost: batch.unitCost,
         },
         session.user.id,
         `Updated batch for material: ${material.name} (Quantity: ${quantity})`
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logUpdate } from '@/lib/data-logger';
+import { findGtinOwner } from '@/lib/catalog';
+import { normalizeGtin } from '@/lib/gs1';
+import { hasPermissionByName } from '@/lib/permissions';
+
+// POST /api/inventory/[id]/gtins - link a scanned GTIN to the material
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Materials') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id: materialId } = await params;
+    const body = await request.json();
+    const gtin = typeof body.gtin === 'string' ? normalizeGtin(body.gtin) : null;
+    if (!gtin) {
+      return NextResponse.json({ error: 'Invalid GTIN' }, { status: 400 });
+    }
+
+    const material = await prisma.material.findUnique({ where: { id: materialId } });
+    if (!material) {
+      return NextResponse.json({ error: 'Material not found' }, { status: 404 });
+    }
+    if (material.gtins.includes(gtin)) {
+      return NextResponse.json(material);
+    }
+
+    const owner = await findGtinOwner(prisma, [gtin]);
+    if (owner) {
+      return NextResponse.json(
+        { error: `GTIN ${gtin} is already linked to ${owner.name}${owner.size ? ` (${owner.size})` : ''}` },
+        { status: 409 }
+      );
+    }
+
+    const updated = await prisma.material.update({
+      where: { id: materialId },
+      data: { gtins: { push: gtin } },
+    });
+
+    await logUpdate(
+      'Material',
+      materialId,
+      { gtins: material.gtins },
+      { gtins: updated.gtins },
+      session.user.id,
+      `Linked GTIN ${gtin} to material: ${material.name}`
+    );
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error linking GTIN:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logUpdate } from '@/lib/data-logger';
+import { hasPermissionByName } from '@/lib/permissions';
+import { parseStockLevels, StockLevels } from '@/lib/stock-levels';
+
+// PUT /api/inventory/[id]/levels - replace the material's per-location min/par/max levels
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Materials') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id: materialId } = await params;
+    const body = await request.json();
+    const entries: Record<string, unknown>[] = Array.isArray(body.levels) ? body.levels : [];
+
+    const material = await prisma.material.findUnique({
+      where: { id: materialId },
+      include: { locationLevels: true },
+    });
+
+    if (!material) {
+      return NextResponse.json({ error: 'Material not found' }, { status: 404 });
+    }
+
+    const levels: (StockLevels & { minLevel: number; storageLocationId: string })[] = [];
+    for (const entry of entries) {
+      const storageLocationId = typeof entry.storageLocationId === 'string' ? entry.storageLocationId : '';
+      if (!storageLocationId) {
+        return NextResponse.json({ error: 'Each level needs a storage location' }, { status: 400 });
+      }
+      if (levels.some(level => level.storageLocationId === storageLocationId)) {
+        return NextResponse.json({ error: 'A storage location can only have one set of levels' }, { status: 400 });
+      }
+      const parsed = parseStockLevels(entry);
+      if (typeof parsed === 'string') {
+        return NextResponse.json({ error: parsed }, { status: 400 });
+      }
+      if (parsed.minLevel === null) {
+        return NextResponse.json({ error: 'A minimum level is required for each location' }, { status: 400 });
+      }
+      levels.push({ ...parsed, minLevel: parsed.minLevel, storageLocationId });
+    }
+
+    const locationCount = await prisma.storageLocation.count({
+      where: { id: { in: levels.map(level => level.storageLocationId) } },
+    });
+    if (locationCount !== levels.length) {
+      return NextResponse.json({ error: 'Storage location not found' }, { status: 404 });
+    }
+
+    const saved = await prisma.$transaction(async (tx) => {
+      await tx.materialLocationLevel.deleteMany({ where: { materialId } });
+      await tx.materialLocationLevel.createMany({
+        data: levels.map(level => ({ ...level, materialId })),
+      });
+      return tx.materialLocationLevel.findMany({ where: { materialId } });
+    });
+
+    const summarize = (rows: { storageLocationId: string; minLevel: number; parLevel: number | null; maxLevel: number | null }[]) =>
+      rows.map(({ storageLocationId, minLevel, parLevel, maxLevel }) => ({ storageLocationId, minLevel, parLevel, maxLevel }));
+
+    await logUpdate(
+      'Material',
+      materialId,
+      { locationLevels: summarize(material.locationLevels) },
+      { locationLevels: summarize(saved) },
+      session.user.id,
+      `Updated location stock levels for ${material.name} (${saved.length} location(s))`
+    );
+
+    return NextResponse.json(saved);
+  } catch (error) {
+    console.error('Error updating stock levels:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
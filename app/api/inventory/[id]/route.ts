@@ -4,6 +4,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { logUpdate, logDelete } from '@/lib/data-logger';
 import { hasPermissionByName } from '@/lib/permissions';
+import { parseStockLevels } from '@/lib/stock-levels';
+import { findGtinOwner, parseCatalogFields } from '@/lib/catalog';
 
 export async function GET(
   request: Request,
@@ -25,9 +27,16 @@ export async function GET(
               }
             },
             addedBy: { select: { username: true, email: true } },
+            statusSetBy: { select: { username: true } },
+            parentBatch: { select: { id: true, storageLocation: true } },
+            transfersOut: {
+              include: { user: { select: { username: true } } },
+              orderBy: { createdAt: 'desc' },
+            },
           },
           orderBy: { expirationDate: 'asc' },
         },
+        locationLevels: true,
       },
     });
 
@@ -67,13 +76,31 @@ export async function PUT(
     const body = await request.json();
     const { name, size, brandId, materialTypeId } = body;
 
+    const levels = parseStockLevels(body);
+    if (typeof levels === 'string') {
+      return NextResponse.json({ error: levels }, { status: 400 });
+    }
+
+    const catalog = parseCatalogFields(body);
+    if (typeof catalog === 'string') {
+      return NextResponse.json({ error: catalog }, { status: 400 });
+    }
+
+    const owner = await findGtinOwner(prisma, catalog.gtins, id);
+    if (owner) {
+      return NextResponse.json(
+        { error: `A GTIN is already linked to ${owner.name}${owner.size ? ` (${owner.size})` : ''}` },
+        { status: 409 }
+      );
+    }
+
     const currentMaterial = await prisma.material.findUnique({
       where: { id },
     });
 
     const material = await prisma.material.update({
       where: { id },
-      data: { name, size, brandId, materialTypeId },
+      data: { name, size, brandId, materialTypeId, ...levels, ...catalog },
       include: {
         brand: true,
         materialType: true,
@@ -86,6 +113,7 @@ export async function PUT(
               }
             },
             addedBy: { select: { username: true, email: true } },
+            statusSetBy: { select: { username: true } },
           },
           orderBy: { expirationDate: 'asc' },
         },
@@ -101,8 +129,21 @@ export async function PUT(
           size: currentMaterial.size,
           brandId: currentMaterial.brandId,
           materialTypeId: currentMaterial.materialTypeId,
+          minLevel: currentMaterial.minLevel,
+          parLevel: currentMaterial.parLevel,
+          maxLevel: currentMaterial.maxLevel,
+          catalogNumber: currentMaterial.catalogNumber,
+          gtins: currentMaterial.gtins,
+          unitOfMeasure: currentMaterial.unitOfMeasure,
+          packSize: currentMaterial.packSize,
+          purchaseUnit: currentMaterial.purchaseUnit,
+          frenchSize: currentMaterial.frenchSize,
+          lengthCm: currentMaterial.lengthCm,
+          diameterMm: currentMaterial.diameterMm,
+          singleUse: currentMaterial.singleUse,
+          sterile: currentMaterial.sterile,
         },
-        { name, size, brandId, materialTypeId },
+        { name, size, brandId, materialTypeId, ...levels, ...catalog },
         session.user.id,
         `Updated material: ${name}`
       );
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { findDuplicateMaterials } from '@/lib/material-merge';
+
+// GET /api/inventory/duplicates - groups of materials that look like the same product
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json(await findDuplicateMaterials(prisma));
+  } catch (error) {
+    console.error('Error finding duplicate materials:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
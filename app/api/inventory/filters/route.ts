@@ -1,19 +1,25 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { buildLocationPaths } from '@/lib/storage-locations'
+import { PURCHASE_TYPES } from '@/types/batch'
 
 export async function GET() {
   try {
-    const [materialTypes, brands, vendors] = await Promise.all([
+    const [materialTypes, brands, vendors, locations] = await Promise.all([
       prisma.materialType.findMany({ orderBy: { name: 'asc' } }),
       prisma.brand.findMany({ orderBy: { name: 'asc' } }),
       prisma.vendor.findMany({ orderBy: { name: 'asc' } }),
+      prisma.storageLocation.findMany(),
     ])
-    const purchaseTypes = ['Advance', 'Purchased']
+    const paths = buildLocationPaths(locations)
     return NextResponse.json({
       materialTypes,
       brands,
       vendors,
-      purchaseTypes,
+      purchaseTypes: PURCHASE_TYPES,
+      storageLocations: locations
+        .map((location) => ({ id: location.id, type: location.type, parentId: location.parentId, path: paths.get(location.id) ?? location.name }))
+        .sort((a, b) => a.path.localeCompare(b.path)),
       stockStatuses: ['In Stock', 'Low Stock', 'Out of Stock']
     })
   } catch (_error) {
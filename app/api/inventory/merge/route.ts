@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { hasPermissionByName } from '@/lib/permissions';
+import { MaterialMergeError, mergeMaterials } from '@/lib/material-merge';
+
+// POST /api/inventory/merge - fold a duplicate material into the one that is kept
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Materials') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (!body.survivorId || !body.duplicateId) {
+      return NextResponse.json({ error: 'Choose the material to keep and the one to merge into it' }, { status: 400 });
+    }
+
+    const material = await prisma.$transaction(
+      (tx) => mergeMaterials(tx, {
+        survivorId: String(body.survivorId),
+        duplicateId: String(body.duplicateId),
+        userId: session.user.id,
+      }),
+      { timeout: 30000 }
+    );
+
+    return NextResponse.json(material);
+  } catch (error) {
+    if (error instanceof MaterialMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error merging materials:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -4,6 +4,11 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { logCreate } from '@/lib/data-logger'
 import { hasPermissionByName } from '@/lib/permissions'
+import { usableBatch } from '@/lib/batches'
+import { descendantIds } from '@/lib/storage-locations'
+import { findLowStock, parseStockLevels } from '@/lib/stock-levels'
+import { findGtinOwner, parseCatalogFields } from '@/lib/catalog'
+import { normalizeGtin } from '@/lib/gs1'
 
 
 
@@ -11,6 +16,8 @@ import { hasPermissionByName } from '@/lib/permissions'
 
 interface SearchCondition {
   name?: { contains: string; mode: 'insensitive' }
+  catalogNumber?: { contains: string; mode: 'insensitive' }
+  gtins?: { has: string }
   brand?: { name: { contains: string; mode: 'insensitive' } }
   materialType?: { name: { contains: string; mode: 'insensitive' } }
   batches?: { some: { vendor: { name: { contains: string; mode: 'insensitive' } } } }
@@ -31,6 +38,7 @@ export async function GET(request: Request) {
     const vendor = searchParams.get('vendor') || ''
     const purchaseType = searchParams.get('purchaseType') || ''
     const stockStatus = searchParams.get('stockStatus') || ''
+    const storageLocation = searchParams.get('storageLocation') || ''
 
     // Build where clause for materials
     const where: WhereClause = {}
@@ -41,8 +49,14 @@ export async function GET(request: Request) {
         { name: { contains: search, mode: 'insensitive' } },
         { brand: { name: { contains: search, mode: 'insensitive' } } },
         { materialType: { name: { contains: search, mode: 'insensitive' } } },
-        { batches: { some: { vendor: { name: { contains: search, mode: 'insensitive' } } } } }
+        { batches: { some: { vendor: { name: { contains: search, mode: 'insensitive' } } } } },
+        { catalogNumber: { contains: search, mode: 'insensitive' } }
       ]
+      // A scanned or typed GTIN matches in any of its 8-14 digit forms
+      const gtin = normalizeGtin(search)
+      if (gtin) {
+        where.OR.push({ gtins: { has: gtin } })
+      }
     }
 
     // Add brand filter
@@ -80,7 +94,12 @@ export async function GET(request: Request) {
     // Get total count before further filtering (for y value)
     const totalCount = materials.length;
 
-    // Filter batches by vendor/purchaseType if needed
+    // A location filter also matches batches stored anywhere inside it
+    const locationIds = storageLocation
+      ? descendantIds(await prisma.storageLocation.findMany(), storageLocation)
+      : []
+
+    // Filter batches by vendor/purchaseType/location if needed
     const filteredMaterials = materials.map((mat) => {
       let batches = mat.batches
       if (vendor) {
@@ -89,31 +108,39 @@ export async function GET(request: Request) {
       if (purchaseType) {
         batches = batches.filter((b) => b.purchaseType.toLowerCase() === purchaseType.toLowerCase())
       }
+      if (storageLocation) {
+        batches = batches.filter((b) => b.storageLocationId !== null && locationIds.includes(b.storageLocationId))
+      }
       return { ...mat, batches }
     }).filter((mat) => {
-      // Only filter out materials with no batches if we're filtering by vendor or purchaseType
-      if (vendor || purchaseType) {
+      // Only filter out materials with no batches if we're filtering by vendor, purchaseType or location
+      if (vendor || purchaseType || storageLocation) {
         return mat.batches.length > 0
       }
       return true
     })
 
+    // Low stock is judged against each material's own levels, overall and per location
+    const lowStockIds = new Set((await findLowStock(prisma)).map((row) => row.material_id))
+
     // Filter by stock status if needed
-    let finalMaterials = filteredMaterials
+    let finalMaterials = filteredMaterials.map((mat) => ({ ...mat, lowStock: lowStockIds.has(mat.id) }))
     if (stockStatus) {
       finalMaterials = finalMaterials.filter((mat) => {
-        const totalQuantity = mat.batches.reduce((sum, batch) => sum + batch.quantity, 0)
+        // Stock levels only count batches that can be used; held stock is reported separately
+        const usableBatches = mat.batches.filter((batch) => batch.status === usableBatch.status)
+        const usableQuantity = usableBatches.reduce((sum, batch) => sum + batch.quantity, 0)
         switch (stockStatus.toLowerCase()) {
           case 'in stock':
-            return totalQuantity > 0
+            return usableQuantity > 0
           case 'low stock':
-            return totalQuantity > 0 && totalQuantity < 5
+            return usableQuantity > 0 && mat.lowStock
           case 'out of stock':
-            return totalQuantity === 0
+            return usableQuantity === 0
           case 'expiring soon':
             const thirtyDaysFromNow = new Date()
             thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30)
-            return mat.batches.some(batch => {
+            return usableBatches.some(batch => {
               return batch.quantity > 0 && batch.expirationDate <= thirtyDaysFromNow
             })
           default:
@@ -153,8 +180,26 @@ export async function POST(request: Request) {
     const body = await request.json()
     const { name, size, brandId, materialTypeId } = body
 
+    const levels = parseStockLevels(body)
+    if (typeof levels === 'string') {
+      return NextResponse.json({ error: levels }, { status: 400 })
+    }
+
+    const catalog = parseCatalogFields(body)
+    if (typeof catalog === 'string') {
+      return NextResponse.json({ error: catalog }, { status: 400 })
+    }
+
+    const owner = await findGtinOwner(prisma, catalog.gtins)
+    if (owner) {
+      return NextResponse.json(
+        { error: `A GTIN is already linked to ${owner.name}${owner.size ? ` (${owner.size})` : ''}` },
+        { status: 409 }
+      )
+    }
+
     const material = await prisma.material.create({
-      data: { name, size, brandId, materialTypeId },
+      data: { name, size, brandId, materialTypeId, ...levels, ...catalog },
       include: {
         brand: true,
         materialType: true,
@@ -167,6 +212,7 @@ export async function POST(request: Request) {
               }
             },
             addedBy: { select: { username: true, email: true } },
+            statusSetBy: { select: { username: true } },
           },
           orderBy: { expirationDate: 'asc' },
         },
@@ -182,6 +228,8 @@ export async function POST(request: Request) {
         size: material.size,
         brandId: material.brandId,
         materialTypeId: material.materialTypeId,
+        ...levels,
+        ...catalog,
       },
       session.user.id,
       `Created material: ${name}`
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { hasPermissionByName } from '@/lib/permissions';
+import { NumberConflictError, retryOnNumberConflict } from '@/lib/numbering';
+import { createPurchaseOrder, PurchaseOrderError } from '@/lib/purchase-orders';
+
+// POST /api/purchase-orders - generate a numbered purchase order document for one vendor
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Documents') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (!body.vendorId) {
+      return NextResponse.json({ error: 'Select a vendor for the purchase order' }, { status: 400 });
+    }
+
+    const lines = Array.isArray(body.lines)
+      ? body.lines.map((line: { materialId: unknown; quantity: unknown }) => ({
+          materialId: String(line.materialId),
+          quantity: Number(line.quantity),
+        }))
+      : [];
+
+    const document = await retryOnNumberConflict('documentNumber', () => prisma.$transaction(
+      (tx) => createPurchaseOrder(tx, {
+        vendorId: String(body.vendorId),
+        lines,
+        notes: body.notes,
+        userId: session.user.id,
+      }),
+      { timeout: 20000 }
+    ));
+
+    return NextResponse.json(document);
+  } catch (error) {
+    if (error instanceof PurchaseOrderError || error instanceof NumberConflictError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating purchase order:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
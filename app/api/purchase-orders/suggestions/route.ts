@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getReorderSuggestions } from '@/lib/purchase-orders';
+
+// GET /api/purchase-orders/suggestions - materials to reorder, grouped by last supplier
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json(await getReorderSuggestions(prisma));
+  } catch (error) {
+    console.error('Error fetching reorder suggestions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
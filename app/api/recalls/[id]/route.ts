@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logUpdate } from '@/lib/data-logger';
+import { hasPermissionByName } from '@/lib/permissions';
+import { usageRecordInclude } from '@/lib/usage';
+import { findOpenRecall, setBatchStatus } from '@/lib/batches';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/recalls/[id] - affected batches and every usage record drawn from them
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const recall = await prisma.recall.findUnique({
+      where: { id },
+      include: {
+        material: { include: { brand: true, materialType: true } },
+        createdBy: { select: { username: true } },
+        batches: {
+          include: {
+            batch: { include: { vendor: true } },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!recall) {
+      return NextResponse.json({ error: 'Recall not found' }, { status: 404 });
+    }
+
+    const usageRecords = await prisma.usageRecord.findMany({
+      where: { batchId: { in: recall.batches.map(recallBatch => recallBatch.batchId) } },
+      include: usageRecordInclude,
+      orderBy: { procedureDate: 'desc' },
+    });
+
+    return NextResponse.json({ ...recall, usageRecords });
+  } catch (error) {
+    console.error('Error fetching recall:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/recalls/[id] - close the recall, lifting the quarantine on its batches
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user has Edit Materials permission
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Materials') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    if (body.status !== 'Closed') {
+      return NextResponse.json({ error: 'A recall can only be closed' }, { status: 400 });
+    }
+
+    const currentRecall = await prisma.recall.findUnique({
+      where: { id },
+      include: { batches: { include: { batch: { select: { status: true } } } } },
+    });
+
+    if (!currentRecall) {
+      return NextResponse.json({ error: 'Recall not found' }, { status: 404 });
+    }
+
+    if (currentRecall.status === 'Closed') {
+      return NextResponse.json({ error: 'Recall is already closed' }, { status: 400 });
+    }
+
+    const recall = await prisma.$transaction(async (tx) => {
+      const closed = await tx.recall.update({
+        where: { id },
+        data: { status: 'Closed', closedAt: new Date() },
+      });
+
+      // Release the batches this recall quarantined and that are still on hold. Another open
+      // recall of the same batch takes the hold over instead, and releases it when it closes.
+      for (const { batchId, batch, quarantined } of currentRecall.batches) {
+        if (!quarantined || batch.status !== 'Quarantined') continue;
+        const openRecall = await findOpenRecall(tx, batchId);
+        if (openRecall) {
+          await tx.recallBatch.update({
+            where: { recallId_batchId: { recallId: openRecall.id, batchId } },
+            data: { quarantined: true },
+          });
+        } else {
+          await setBatchStatus(tx, batchId, 'Available', `Recall ${closed.reference} closed`, session.user.id);
+        }
+      }
+
+      await logUpdate(
+        'Recall',
+        id,
+        { status: currentRecall.status, closedAt: currentRecall.closedAt },
+        { status: closed.status, closedAt: closed.closedAt },
+        session.user.id,
+        `Recall ${closed.reference} closed`,
+        tx
+      );
+
+      return closed;
+    });
+
+    return NextResponse.json(recall);
+  } catch (error) {
+    console.error('Error updating recall:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,146 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logCreate } from '@/lib/data-logger';
+import { hasPermissionByName } from '@/lib/permissions';
+import { setBatchStatus } from '@/lib/batches';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/recalls
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const recalls = await prisma.recall.findMany({
+      include: {
+        material: { include: { brand: true } },
+        createdBy: { select: { username: true } },
+        _count: { select: { batches: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json(recalls);
+  } catch (error) {
+    console.error('Error fetching recalls:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/recalls - open a recall and quarantine the matching batches
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user has Edit Materials permission
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Materials') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { reference, materialId, reason } = body;
+    const lotNumbers: string[] = Array.isArray(body.lotNumbers)
+      ? body.lotNumbers.map((lot: unknown) => String(lot).trim()).filter(Boolean)
+      : [];
+    const batchIds: string[] = Array.isArray(body.batchIds) ? body.batchIds.map(String) : [];
+
+    if (!reference || !materialId) {
+      return NextResponse.json({ error: 'Reference and material are required' }, { status: 400 });
+    }
+
+    if (lotNumbers.length === 0 && batchIds.length === 0) {
+      return NextResponse.json({ error: 'At least one lot number or batch is required' }, { status: 400 });
+    }
+
+    const material = await prisma.material.findUnique({
+      where: { id: materialId },
+    });
+
+    if (!material) {
+      return NextResponse.json({ error: 'Material not found' }, { status: 404 });
+    }
+
+    const batches = await prisma.batch.findMany({
+      where: {
+        materialId,
+        OR: [
+          { lotNumber: { in: lotNumbers, mode: 'insensitive' } },
+          { id: { in: batchIds } },
+        ],
+      },
+    });
+
+    if (batches.length === 0) {
+      return NextResponse.json({ error: 'No batches of this material match the given lots' }, { status: 404 });
+    }
+
+    const recalledLots = Array.from(new Set([
+      ...lotNumbers,
+      ...batches.map(batch => batch.lotNumber).filter((lot): lot is string => !!lot),
+    ]));
+
+    // Only usable stock is quarantined; damaged, disposal-pending or already held batches keep their status
+    const quarantined = batches.filter(batch => batch.status === 'Available');
+
+    const recall = await prisma.$transaction(async (tx) => {
+      const created = await tx.recall.create({
+        data: {
+          reference,
+          materialId,
+          lotNumbers: recalledLots,
+          reason: reason || null,
+          createdById: session.user.id,
+          batches: {
+            create: batches.map(batch => ({
+              batchId: batch.id,
+              quantityAtRecall: batch.quantity,
+              quarantined: quarantined.includes(batch),
+            })),
+          },
+        },
+      });
+
+      for (const batch of quarantined) {
+        await setBatchStatus(tx, batch.id, 'Quarantined', `Recall ${reference}`, session.user.id);
+      }
+
+      await logCreate(
+        'Recall',
+        created.id,
+        {
+          reference: created.reference,
+          materialId,
+          materialName: material.name,
+          lotNumbers: created.lotNumbers,
+          reason: created.reason,
+          batchIds: batches.map(batch => batch.id),
+          quarantinedBatchIds: quarantined.map(batch => batch.id),
+        },
+        session.user.id,
+        `Recall ${reference} opened for ${material.name}: ${batches.length} batch(es), ${quarantined.length} quarantined`,
+        tx
+      );
+
+      return created;
+    });
+
+    return NextResponse.json(recall);
+  } catch (error) {
+    console.error('Error creating recall:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { usableBatch } from '@/lib/batches';
+import { Gs1Error, parseGs1 } from '@/lib/gs1';
+import { parseBatchLabelCode } from '@/lib/labels';
+import { ScanResult } from '@/types/scan';
+
+// GET /api/scan?code= - parse a scanned barcode and find its material and, by lot, its batch.
+// Labels printed from the inventory carry the batch's label number and resolve to that batch.
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const code = new URL(request.url).searchParams.get('code') ?? '';
+
+    const labelNumber = parseBatchLabelCode(code);
+    const labelled = labelNumber !== null
+      ? await prisma.batch.findUnique({
+          where: { labelNumber },
+          select: {
+            id: true,
+            quantity: true,
+            status: true,
+            expirationDate: true,
+            lotNumber: true,
+            material: { select: { id: true, name: true, size: true, brand: { select: { name: true } } } },
+          },
+        })
+      : null;
+    if (labelled) {
+      const { material, lotNumber, ...batch } = labelled;
+      const expirationDate = batch.expirationDate.toISOString();
+      const result: ScanResult = {
+        scan: { gtin: null, lotNumber, expirationDate: expirationDate.slice(0, 10), serialNumber: null },
+        material,
+        batch: { ...batch, expirationDate },
+      };
+      return NextResponse.json(result);
+    }
+
+    const scan = parseGs1(code);
+
+    const material = scan.gtin
+      ? await prisma.material.findFirst({
+          where: { gtins: { has: scan.gtin } },
+          select: { id: true, name: true, size: true, brand: { select: { name: true } } },
+        })
+      : null;
+
+    // Usable stock of the lot first, so a scan during a case lands on the batch it came from.
+    // A lot held only in quarantine or the like still resolves, so its status can be shown.
+    const lotBatch = (where: Prisma.BatchWhereInput) => prisma.batch.findFirst({
+      where,
+      orderBy: [{ quantity: 'desc' }, { expirationDate: 'asc' }],
+      select: { id: true, quantity: true, status: true, expirationDate: true },
+    });
+    const lotWhere = material && scan.lotNumber
+      ? { materialId: material.id, lotNumber: { equals: scan.lotNumber, mode: 'insensitive' as const } }
+      : null;
+    const batch = lotWhere
+      ? await lotBatch({ ...lotWhere, ...usableBatch, quantity: { gt: 0 } }) ?? await lotBatch(lotWhere)
+      : null;
+
+    const result: ScanResult = {
+      scan,
+      material,
+      batch: batch && { ...batch, expirationDate: batch.expirationDate.toISOString() },
+    };
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof Gs1Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error resolving scan:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
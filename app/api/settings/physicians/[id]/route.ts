@@ -186,6 +186,17 @@ export async function DELETE(request: Request, { params }: { params: Promise<{ i
       return NextResponse.json({ error: 'Physician not found' }, { status: 404 });
     }
 
+    // Check if physician is linked to any usage records
+    const usageForPhysician = await prisma.usageRecord.findFirst({
+      where: { physicianId: id },
+    });
+
+    if (usageForPhysician) {
+      return NextResponse.json({
+        error: 'Cannot delete physician. They have recorded usage; mark them inactive instead.'
+      }, { status: 400 });
+    }
+
     await prisma.physician.delete({
       where: { id },
     });
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { hasPermissionByName } from '@/lib/permissions';
+import { mergeStorageLocation, StorageLocationError } from '@/lib/storage-locations';
+
+// POST /api/settings/storage-locations/[id]/merge
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user has Manage Settings permission
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Manage Settings') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const { targetId } = await request.json();
+
+    if (!targetId) {
+      return NextResponse.json({ error: 'Target location is required' }, { status: 400 });
+    }
+
+    const result = await prisma.$transaction(tx =>
+      mergeStorageLocation(tx, id, targetId, session.user.id)
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof StorageLocationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error merging storage location:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
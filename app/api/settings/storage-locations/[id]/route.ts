@@ -0,0 +1,172 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logUpdate, logDelete } from '@/lib/data-logger';
+import { hasPermissionByName } from '@/lib/permissions';
+import { STORAGE_LOCATION_TYPES, StorageLocationType } from '@/types/storage-location';
+import {
+  assertUniqueLocationName,
+  isValidStorageLocationType,
+  refreshBatchLocationPaths,
+  StorageLocationError,
+  validateLocationParent,
+} from '@/lib/storage-locations';
+
+// PUT /api/settings/storage-locations/[id]
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user has Manage Settings permission
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Manage Settings') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const parentId = body.parentId || null;
+
+    if (!name) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+    if (!isValidStorageLocationType(body.type)) {
+      return NextResponse.json({ error: 'Invalid location type' }, { status: 400 });
+    }
+
+    const currentLocation = await prisma.storageLocation.findUnique({
+      where: { id },
+      include: { children: { select: { type: true } } },
+    });
+
+    if (!currentLocation) {
+      return NextResponse.json({ error: 'Storage location not found' }, { status: 404 });
+    }
+
+    // Sub-locations must still fit inside the location under its new type
+    const rank = STORAGE_LOCATION_TYPES.indexOf(body.type);
+    const misfit = currentLocation.children.find(
+      child => STORAGE_LOCATION_TYPES.indexOf(child.type as StorageLocationType) <= rank
+    );
+    if (misfit) {
+      return NextResponse.json(
+        { error: `A ${body.type} cannot contain the ${misfit.type} already inside this location` },
+        { status: 400 }
+      );
+    }
+
+    await validateLocationParent(prisma, body.type, parentId, id);
+    await assertUniqueLocationName(prisma, name, parentId, id);
+
+    const location = await prisma.$transaction(async (tx) => {
+      const updated = await tx.storageLocation.update({
+        where: { id },
+        data: { name, type: body.type, parentId },
+      });
+      await refreshBatchLocationPaths(tx, id);
+      return updated;
+    });
+
+    // Log the update
+    await logUpdate(
+      'StorageLocation',
+      id,
+      {
+        name: currentLocation.name,
+        type: currentLocation.type,
+        parentId: currentLocation.parentId,
+      },
+      {
+        name: location.name,
+        type: location.type,
+        parentId: location.parentId,
+      },
+      session.user.id,
+      `Updated storage location: ${name}`
+    );
+
+    return NextResponse.json(location);
+  } catch (error) {
+    if (error instanceof StorageLocationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error updating storage location:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/settings/storage-locations/[id]
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user has Manage Settings permission
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Manage Settings') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const currentLocation = await prisma.storageLocation.findUnique({
+      where: { id },
+      include: { _count: { select: { batches: true, children: true } } },
+    });
+
+    if (!currentLocation) {
+      return NextResponse.json({ error: 'Storage location not found' }, { status: 404 });
+    }
+
+    if (currentLocation._count.children > 0) {
+      return NextResponse.json({
+        error: 'Cannot delete storage location. Move or delete the locations inside it first.'
+      }, { status: 400 });
+    }
+
+    if (currentLocation._count.batches > 0) {
+      return NextResponse.json({
+        error: 'Cannot delete storage location. It is being used by one or more batches; merge it into another location instead.'
+      }, { status: 400 });
+    }
+
+    await prisma.storageLocation.delete({
+      where: { id },
+    });
+
+    // Log the deletion
+    await logDelete(
+      'StorageLocation',
+      id,
+      {
+        name: currentLocation.name,
+        type: currentLocation.type,
+        parentId: currentLocation.parentId,
+      },
+      session.user.id,
+      `Deleted storage location: ${currentLocation.name}`
+    );
+
+    return NextResponse.json({ message: 'Storage location deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting storage location:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logCreate } from '@/lib/data-logger';
+import { hasPermissionByName } from '@/lib/permissions';
+import {
+  assertUniqueLocationName,
+  buildLocationPaths,
+  isValidStorageLocationType,
+  StorageLocationError,
+  validateLocationParent,
+} from '@/lib/storage-locations';
+
+// GET /api/settings/storage-locations
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user has Manage Settings permission
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Manage Settings') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const locations = await prisma.storageLocation.findMany({
+      include: { _count: { select: { batches: true } } },
+    });
+    const paths = buildLocationPaths(locations);
+
+    return NextResponse.json(
+      locations
+        .map(({ _count, ...location }) => ({
+          ...location,
+          path: paths.get(location.id),
+          batchCount: _count.batches,
+        }))
+        .sort((a, b) => (a.path ?? '').localeCompare(b.path ?? ''))
+    );
+  } catch (error) {
+    console.error('Error fetching storage locations:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/settings/storage-locations
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user has Manage Settings permission
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Manage Settings') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const parentId = body.parentId || null;
+
+    if (!name) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+    if (!isValidStorageLocationType(body.type)) {
+      return NextResponse.json({ error: 'Invalid location type' }, { status: 400 });
+    }
+
+    await validateLocationParent(prisma, body.type, parentId);
+    await assertUniqueLocationName(prisma, name, parentId);
+
+    const location = await prisma.storageLocation.create({
+      data: { name, type: body.type, parentId },
+    });
+
+    // Log the creation
+    await logCreate(
+      'StorageLocation',
+      location.id,
+      {
+        name: location.name,
+        type: location.type,
+        parentId: location.parentId,
+      },
+      session.user.id,
+      `Created storage location: ${name}`
+    );
+
+    return NextResponse.json(location);
+  } catch (error) {
+    if (error instanceof StorageLocationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating storage location:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -47,7 +47,8 @@ export async function POST(request: Request) {
             { name: 'Record Usage', description: 'Record materials used during procedures' },
             { name: 'Edit Documents', description: 'Upload, edit, delete document images and metadata' },
             { name: 'Manage Settings', description: 'Access to manage master data and settings' },
-            { name: 'Manage Users', description: 'Manage users and permissions' }
+            { name: 'Manage Users', description: 'Manage users and permissions' },
+            { name: 'Override Expiry', description: 'Record usage from expired batches with a justification' }
           ]
         }
       },
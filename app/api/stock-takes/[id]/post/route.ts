@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { hasPermissionByName } from '@/lib/permissions';
+import { StockAdjustmentError } from '@/lib/batches';
+import { postStockTake } from '@/lib/stock-takes';
+
+// POST /api/stock-takes/[id]/post - apply all counted variances as count corrections
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user has Edit Materials permission
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Materials') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const stockTake = await prisma.stockTake.findUnique({
+      where: { id },
+      include: { lines: { select: { countedQuantity: true } } },
+    });
+
+    if (!stockTake) {
+      return NextResponse.json({ error: 'Stock take not found' }, { status: 404 });
+    }
+
+    if (!stockTake.lines.some(line => line.countedQuantity !== null)) {
+      return NextResponse.json({ error: 'Enter at least one count before posting' }, { status: 400 });
+    }
+
+    const posted = await prisma.$transaction(
+      (tx) => postStockTake(tx, id, session.user.id),
+      { timeout: 30000 }
+    );
+
+    if (!posted) {
+      return NextResponse.json({ error: 'Stock take is no longer in progress' }, { status: 400 });
+    }
+
+    return NextResponse.json(posted);
+  } catch (error) {
+    if (error instanceof StockAdjustmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error posting stock take:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,135 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logUpdate } from '@/lib/data-logger';
+import { hasPermissionByName } from '@/lib/permissions';
+import { stockTakeInclude } from '@/lib/stock-takes';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/stock-takes/[id]
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const stockTake = await prisma.stockTake.findUnique({
+      where: { id },
+      include: stockTakeInclude,
+    });
+
+    if (!stockTake) {
+      return NextResponse.json({ error: 'Stock take not found' }, { status: 404 });
+    }
+
+    const materialTypes = await prisma.materialType.findMany({
+      where: { id: { in: stockTake.materialTypeIds } },
+      select: { id: true, name: true },
+    });
+
+    return NextResponse.json({ ...stockTake, materialTypes });
+  } catch (error) {
+    console.error('Error fetching stock take:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/stock-takes/[id] - save counted quantities, or cancel the session
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user has Edit Materials permission
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Materials') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const stockTake = await prisma.stockTake.findUnique({
+      where: { id },
+      include: { lines: { select: { id: true, batchId: true } } },
+    });
+
+    if (!stockTake) {
+      return NextResponse.json({ error: 'Stock take not found' }, { status: 404 });
+    }
+
+    if (stockTake.status !== 'In Progress') {
+      return NextResponse.json({ error: `Stock take is already ${stockTake.status.toLowerCase()}` }, { status: 400 });
+    }
+
+    if (body.status === 'Cancelled') {
+      await prisma.stockTake.update({
+        where: { id },
+        data: { status: 'Cancelled' },
+      });
+
+      await logUpdate(
+        'StockTake',
+        id,
+        { status: stockTake.status },
+        { status: 'Cancelled' },
+        session.user.id,
+        `Stock take ${stockTake.reference} cancelled`
+      );
+
+      return NextResponse.json({ message: 'Stock take cancelled' });
+    }
+
+    const counts: { lineId: string; countedQuantity: number | null }[] = Array.isArray(body.counts) ? body.counts : [];
+    const isValidCount = (count: { lineId: string; countedQuantity: number | null }) =>
+      stockTake.lines.some(line => line.id === count.lineId) &&
+      (count.countedQuantity === null || (Number.isInteger(count.countedQuantity) && count.countedQuantity >= 0));
+
+    if (counts.length === 0 || !counts.every(isValidCount)) {
+      return NextResponse.json(
+        { error: 'Counts must be whole numbers of zero or more for lines in this stock take' },
+        { status: 400 }
+      );
+    }
+
+    // The system quantity is captured with each count, so usage recorded
+    // since the freeze is not mistaken for a variance
+    await prisma.$transaction(async (tx) => {
+      for (const count of counts) {
+        const line = stockTake.lines.find(item => item.id === count.lineId)!;
+        const batch = await tx.batch.findUniqueOrThrow({
+          where: { id: line.batchId },
+          select: { quantity: true },
+        });
+
+        await tx.stockTakeLine.update({
+          where: { id: count.lineId },
+          data: count.countedQuantity === null
+            ? { countedQuantity: null, systemQuantity: null, countedAt: null }
+            : { countedQuantity: count.countedQuantity, systemQuantity: batch.quantity, countedAt: new Date() },
+        });
+      }
+    });
+
+    const updated = await prisma.stockTake.findUnique({
+      where: { id },
+      include: stockTakeInclude,
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating stock take:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,143 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logCreate } from '@/lib/data-logger';
+import { hasPermissionByName } from '@/lib/permissions';
+import { NumberConflictError, retryOnNumberConflict } from '@/lib/numbering';
+import { nextStockTakeReference } from '@/lib/stock-takes';
+import { buildLocationPaths, descendantIds } from '@/lib/storage-locations';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/stock-takes
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const stockTakes = await prisma.stockTake.findMany({
+      include: {
+        startedBy: { select: { username: true } },
+        postedBy: { select: { username: true } },
+        lines: { select: { countedQuantity: true, adjustment: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const materialTypes = await prisma.materialType.findMany({
+      where: { id: { in: stockTakes.flatMap(stockTake => stockTake.materialTypeIds) } },
+      select: { id: true, name: true },
+    });
+
+    return NextResponse.json(stockTakes.map(({ lines, ...stockTake }) => ({
+      ...stockTake,
+      materialTypes: materialTypes.filter(type => stockTake.materialTypeIds.includes(type.id)),
+      lineCount: lines.length,
+      countedCount: lines.filter(line => line.countedQuantity !== null).length,
+      adjustedCount: lines.filter(line => !!line.adjustment).length,
+    })));
+  } catch (error) {
+    console.error('Error fetching stock takes:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/stock-takes - start a count and freeze the expected quantity of each batch in scope
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user has Edit Materials permission
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Materials') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const storageLocationIds: string[] = Array.isArray(body.storageLocationIds) ? body.storageLocationIds.map(String) : [];
+    const materialTypeIds: string[] = Array.isArray(body.materialTypeIds) ? body.materialTypeIds.map(String) : [];
+
+    if (storageLocationIds.length === 0 && materialTypeIds.length === 0) {
+      return NextResponse.json(
+        { error: 'Select at least one storage location or material type to count' },
+        { status: 400 }
+      );
+    }
+
+    const stockTake = await retryOnNumberConflict('reference', () => prisma.$transaction(async (tx) => {
+      // A selected room or cabinet covers everything stored inside it; the scope keeps the paths as named today
+      const locations = await tx.storageLocation.findMany();
+      const paths = buildLocationPaths(locations);
+      const storageLocations = storageLocationIds.map(id => paths.get(id) ?? id);
+      const scopedLocationIds = storageLocationIds.flatMap(id => descendantIds(locations, id));
+
+      const batches = await tx.batch.findMany({
+        where: {
+          quantity: { gt: 0 },
+          ...(storageLocationIds.length > 0 && { storageLocationId: { in: scopedLocationIds } }),
+          ...(materialTypeIds.length > 0 && { material: { materialTypeId: { in: materialTypeIds } } }),
+        },
+        select: { id: true, quantity: true },
+      });
+
+      if (batches.length === 0) {
+        return null;
+      }
+
+      const created = await tx.stockTake.create({
+        data: {
+          reference: await nextStockTakeReference(tx),
+          storageLocations,
+          materialTypeIds,
+          notes: body.notes || null,
+          startedById: session.user.id,
+          lines: {
+            create: batches.map(batch => ({
+              batchId: batch.id,
+              frozenQuantity: batch.quantity,
+            })),
+          },
+        },
+      });
+
+      await logCreate(
+        'StockTake',
+        created.id,
+        {
+          reference: created.reference,
+          storageLocations,
+          materialTypeIds,
+          batchCount: batches.length,
+        },
+        session.user.id,
+        `Stock take ${created.reference} started: ${batches.length} batch(es) to count`,
+        tx
+      );
+
+      return created;
+    }));
+
+    if (!stockTake) {
+      return NextResponse.json({ error: 'No batches in stock match the selected scope' }, { status: 404 });
+    }
+
+    return NextResponse.json(stockTake);
+  } catch (error) {
+    if (error instanceof NumberConflictError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating stock take:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -4,6 +4,9 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { logUpdate, logDelete } from '@/lib/data-logger';
 import { hasPermissionByName } from '@/lib/permissions';
+import { expiredBatchMessage, isExpired } from '@/lib/usage';
+import { unavailableBatchMessage, usableBatch } from '@/lib/batches';
+import { consignmentLockMessage } from '@/lib/consignment';
 
 export const dynamic = 'force-dynamic';
 
@@ -32,19 +35,13 @@ export async function PUT(
       );
     }
 
+    // Patient, procedure and physician belong to the procedure and are changed through
+    // PUT /api/usage/procedure/[id], which keeps all of its records in step
     const body = await request.json();
-    const {
-      patientName,
-      patientId,
-      procedureName,
-      procedureDate,
-      physician,
-      batchId,
-      quantity
-    } = body;
+    const { batchId, quantity, overrideReason } = body;
 
     // Validate required fields
-    if (!patientName || !patientId || !procedureName || !procedureDate || !physician || !batchId || !quantity) {
+    if (!batchId || !quantity) {
       return NextResponse.json(
         { error: 'All fields are required' },
         { status: 400 }
@@ -55,6 +52,9 @@ export async function PUT(
     const existingUsage = await prisma.usageRecord.findUnique({
       where: { id },
       include: {
+        physician: { select: { name: true } },
+        procedure: { include: { physician: { select: { id: true, name: true } } } },
+        consignmentStatement: { select: { reference: true, status: true } },
         batch: {
           include: {
             material: {
@@ -76,6 +76,11 @@ export async function PUT(
       );
     }
 
+    const lockMessage = consignmentLockMessage(existingUsage.consignmentStatement);
+    if (lockMessage) {
+      return NextResponse.json({ error: lockMessage }, { status: 400 });
+    }
+
     // Get the new batch details
     const newBatch = await prisma.batch.findUnique({
       where: { id: batchId },
@@ -97,6 +102,42 @@ export async function PUT(
       );
     }
 
+    const { procedure } = existingUsage;
+    const { patientName, patientId, procedureName, procedureDate, physician } = procedure;
+
+    // Checks below only apply when moving onto a batch or drawing more from it,
+    // so records already on an expired or unavailable batch stay editable
+    const drawsMore = existingUsage.batchId !== batchId || quantity > existingUsage.quantity;
+
+    if (drawsMore && newBatch.status !== usableBatch.status) {
+      return NextResponse.json(
+        { error: unavailableBatchMessage(newBatch) },
+        { status: 400 }
+      );
+    }
+
+    const drawsFromExpired = drawsMore && isExpired(newBatch);
+    const justification = typeof overrideReason === 'string' ? overrideReason.trim() : '';
+
+    if (drawsFromExpired && !justification) {
+      return NextResponse.json(
+        { error: expiredBatchMessage(newBatch) },
+        { status: 400 }
+      );
+    }
+
+    const canOverrideExpiry = user ? hasPermissionByName(user.permissions, 'Override Expiry') : false;
+    if (drawsFromExpired && !canOverrideExpiry) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to override expiry' },
+        { status: 403 }
+      );
+    }
+
+    const expiryOverrideReason = drawsFromExpired
+      ? justification
+      : existingUsage.batchId === batchId ? existingUsage.expiryOverrideReason : null;
+
     // Calculate quantity differences
     const oldQuantity = existingUsage.quantity;
     const newQuantity = quantity;
@@ -145,12 +186,15 @@ export async function PUT(
           patientName,
           patientId,
           procedureName,
-          procedureDate: new Date(procedureDate),
-          physician,
+          procedureDate,
+          // Legacy procedures without a physician leave the record's own entry as it was
+          ...(physician && { physicianId: physician.id, legacyPhysician: null }),
           batchId,
-          quantity
+          quantity,
+          expiryOverrideReason
         },
         include: {
+          physician: { select: { id: true, name: true } },
           batch: {
             include: {
               material: {
@@ -170,37 +214,42 @@ export async function PUT(
         }
       });
 
+      // Logged in the transaction so an expiry override is never committed without its entry
+      await logUpdate(
+        'UsageRecord',
+        updatedUsage.id,
+        {
+          patientName: existingUsage.patientName,
+          patientId: existingUsage.patientId,
+          procedureName: existingUsage.procedureName,
+          procedureDate: existingUsage.procedureDate,
+          physicianId: existingUsage.physicianId,
+          physician: existingUsage.physician?.name ?? existingUsage.legacyPhysician,
+          batchId: existingUsage.batchId,
+          quantity: existingUsage.quantity,
+          expiryOverrideReason: existingUsage.expiryOverrideReason,
+          materialName: existingUsage.batch.material.name
+        },
+        {
+          patientName,
+          patientId,
+          procedureName,
+          procedureDate,
+          physicianId: physician?.id ?? existingUsage.physicianId,
+          physician: physician?.name ?? existingUsage.physician?.name ?? existingUsage.legacyPhysician,
+          batchId,
+          quantity,
+          expiryOverrideReason,
+          materialName: newBatch.material.name
+        },
+        session.user.id,
+        `Usage record updated for patient ${patientName} (${patientId}) - ${newQuantity} units of ${newBatch.material.name} used in ${procedureName}`,
+        tx
+      );
+
       return updatedUsage;
     });
 
-    // Log the usage record update
-    await logUpdate(
-      'UsageRecord',
-      result.id,
-      {
-        patientName: existingUsage.patientName,
-        patientId: existingUsage.patientId,
-        procedureName: existingUsage.procedureName,
-        procedureDate: existingUsage.procedureDate,
-        physician: existingUsage.physician,
-        batchId: existingUsage.batchId,
-        quantity: existingUsage.quantity,
-        materialName: existingUsage.batch.material.name
-      },
-      {
-        patientName,
-        patientId,
-        procedureName,
-        procedureDate: new Date(procedureDate),
-        physician,
-        batchId,
-        quantity,
-        materialName: newBatch.material.name
-      },
-      session.user.id,
-      `Usage record updated for patient ${patientName} (${patientId}) - ${newQuantity} units of ${newBatch.material.name} used in ${procedureName}`
-    );
-
     return NextResponse.json(result);
   } catch (error) {
     console.error('Error updating usage record:', error);
@@ -242,6 +291,9 @@ export async function DELETE(
     const usageRecord = await prisma.usageRecord.findUnique({
       where: { id },
       include: {
+        physician: { select: { name: true } },
+        procedure: { include: { physician: { select: { id: true, name: true } } } },
+        consignmentStatement: { select: { reference: true, status: true } },
         batch: {
           include: {
             material: {
@@ -263,6 +315,11 @@ export async function DELETE(
       );
     }
 
+    const lockMessage = consignmentLockMessage(usageRecord.consignmentStatement);
+    if (lockMessage) {
+      return NextResponse.json({ error: lockMessage }, { status: 400 });
+    }
+
     // Delete usage record and restore batch quantity in a transaction
     await prisma.$transaction(async (tx) => {
       // Delete the usage record
@@ -275,6 +332,16 @@ export async function DELETE(
         where: { id: usageRecord.batchId },
         data: { quantity: { increment: usageRecord.quantity } }
       });
+
+      // Remove the procedure once its last usage record is gone
+      const remaining = await tx.usageRecord.count({
+        where: { procedureId: usageRecord.procedureId }
+      });
+      if (remaining === 0) {
+        await tx.procedure.delete({
+          where: { id: usageRecord.procedureId }
+        });
+      }
     });
 
     // Log the usage record deletion
@@ -282,11 +349,13 @@ export async function DELETE(
       'UsageRecord',
       id,
       {
+        procedureId: usageRecord.procedureId,
         patientName: usageRecord.patientName,
         patientId: usageRecord.patientId,
         procedureName: usageRecord.procedureName,
         procedureDate: usageRecord.procedureDate,
-        physician: usageRecord.physician,
+        physicianId: usageRecord.physicianId,
+        physician: usageRecord.physician?.name ?? usageRecord.legacyPhysician,
         batchId: usageRecord.batchId,
         quantity: usageRecord.quantity,
         materialName: usageRecord.batch.material.name
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { logUpdate } from '@/lib/data-logger';
+import { hasPermissionByName } from '@/lib/permissions';
+import { isValidProcedureStatus } from '@/lib/usage';
+
+export const dynamic = 'force-dynamic';
+
+// PUT /api/usage/procedure/[id] - update the procedure header
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user has Record Usage permission
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true }
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Record Usage') : false;
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const {
+      patientName,
+      patientId,
+      procedureName,
+      procedureDate,
+      physicianId,
+      startTime,
+      endTime,
+      room,
+      notes,
+      status
+    } = body;
+
+    // Validate required fields
+    if (!patientName || !patientId || !procedureName || !procedureDate || !physicianId) {
+      return NextResponse.json(
+        { error: 'All fields are required' },
+        { status: 400 }
+      );
+    }
+
+    if (status !== undefined && !isValidProcedureStatus(status)) {
+      return NextResponse.json(
+        { error: 'Invalid procedure status' },
+        { status: 400 }
+      );
+    }
+
+    const existingProcedure = await prisma.procedure.findUnique({
+      where: { id },
+      include: { physician: { select: { name: true } } }
+    });
+
+    if (!existingProcedure) {
+      return NextResponse.json(
+        { error: 'Procedure not found' },
+        { status: 404 }
+      );
+    }
+
+    const physician = await prisma.physician.findUnique({
+      where: { id: physicianId },
+      select: { id: true, name: true }
+    });
+
+    if (!physician) {
+      return NextResponse.json(
+        { error: 'Physician not found' },
+        { status: 404 }
+      );
+    }
+
+    // Update the procedure and keep the patient details copied onto its usage records in sync
+    const result = await prisma.$transaction(async (tx) => {
+      const updatedProcedure = await tx.procedure.update({
+        where: { id },
+        data: {
+          patientName,
+          patientId,
+          procedureName,
+          procedureDate: new Date(procedureDate),
+          startTime: startTime ? new Date(startTime) : null,
+          endTime: endTime ? new Date(endTime) : null,
+          room: room || null,
+          physicianId: physician.id,
+          notes: notes || null,
+          status: status ?? existingProcedure.status
+        }
+      });
+
+      await tx.usageRecord.updateMany({
+        where: { procedureId: id },
+        data: {
+          patientName,
+          patientId,
+          procedureName,
+          procedureDate: new Date(procedureDate),
+          physicianId: physician.id,
+          legacyPhysician: null
+        }
+      });
+
+      return updatedProcedure;
+    });
+
+    await logUpdate(
+      'Procedure',
+      id,
+      {
+        patientName: existingProcedure.patientName,
+        patientId: existingProcedure.patientId,
+        procedureName: existingProcedure.procedureName,
+        procedureDate: existingProcedure.procedureDate,
+        startTime: existingProcedure.startTime,
+        endTime: existingProcedure.endTime,
+        room: existingProcedure.room,
+        physicianId: existingProcedure.physicianId,
+        physician: existingProcedure.physician?.name,
+        notes: existingProcedure.notes,
+        status: existingProcedure.status
+      },
+      {
+        patientName: result.patientName,
+        patientId: result.patientId,
+        procedureName: result.procedureName,
+        procedureDate: result.procedureDate,
+        startTime: result.startTime,
+        endTime: result.endTime,
+        room: result.room,
+        physicianId: physician.id,
+        physician: physician.name,
+        notes: result.notes,
+        status: result.status
+      },
+      session.user.id,
+      `Procedure updated for patient ${patientName} (${patientId}) - ${procedureName}`
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error updating procedure:', error);
+    return NextResponse.json(
+      { error: 'Failed to update procedure' },
+      { status: 500 }
+    );
+  }
+}
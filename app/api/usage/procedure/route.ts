@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { hasPermissionByName } from '@/lib/permissions';
+import { isValidProcedureStatus, isValidUsageItem, recordProcedureUsage, requestsExpiryOverride, UsageError } from '@/lib/usage';
 import { Prisma } from '@prisma/client';
 
 export async function GET(req: NextRequest) {
@@ -11,36 +13,21 @@ export async function GET(req: NextRequest) {
   }
 
   const { searchParams } = new URL(req.url);
-  const patientName = searchParams.get('patientName');
-  const patientId = searchParams.get('patientId');
-  const procedureName = searchParams.get('procedureName');
-  const procedureDate = searchParams.get('procedureDate');
+  const procedureId = searchParams.get('procedureId');
 
-  if (!patientName || !patientId || !procedureName || !procedureDate) {
+  if (!procedureId) {
     return NextResponse.json({ error: 'Missing required procedure parameters' }, { status: 400 });
   }
 
-  const startDate = new Date(procedureDate);
-  startDate.setUTCHours(0, 0, 0, 0);
-
-  const endDate = new Date(procedureDate);
-  endDate.setUTCHours(23, 59, 59, 999);
-
-  const where: Prisma.UsageRecordWhereInput = {
-    patientName,
-    patientId,
-    procedureName,
-    procedureDate: {
-      gte: startDate,
-      lte: endDate,
-    },
-  };
+  const where: Prisma.UsageRecordWhereInput = { procedureId };
 
   try {
     const usageRecords = await prisma.usageRecord.findMany({
       where,
       include: {
         user: { select: { username: true } },
+        procedure: { include: { physician: { select: { id: true, name: true } } } },
+        physician: { select: { id: true, name: true } },
         batch: {
           include: {
             material: { include: { brand: true, materialType: true } },
@@ -62,4 +49,102 @@ export async function GET(req: NextRequest) {
     console.error('Error fetching procedure records:', error);
     return NextResponse.json({ error: 'Failed to fetch procedure records' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
+
+// Records every material of a procedure in a single transaction: either all
+// usage records, batch deductions and data log entries are written, or none.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user has Record Usage permission
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true }
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Record Usage') : false;
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const {
+      patientName,
+      patientId,
+      procedureName,
+      procedureDate,
+      physicianId,
+      startTime,
+      endTime,
+      room,
+      notes,
+      status,
+      materials
+    } = body;
+
+    // Validate required fields
+    if (!patientName || !patientId || !procedureName || !procedureDate || !physicianId) {
+      return NextResponse.json(
+        { error: 'All fields are required' },
+        { status: 400 }
+      );
+    }
+
+    if (status !== undefined && !isValidProcedureStatus(status)) {
+      return NextResponse.json(
+        { error: 'Invalid procedure status' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(materials) || materials.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one material is required' },
+        { status: 400 }
+      );
+    }
+
+    // Each line names either a batch, or a material for FEFO allocation
+    if (!materials.every(isValidUsageItem)) {
+      return NextResponse.json(
+        { error: 'Each material requires a batch or material and a positive quantity' },
+        { status: 400 }
+      );
+    }
+
+    const canOverrideExpiry = user ? hasPermissionByName(user.permissions, 'Override Expiry') : false;
+    if (requestsExpiryOverride(materials) && !canOverrideExpiry) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to override expiry' },
+        { status: 403 }
+      );
+    }
+
+    const procedure = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+      recordProcedureUsage(
+        tx,
+        { patientName, patientId, procedureName, procedureDate, physicianId, startTime, endTime, room, notes, status },
+        materials,
+        session.user.id
+      )
+    );
+
+    return NextResponse.json(procedure);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error recording procedure usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to record procedure usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { logCreate } from '@/lib/data-logger';
 import { hasPermissionByName } from '@/lib/permissions';
+import { isValidUsageLine, recordUsageLines, requestsExpiryOverride, UsageError } from '@/lib/usage';
 import { Prisma } from '@prisma/client';
 
 export async function GET(req: NextRequest) {
@@ -14,7 +14,7 @@ export async function GET(req: NextRequest) {
 
   const { searchParams } = new URL(req.url);
   const search = searchParams.get('search');
-  const physician = searchParams.get('physician');
+  const physicianId = searchParams.get('physicianId');
   const dateFrom = searchParams.get('dateFrom');
   const dateTo = searchParams.get('dateTo');
   const materialType = searchParams.get('materialType');
@@ -33,8 +33,8 @@ export async function GET(req: NextRequest) {
     ];
   }
 
-  if (physician) {
-    where.physician = physician;
+  if (physicianId) {
+    where.physicianId = physicianId;
   }
 
   if (dateFrom && dateTo) {
@@ -69,6 +69,8 @@ export async function GET(req: NextRequest) {
       where,
       include: {
         user: { select: { username: true } },
+        procedure: true,
+        physician: { select: { id: true, name: true } },
         batch: {
           include: {
             material: { include: { brand: true, materialType: true } },
@@ -110,119 +112,66 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
     const {
-      patientName,
-      patientId,
-      procedureName,
-      procedureDate,
-      physician,
+      procedureId,
+      physicianId,
       batchId,
-      quantity
+      quantity,
+      overrideReason
     } = body;
 
     // Validate required fields
-    if (!patientName || !patientId || !procedureName || !procedureDate || !physician || !batchId || !quantity) {
+    if (!procedureId || !batchId || !quantity) {
       return NextResponse.json(
         { error: 'All fields are required' },
         { status: 400 }
       );
     }
 
-    // Check if batch exists and has sufficient quantity
-    const batch = await prisma.batch.findUnique({
-      where: { id: batchId },
-      include: {
-        material: {
-          include: {
-            brand: true,
-            materialType: true
-          }
-        },
-        vendor: true
-      }
-    });
-
-    if (!batch) {
+    if (!isValidUsageLine({ batchId, quantity, overrideReason })) {
       return NextResponse.json(
-        { error: 'Batch not found' },
-        { status: 404 }
+        { error: 'Quantity must be a positive whole number' },
+        { status: 400 }
       );
     }
 
-    if (batch.quantity < quantity) {
+    const canOverrideExpiry = user ? hasPermissionByName(user.permissions, 'Override Expiry') : false;
+    if (requestsExpiryOverride([{ batchId, quantity, overrideReason }]) && !canOverrideExpiry) {
       return NextResponse.json(
-        { error: 'Insufficient stock available' },
-        { status: 400 }
+        { error: 'Insufficient permissions to override expiry' },
+        { status: 403 }
       );
     }
 
-    // Create usage record and update batch quantity in a transaction
-    const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
-      // Create usage record
-      const usageRecord = await tx.usageRecord.create({
-        data: {
-          patientName,
-          patientId,
-          procedureName,
-          procedureDate: new Date(procedureDate),
-          physician,
-          userId: session.user.id,
-          batchId,
-          quantity
-        },
-        include: {
-          batch: {
-            include: {
-              material: {
-                include: {
-                  brand: true,
-                  materialType: true
-                }
-              },
-              vendor: true
-            }
-          },
-          user: {
-            select: {
-              username: true
-            }
-          }
-        }
-      });
-
-      // Update batch quantity
-      await tx.batch.update({
-        where: { id: batchId },
-        data: { quantity: { decrement: quantity } }
-      });
-
-      // Log the usage record creation
-      await logCreate(
-        'UsageRecord',
-        usageRecord.id,
-        {
-          patientName,
-          patientId,
-          procedureName,
-          procedureDate: new Date(procedureDate),
-          physician,
-          batchId,
-          quantity,
-          materialName: batch.material.name,
-          batchVendor: batch.vendor?.name || 'No vendor'
-        },
-        session.user.id,
-        `Usage recorded for patient ${patientName} (${patientId}) - ${quantity} units of ${batch.material.name} used in ${procedureName}`
+    const procedure = await prisma.procedure.findUnique({
+      where: { id: procedureId }
+    });
+
+    if (!procedure) {
+      return NextResponse.json(
+        { error: 'Procedure not found' },
+        { status: 404 }
       );
+    }
 
-      return usageRecord;
-    });
+    // Deduct stock, create the usage record and log it in a single transaction
+    const [usageRecord] = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+      recordUsageLines(
+        tx,
+        { ...procedure, physicianId: physicianId || procedure.physicianId },
+        [{ batchId, quantity, overrideReason }],
+        session.user.id
+      )
+    );
 
-    return NextResponse.json(result);
+    return NextResponse.json(usageRecord);
   } catch (error) {
+    if (error instanceof UsageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error creating usage record:', error);
     return NextResponse.json(
       { error: 'Failed to create usage record' },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
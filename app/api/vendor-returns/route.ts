@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { hasPermissionByName } from '@/lib/permissions';
+import { StockAdjustmentError } from '@/lib/batches';
+import { NumberConflictError, retryOnNumberConflict } from '@/lib/numbering';
+import { createVendorReturn } from '@/lib/vendor-returns';
+
+// GET /api/vendor-returns?vendorId= - the vendor's batches that still have stock, soonest expiry first
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const vendorId = new URL(request.url).searchParams.get('vendorId');
+    if (!vendorId) {
+      return NextResponse.json({ error: 'Select a vendor' }, { status: 400 });
+    }
+
+    const batches = await prisma.batch.findMany({
+      where: { vendorId, quantity: { gt: 0 } },
+      include: {
+        material: { include: { brand: { select: { name: true } } } },
+      },
+      orderBy: [{ expirationDate: 'asc' }, { material: { name: 'asc' } }],
+    });
+
+    return NextResponse.json(batches);
+  } catch (error) {
+    console.error('Error fetching returnable batches:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/vendor-returns - return stock to its vendor under a new return note
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: { permissions: true },
+    });
+
+    const hasPermission = user ? hasPermissionByName(user.permissions, 'Edit Materials') : false;
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (!body.vendorId) {
+      return NextResponse.json({ error: 'Select a vendor' }, { status: 400 });
+    }
+
+    const lines = Array.isArray(body.lines)
+      ? body.lines.map((line: { batchId: unknown; quantity: unknown }) => ({
+          batchId: String(line.batchId),
+          quantity: Number(line.quantity),
+        }))
+      : [];
+
+    const document = await retryOnNumberConflict('documentNumber', () => prisma.$transaction(
+      (tx) => createVendorReturn(tx, {
+        vendorId: String(body.vendorId),
+        lines,
+        reason: body.reason,
+        userId: session.user.id,
+      }),
+      { timeout: 20000 }
+    ));
+
+    return NextResponse.json(document);
+  } catch (error) {
+    if (error instanceof StockAdjustmentError || error instanceof NumberConflictError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error returning stock to vendor:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+-- CreateTable
+CREATE TABLE "Procedure" (
+    "id" TEXT NOT NULL,
+    "patientName" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "procedureName" TEXT NOT NULL,
+    "procedureDate" TIMESTAMP(3) NOT NULL,
+    "startTime" TIMESTAMP(3),
+    "endTime" TIMESTAMP(3),
+    "room" TEXT,
+    "physicianId" TEXT,
+    "notes" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'Completed',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Procedure_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "UsageRecord" ADD COLUMN     "procedureId" TEXT;
+
+-- Backfill: one procedure per (patientName, patientId, procedureName, procedure day),
+-- which is how procedures were grouped before they existed as records
+INSERT INTO "Procedure" ("id", "patientName", "patientId", "procedureName", "procedureDate", "physicianId", "status", "createdAt", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    g."patientName",
+    g."patientId",
+    g."procedureName",
+    g."procedureDate",
+    (SELECT p."id" FROM "Physician" p WHERE p."name" = g."physician" ORDER BY p."createdAt" LIMIT 1),
+    'Completed',
+    g."createdAt",
+    CURRENT_TIMESTAMP
+FROM (
+    SELECT
+        "patientName",
+        "patientId",
+        "procedureName",
+        MIN("procedureDate") AS "procedureDate",
+        MIN("physician") AS "physician",
+        MIN("createdAt") AS "createdAt"
+    FROM "UsageRecord"
+    GROUP BY "patientName", "patientId", "procedureName", DATE_TRUNC('day', "procedureDate")
+) g;
+
+UPDATE "UsageRecord" ur
+SET "procedureId" = pr."id"
+FROM "Procedure" pr
+WHERE pr."patientName" = ur."patientName"
+  AND pr."patientId" = ur."patientId"
+  AND pr."procedureName" = ur."procedureName"
+  AND DATE_TRUNC('day', pr."procedureDate") = DATE_TRUNC('day', ur."procedureDate");
+
+ALTER TABLE "UsageRecord" ALTER COLUMN "procedureId" SET NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "Procedure" ADD CONSTRAINT "Procedure_physicianId_fkey" FOREIGN KEY ("physicianId") REFERENCES "Physician"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UsageRecord" ADD CONSTRAINT "UsageRecord_procedureId_fkey" FOREIGN KEY ("procedureId") REFERENCES "Procedure"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "UsageRecord" ADD COLUMN     "physicianId" TEXT,
+ADD COLUMN     "legacyPhysician" TEXT;
+
+-- Link usage records to physicians by name. Matching ignores case and surrounding
+-- whitespace, and only links names that resolve to exactly one physician.
+UPDATE "UsageRecord" ur
+SET "physicianId" = m."id"
+FROM (
+    SELECT LOWER(TRIM("name")) AS "key", MIN("id") AS "id"
+    FROM "Physician"
+    GROUP BY LOWER(TRIM("name"))
+    HAVING COUNT(*) = 1
+) m
+WHERE m."key" = LOWER(TRIM(ur."physician"));
+
+-- Procedures created before this migration were only matched on the exact name
+UPDATE "Procedure" pr
+SET "physicianId" = ur."physicianId"
+FROM "UsageRecord" ur
+WHERE ur."procedureId" = pr."id"
+  AND pr."physicianId" IS NULL
+  AND ur."physicianId" IS NOT NULL;
+
+-- Keep the original text for records that could not be linked
+UPDATE "UsageRecord"
+SET "legacyPhysician" = "physician"
+WHERE "physicianId" IS NULL;
+
+-- Report unmatched names; they can be linked later from Settings -> Physicians
+DO $$
+DECLARE
+    unmatched RECORD;
+BEGIN
+    FOR unmatched IN
+        SELECT "legacyPhysician" AS "name", COUNT(*) AS "records"
+        FROM "UsageRecord"
+        WHERE "physicianId" IS NULL
+        GROUP BY "legacyPhysician"
+        ORDER BY "legacyPhysician"
+    LOOP
+        RAISE NOTICE 'Unmatched physician "%" on % usage record(s)', unmatched."name", unmatched."records";
+    END LOOP;
+END $$;
+
+-- AlterTable
+ALTER TABLE "UsageRecord" DROP COLUMN "physician";
+
+-- AddForeignKey
+ALTER TABLE "UsageRecord" ADD CONSTRAINT "UsageRecord_physicianId_fkey" FOREIGN KEY ("physicianId") REFERENCES "Physician"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "UsageRecord" ADD COLUMN     "expiryOverrideReason" TEXT;
+
+-- Make the new permission assignable on existing installs
+INSERT INTO "Permission" ("id", "name", "description")
+VALUES (gen_random_uuid()::text, 'Override Expiry', 'Record usage from expired batches with a justification')
+ON CONFLICT ("name") DO NOTHING;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "Recall" (
+    "id" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "materialId" TEXT NOT NULL,
+    "lotNumbers" TEXT[],
+    "reason" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'Open',
+    "createdById" TEXT NOT NULL,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Recall_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecallBatch" (
+    "id" TEXT NOT NULL,
+    "recallId" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "quantityAtRecall" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RecallBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecallBatch_recallId_batchId_key" ON "RecallBatch"("recallId", "batchId");
+
+-- AddForeignKey
+ALTER TABLE "Recall" ADD CONSTRAINT "Recall_materialId_fkey" FOREIGN KEY ("materialId") REFERENCES "Material"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Recall" ADD CONSTRAINT "Recall_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecallBatch" ADD CONSTRAINT "RecallBatch_recallId_fkey" FOREIGN KEY ("recallId") REFERENCES "Recall"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecallBatch" ADD CONSTRAINT "RecallBatch_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "Batch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Batch" ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'Available',
+ADD COLUMN     "statusReason" TEXT,
+ADD COLUMN     "statusSetById" TEXT,
+ADD COLUMN     "statusSetAt" TIMESTAMP(3);
+
+-- Batches under an open recall were quarantined by the recall itself
+UPDATE "Batch" b
+SET "status" = 'Quarantined',
+    "statusReason" = 'Recall ' || r."reference",
+    "statusSetById" = r."createdById",
+    "statusSetAt" = r."createdAt"
+FROM "RecallBatch" rb
+JOIN "Recall" r ON r."id" = rb."recallId"
+WHERE rb."batchId" = b."id" AND r."status" = 'Open';
+
+-- AddForeignKey
+ALTER TABLE "Batch" ADD CONSTRAINT "Batch_statusSetById_fkey" FOREIGN KEY ("statusSetById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "StockTake" (
+    "id" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "storageLocations" TEXT[],
+    "materialTypeIds" TEXT[],
+    "notes" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'In Progress',
+    "startedById" TEXT NOT NULL,
+    "postedById" TEXT,
+    "postedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockTake_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StockTakeLine" (
+    "id" TEXT NOT NULL,
+    "stockTakeId" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "frozenQuantity" INTEGER NOT NULL,
+    "countedQuantity" INTEGER,
+    "systemQuantity" INTEGER,
+    "countedAt" TIMESTAMP(3),
+    "adjustment" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockTakeLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StockTake_reference_key" ON "StockTake"("reference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StockTakeLine_stockTakeId_batchId_key" ON "StockTakeLine"("stockTakeId", "batchId");
+
+-- AddForeignKey
+ALTER TABLE "StockTake" ADD CONSTRAINT "StockTake_startedById_fkey" FOREIGN KEY ("startedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTake" ADD CONSTRAINT "StockTake_postedById_fkey" FOREIGN KEY ("postedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTakeLine" ADD CONSTRAINT "StockTakeLine_stockTakeId_fkey" FOREIGN KEY ("stockTakeId") REFERENCES "StockTake"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTakeLine" ADD CONSTRAINT "StockTakeLine_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "Batch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "StorageLocation" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "parentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StorageLocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StorageLocation_parentId_name_key" ON "StorageLocation"("parentId", "name");
+
+-- AlterTable
+ALTER TABLE "Batch" ADD COLUMN     "storageLocationId" TEXT;
+
+-- Free-text locations that differ only in case, spacing or punctuation ("Cath Lab Shelf 2",
+-- "cathlab shelf-2") are merged into one top-level location named after the most common
+-- spelling. Abbreviations such as "CL S2" cannot be matched here and are merged in Settings.
+CREATE TEMP TABLE "_BatchLocation" AS
+SELECT "id" AS "batchId",
+       'loc' || substr(md5(COALESCE(NULLIF(regexp_replace(lower("storageLocation"), '[^a-z0-9]+', '', 'g'), ''), 'unspecified')), 1, 22) AS "locationId",
+       COALESCE(NULLIF(trim(regexp_replace("storageLocation", '\s+', ' ', 'g')), ''), 'Unspecified') AS "spelling"
+FROM "Batch";
+
+INSERT INTO "StorageLocation" ("id", "name", "type", "updatedAt")
+SELECT "locationId", mode() WITHIN GROUP (ORDER BY "spelling"), 'Shelf', CURRENT_TIMESTAMP
+FROM "_BatchLocation"
+GROUP BY "locationId";
+
+UPDATE "Batch" b
+SET "storageLocationId" = l."id",
+    "storageLocation" = l."name"
+FROM "_BatchLocation" bl
+JOIN "StorageLocation" l ON l."id" = bl."locationId"
+WHERE bl."batchId" = b."id";
+
+DROP TABLE "_BatchLocation";
+
+-- AddForeignKey
+ALTER TABLE "StorageLocation" ADD CONSTRAINT "StorageLocation_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "StorageLocation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Batch" ADD CONSTRAINT "Batch_storageLocationId_fkey" FOREIGN KEY ("storageLocationId") REFERENCES "StorageLocation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
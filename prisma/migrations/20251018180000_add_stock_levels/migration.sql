@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Material" ADD COLUMN     "minLevel" INTEGER,
+ADD COLUMN     "parLevel" INTEGER,
+ADD COLUMN     "maxLevel" INTEGER;
+
+-- CreateTable
+CREATE TABLE "MaterialLocationLevel" (
+    "id" TEXT NOT NULL,
+    "materialId" TEXT NOT NULL,
+    "storageLocationId" TEXT NOT NULL,
+    "minLevel" INTEGER NOT NULL,
+    "parLevel" INTEGER,
+    "maxLevel" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MaterialLocationLevel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MaterialLocationLevel_materialId_storageLocationId_key" ON "MaterialLocationLevel"("materialId", "storageLocationId");
+
+-- AddForeignKey
+ALTER TABLE "MaterialLocationLevel" ADD CONSTRAINT "MaterialLocationLevel_materialId_fkey" FOREIGN KEY ("materialId") REFERENCES "Material"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MaterialLocationLevel" ADD CONSTRAINT "MaterialLocationLevel_storageLocationId_fkey" FOREIGN KEY ("storageLocationId") REFERENCES "StorageLocation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PurchaseOrderLine" ADD COLUMN     "receivedQuantity" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "UsageRecord" ADD COLUMN     "consignmentStatementId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ConsignmentStatement" (
+    "id" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'Open',
+    "invoiceId" TEXT,
+    "billedAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ConsignmentStatement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConsignmentStatement_reference_key" ON "ConsignmentStatement"("reference");
+
+-- CreateIndex
+CREATE INDEX "ConsignmentStatement_vendorId_idx" ON "ConsignmentStatement"("vendorId");
+
+-- AddForeignKey
+ALTER TABLE "UsageRecord" ADD CONSTRAINT "UsageRecord_consignmentStatementId_fkey" FOREIGN KEY ("consignmentStatementId") REFERENCES "ConsignmentStatement"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConsignmentStatement" ADD CONSTRAINT "ConsignmentStatement_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConsignmentStatement" ADD CONSTRAINT "ConsignmentStatement_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConsignmentStatement" ADD CONSTRAINT "ConsignmentStatement_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
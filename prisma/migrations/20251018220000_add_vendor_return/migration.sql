@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "StockAdjustment" ADD COLUMN     "documentId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "StockAdjustment" ADD CONSTRAINT "StockAdjustment_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
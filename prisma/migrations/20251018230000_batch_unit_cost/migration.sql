@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Batch" RENAME COLUMN "cost" TO "unitCost";
+ALTER TABLE "Batch" ADD COLUMN     "legacyCost" DOUBLE PRECISION;
+
+-- Keep the figure as entered, so the conversion below can be checked and reversed
+UPDATE "Batch" SET "legacyCost" = "unitCost";
+
+-- The old cost is taken to be the amount paid for the whole batch. Convert it to the cost of
+-- one unit using the quantity originally received; batches split off by a transfer copied
+-- their parent's amount, so divide by the original batch's quantity.
+WITH RECURSIVE "lineage" AS (
+  SELECT "id", "id" AS "rootId" FROM "Batch" WHERE "parentBatchId" IS NULL
+  UNION ALL
+  SELECT b."id", l."rootId" FROM "Batch" b JOIN "lineage" l ON b."parentBatchId" = l."id"
+)
+UPDATE "Batch" b
+SET "unitCost" = b."unitCost" / r."initialQuantity"
+FROM "lineage" l
+JOIN "Batch" r ON r."id" = l."rootId"
+WHERE b."id" = l."id"
+  AND b."unitCost" IS NOT NULL
+  AND r."initialQuantity" > 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Material" ADD COLUMN     "gtins" TEXT[] DEFAULT ARRAY[]::TEXT[];
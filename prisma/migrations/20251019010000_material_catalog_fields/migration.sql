@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Material" ADD COLUMN     "catalogNumber" TEXT,
+ADD COLUMN     "unitOfMeasure" TEXT NOT NULL DEFAULT 'Each',
+ADD COLUMN     "packSize" INTEGER,
+ADD COLUMN     "frenchSize" DOUBLE PRECISION,
+ADD COLUMN     "lengthCm" DOUBLE PRECISION,
+ADD COLUMN     "diameterMm" DOUBLE PRECISION,
+ADD COLUMN     "singleUse" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "sterile" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Material" ADD COLUMN     "purchaseUnit" TEXT;
+
+-- AlterTable
+ALTER TABLE "PurchaseOrderLine" ADD COLUMN     "unit" TEXT,
+ADD COLUMN     "unitSize" INTEGER NOT NULL DEFAULT 1;
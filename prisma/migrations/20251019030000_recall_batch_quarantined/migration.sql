@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "RecallBatch" ADD COLUMN     "quarantined" BOOLEAN NOT NULL DEFAULT false;
+
+-- Recalls opened before this column existed quarantined every batch they covered
+UPDATE "RecallBatch" SET "quarantined" = true;
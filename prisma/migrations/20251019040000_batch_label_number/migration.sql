@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Batch" ADD COLUMN     "labelNumber" SERIAL NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Batch_labelNumber_key" ON "Batch"("labelNumber");
@@ -20,7 +20,8 @@ async function main() {
     { name: 'Record Usage', description: 'Record materials used during procedures' },
     { name: 'Edit Documents', description: 'Upload, edit, delete document images and metadata' },
     { name: 'Manage Settings', description: 'Access to manage master data and settings' },
-    { name: 'Manage Users', description: 'Admin only: manage users, assign roles and permissions' }
+    { name: 'Manage Users', description: 'Admin only: manage users, assign roles and permissions' },
+    { name: 'Override Expiry', description: 'Record usage from expired batches with a justification' }
   ];
 
   for (const permission of permissions) {
@@ -10,6 +10,11 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
 import { SearchableSelect, MultiSearchableSelect } from '@/components/ui/searchable-select';
+import { Textarea } from '@/components/ui/textarea';
+import { ScanInput } from '@/components/ScanInput';
+import { MANUAL_STOCK_ADJUSTMENT_TYPES } from '@/types/batch';
+import { ScanResult } from '@/types/scan';
+import { hasPurchaseUnit, purchaseUnitLabel, UnitConversion } from '@/lib/units';
 
 type BatchFormData = {
   quantity: number;
@@ -17,10 +22,12 @@ type BatchFormData = {
   expirationDate: string;
   vendorId: string;
   documentIds?: string[];
-  storageLocation: string;
+  storageLocationId: string;
   purchaseType: string;
   lotNumber?: string;
-  cost?: number;
+  unitCost?: number;
+  adjustmentType?: string;
+  adjustmentReason?: string;
 };
 
 const batchSchema = z.object({
@@ -33,13 +40,15 @@ const batchSchema = z.object({
   expirationDate: z.string().min(1, 'Expiration date is required'),
   vendorId: z.string().min(1, 'Vendor is required'),
   documentIds: z.array(z.string()).optional(),
-  storageLocation: z.string().min(1, 'Storage location is required'),
+  storageLocationId: z.string().min(1, 'Storage location is required'),
   purchaseType: z.string().min(1, 'Purchase type is required'),
   lotNumber: z.string().optional(),
-  cost: z.coerce
+  unitCost: z.coerce
     .number()
     .optional()
     .transform(val => isNaN(val as number) ? undefined : val),
+  adjustmentType: z.string().optional(),
+  adjustmentReason: z.string().optional(),
 });
 
 interface Vendor {
@@ -52,11 +61,21 @@ interface Document {
   documentNumber: string;
 }
 
+interface StorageLocationOption {
+  id: string;
+  path: string;
+}
+
 interface BatchFormProps {
   materialId: string;
+  // Shown when offering to link a scanned GTIN to this material
+  materialLabel?: string;
+  // Lets a new batch be counted in the purchase unit; stock is saved in base units
+  conversion?: UnitConversion;
   batchId?: string;
   initialData?: Partial<BatchFormData>;
   vendors: Vendor[];
+  storageLocations: StorageLocationOption[];
   documents: Document[];
   onSuccess: () => void;
   onCancel: () => void;
@@ -65,15 +84,20 @@ interface BatchFormProps {
 
 export function BatchForm({
   materialId,
+  materialLabel = 'This material',
+  conversion,
   batchId,
   initialData,
   vendors,
+  storageLocations,
   documents,
   onSuccess,
   onCancel,
   mode = 'add',
 }: BatchFormProps) {
   const [loading, setLoading] = useState(false);
+  const canUsePurchaseUnit = mode === 'add' && !!conversion && hasPurchaseUnit(conversion);
+  const [inPurchaseUnits, setInPurchaseUnits] = useState(canUsePurchaseUnit);
   const {
     register,
     handleSubmit,
@@ -88,10 +112,12 @@ export function BatchForm({
       expirationDate: '',
       vendorId: '',
       documentIds: undefined,
-      storageLocation: '',
+      storageLocationId: '',
       purchaseType: '',
       lotNumber: '',
-      cost: undefined,
+      unitCost: undefined,
+      adjustmentType: 'Count Correction',
+      adjustmentReason: '',
       ...initialData,
     },
   });
@@ -104,7 +130,21 @@ export function BatchForm({
     }
   }, [quantityValue, mode, setValue]);
 
+  // Editing the quantity records a stock adjustment, which needs a type and reason
+  const quantityDelta = Number(quantityValue) - (initialData?.quantity ?? 0);
+  const quantityChanged = mode === 'edit' && quantityDelta !== 0;
+
+  const unitCostValue = watch('unitCost');
+  const initialQuantityValue = Number(watch('initialQuantity')) || 0;
+  const lineCost = unitCostValue !== undefined && String(unitCostValue) !== '' && !isNaN(Number(unitCostValue)) && initialQuantityValue > 0
+    ? Number(unitCostValue) * initialQuantityValue
+    : null;
+
   const onSubmit = async (data: BatchFormData) => {
+    if (quantityChanged && !data.adjustmentReason?.trim()) {
+      toast.error('Please give a reason for the quantity change');
+      return;
+    }
     setLoading(true);
     try {
       const url = batchId
@@ -114,7 +154,7 @@ export function BatchForm({
       const response = await fetch(url, {
         method: batchId ? 'PUT' : 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...data, inPurchaseUnits: canUsePurchaseUnit && inPurchaseUnits }),
       });
 
       if (!response.ok) {
@@ -132,22 +172,98 @@ export function BatchForm({
     }
   };
 
+  // Receiving from the box: the barcode's lot and expiry fill in the batch
+  const handleScan = ({ scan, material }: ScanResult) => {
+    if (material && material.id !== materialId) {
+      toast.error(`This barcode belongs to ${material.name}${material.size ? ` (${material.size})` : ''}`);
+      return;
+    }
+    if (scan.lotNumber) {
+      setValue('lotNumber', scan.lotNumber, { shouldValidate: true });
+    }
+    if (scan.expirationDate) {
+      setValue('expirationDate', scan.expirationDate, { shouldValidate: true });
+    }
+    if (!scan.lotNumber && !scan.expirationDate) {
+      toast.info('This barcode carries no lot or expiry date');
+    }
+  };
+
   return (
     <div className="flex flex-col h-full max-h-[calc(100vh-200px)]">
       <div className="flex-1 overflow-y-auto pr-2 pb-4 min-h-0">
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {mode === 'add' && (
+            <ScanInput
+              onScan={handleScan}
+              linkOptions={[{ value: materialId, label: materialLabel }]}
+              placeholder="Scan the box barcode to fill lot and expiry"
+            />
+          )}
           <div>
             <Label htmlFor="quantity">Quantity</Label>
-            <Input
-              id="quantity"
-              type="number"
-              {...register('quantity')}
-              className={errors.quantity ? 'border-red-500' : ''}
-            />
+            <div className="flex gap-2">
+              <Input
+                id="quantity"
+                type="number"
+                {...register('quantity')}
+                className={errors.quantity ? 'border-red-500' : ''}
+              />
+              {canUsePurchaseUnit && conversion && (
+                <Select
+                  value={inPurchaseUnits ? 'purchase' : 'base'}
+                  onValueChange={(value: string) => setInPurchaseUnits(value === 'purchase')}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="purchase">{purchaseUnitLabel(conversion)}</SelectItem>
+                    <SelectItem value="base">{conversion.baseUnit}</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            {canUsePurchaseUnit && conversion && inPurchaseUnits && Number(quantityValue) > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                {Number(quantityValue) * conversion.unitsPerPurchaseUnit} {conversion.baseUnit} will be added to stock
+              </p>
+            )}
             {errors.quantity && (
               <p className="text-sm text-red-500">{errors.quantity.message}</p>
             )}
           </div>
+          {quantityChanged && (
+            <div className="space-y-3 rounded border border-amber-300 bg-amber-50 dark:bg-amber-900/20 p-3">
+              <p className="text-sm text-amber-800 dark:text-amber-200">
+                Quantity changes from {initialData?.quantity} to {quantityValue} ({quantityDelta > 0 ? '+' : ''}{quantityDelta}) and will be recorded as a stock adjustment.
+              </p>
+              <div>
+                <Label htmlFor="adjustmentType">Adjustment Type</Label>
+                <Select
+                  onValueChange={(value: string) => setValue('adjustmentType', value)}
+                  defaultValue={watch('adjustmentType')}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select adjustment type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MANUAL_STOCK_ADJUSTMENT_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="adjustmentReason">Reason</Label>
+                <Textarea
+                  id="adjustmentReason"
+                  {...register('adjustmentReason')}
+                  placeholder="Why is the quantity changing?"
+                />
+              </div>
+            </div>
+          )}
           {mode === 'edit' && (
             <div>
               <Label htmlFor="initialQuantity">Initial Quantity</Label>
@@ -200,14 +316,15 @@ export function BatchForm({
             />
           </div>
           <div>
-            <Label htmlFor="storageLocation">Storage Location</Label>
-            <Input
-              id="storageLocation"
-              {...register('storageLocation')}
-              className={errors.storageLocation ? 'border-red-500' : ''}
+            <Label htmlFor="storageLocationId">Storage Location</Label>
+            <SearchableSelect
+              options={storageLocations.map(l => ({ value: l.id, label: l.path }))}
+              value={watch('storageLocationId')}
+              onValueChange={value => setValue('storageLocationId', value, { shouldValidate: true })}
+              placeholder="Select a storage location"
             />
-            {errors.storageLocation && (
-              <p className="text-sm text-red-500">{errors.storageLocation.message}</p>
+            {errors.storageLocationId && (
+              <p className="text-sm text-red-500">{errors.storageLocationId.message}</p>
             )}
           </div>
           <div>
@@ -240,16 +357,23 @@ export function BatchForm({
             )}
           </div>
           <div>
-            <Label htmlFor="cost">Cost (Optional)</Label>
+            <Label htmlFor="unitCost">
+              {canUsePurchaseUnit && conversion && inPurchaseUnits ? `Cost per ${conversion.purchaseUnit} (Optional)` : 'Unit Cost (Optional)'}
+            </Label>
             <Input
-              id="cost"
+              id="unitCost"
               type="number"
               step="0.01"
-              {...register('cost')}
-              className={errors.cost ? 'border-red-500' : ''}
+              {...register('unitCost')}
+              className={errors.unitCost ? 'border-red-500' : ''}
             />
-            {errors.cost && (
-              <p className="text-sm text-red-500">{errors.cost.message}</p>
+            {errors.unitCost && (
+              <p className="text-sm text-red-500">{errors.unitCost.message}</p>
+            )}
+            {lineCost !== null && (
+              <p className="text-xs text-gray-500 mt-1">
+                {canUsePurchaseUnit && inPurchaseUnits ? `Cost of one ${conversion?.purchaseUnit.toLowerCase()}` : 'Cost of one unit'}; ₹{lineCost.toFixed(2)} for all {initialQuantityValue}
+              </p>
             )}
           </div>
         </form>
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { BatchStatusBadge } from '@/components/BatchStatusBadge';
+import { BatchHistoryEvent } from '@/types/batch';
+
+interface BatchHistoryPanelProps {
+  materialId: string;
+  batch: {
+    id: string;
+    quantity: number;
+    initialQuantity: number;
+    lotNumber: string | null;
+    status: string;
+    statusReason: string | null;
+    expirationDate: string;
+    storageLocation: string;
+    vendor: { name: string };
+  } | null;
+  onClose: () => void;
+}
+
+interface BatchHistory {
+  events: BatchHistoryEvent[];
+  quantity: number;
+  initialQuantity: number;
+  unreconciled: number;
+}
+
+export function BatchHistoryPanel({ materialId, batch, onClose }: BatchHistoryPanelProps) {
+  const [history, setHistory] = useState<BatchHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!batch) return;
+    setLoading(true);
+    setError('');
+    setHistory(null);
+    fetch(`/api/inventory/${materialId}/batches/${batch.id}/history`)
+      .then(async (response) => {
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || 'Failed to fetch batch history');
+        }
+        setHistory(await response.json());
+      })
+      .catch((err) => {
+        console.error('Error fetching batch history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to fetch batch history');
+      })
+      .finally(() => setLoading(false));
+  }, [materialId, batch]);
+
+  return (
+    <Dialog open={!!batch} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Batch Details{batch?.lotNumber ? ` - Lot ${batch.lotNumber}` : ''}</DialogTitle>
+        </DialogHeader>
+
+        {batch && (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+            <div><strong>Quantity:</strong> {batch.quantity} / {batch.initialQuantity}</div>
+            <div className="flex items-center gap-2">
+              <strong>Status:</strong> <BatchStatusBadge status={batch.status} reason={batch.statusReason} />
+            </div>
+            <div><strong>Vendor:</strong> {batch.vendor.name}</div>
+            <div><strong>Expiration Date:</strong> {new Date(batch.expirationDate).toLocaleDateString()}</div>
+            <div><strong>Storage Location:</strong> {batch.storageLocation}</div>
+          </div>
+        )}
+
+        <h3 className="text-lg font-semibold mt-2">Stock Movements</h3>
+        {loading ? (
+          <div className="p-6 text-center text-gray-500 dark:text-gray-400">Loading...</div>
+        ) : error ? (
+          <div className="p-6 text-center text-red-500">{error}</div>
+        ) : history && (
+          <div className="space-y-3">
+            {history.unreconciled !== 0 && (
+              <div className="rounded border border-amber-300 bg-amber-50 dark:bg-amber-900/20 px-3 py-2 text-sm text-amber-800 dark:text-amber-200">
+                {history.unreconciled > 0 ? '+' : ''}{history.unreconciled} of the current quantity ({history.quantity}) cannot be
+                traced to a recorded event, most likely because a change was not logged.
+              </div>
+            )}
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead>
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Event</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Patient</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Procedure</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Details</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Change</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Balance</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.events.map((event) => (
+                    <tr key={`${event.type}-${event.id}`}>
+                      <td className="px-4 py-2 text-sm whitespace-nowrap">{new Date(event.date).toLocaleString()}</td>
+                      <td className="px-4 py-2 text-sm whitespace-nowrap">{event.type}</td>
+                      <td className="px-4 py-2 text-sm">
+                        {event.patient ? `${event.patient.name} (${event.patient.id})` : '-'}
+                      </td>
+                      <td className="px-4 py-2 text-sm">{event.procedure || '-'}</td>
+                      <td className="px-4 py-2 text-sm">{event.description || '-'}</td>
+                      <td className={`px-4 py-2 text-sm text-right font-medium ${event.quantity < 0 ? 'text-red-600' : event.quantity > 0 ? 'text-green-600' : 'text-gray-500'}`}>
+                        {event.quantity > 0 ? '+' : ''}{event.quantity}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right">{event.balance}</td>
+                      <td className="px-4 py-2 text-sm">{event.user || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
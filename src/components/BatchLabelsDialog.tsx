@@ -0,0 +1,180 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { batchLabelCode, renderLabelsPdf } from '@/lib/labels';
+import { BatchLabel, LABEL_COPIES, LABEL_TEMPLATES, LabelCopies, LabelTemplate } from '@/types/labels';
+
+// More labels than this in one go is probably a mistake, so it is confirmed first
+const LARGE_PRINT_RUN = 200;
+
+interface BatchLabelsDialogProps {
+  isOpen: boolean;
+  material: { name: string; size: string | null };
+  batches: {
+    id: string;
+    labelNumber: number;
+    quantity: number;
+    lotNumber: string | null;
+    expirationDate: string;
+    storageLocation: string;
+  }[];
+  onClose: () => void;
+}
+
+export function BatchLabelsDialog({ isOpen, material, batches, onClose }: BatchLabelsDialogProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [copies, setCopies] = useState<LabelCopies>('One per batch');
+  const [templateId, setTemplateId] = useState(LABEL_TEMPLATES[0].id);
+  const [customWidth, setCustomWidth] = useState('50');
+  const [customHeight, setCustomHeight] = useState('25');
+
+  // Batches with stock on hand are selected to start with
+  useEffect(() => {
+    if (isOpen) {
+      setSelected(batches.filter(batch => batch.quantity > 0).map(batch => batch.id));
+    }
+  }, [isOpen, batches]);
+
+  const template: LabelTemplate | null = templateId === 'custom'
+    ? Number(customWidth) > 0 && Number(customHeight) > 0
+      ? { id: 'custom', name: 'Custom', width: Number(customWidth), height: Number(customHeight) }
+      : null
+    : LABEL_TEMPLATES.find(t => t.id === templateId) ?? null;
+
+  const labels: BatchLabel[] = batches
+    .filter(batch => selected.includes(batch.id))
+    .flatMap(batch => {
+      const label = {
+        code: batchLabelCode(batch.labelNumber),
+        material: material.name,
+        size: material.size,
+        lotNumber: batch.lotNumber,
+        expirationDate: batch.expirationDate,
+        location: batch.storageLocation,
+      };
+      return Array.from({ length: copies === 'One per unit' ? batch.quantity : 1 }, () => label);
+    });
+
+  const toggle = (batchId: string) => {
+    setSelected(current => current.includes(batchId) ? current.filter(id => id !== batchId) : [...current, batchId]);
+  };
+
+  const handlePrint = () => {
+    if (!template) {
+      toast.error('Enter the label width and height in millimetres');
+      return;
+    }
+    if (labels.length === 0) {
+      toast.error('Select at least one batch with stock to label');
+      return;
+    }
+    if (labels.length > LARGE_PRINT_RUN && !confirm(`This will print ${labels.length} labels. Continue?`)) {
+      return;
+    }
+    try {
+      const doc = renderLabelsPdf(labels, template);
+      doc.save(`labels-${material.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.pdf`);
+      onClose();
+    } catch (error) {
+      console.error('Error generating labels:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to generate labels');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Print Labels</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Each label carries a barcode of the batch, so scanning it when recording usage picks this exact batch.
+          </p>
+          <div className="max-h-64 overflow-y-auto border rounded">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-4 py-2" />
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Lot</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Expiry</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Location</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Quantity</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batches.map(batch => (
+                  <tr key={batch.id} className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700" onClick={() => toggle(batch.id)}>
+                    <td className="px-4 py-2">
+                      <input type="checkbox" checked={selected.includes(batch.id)} onChange={() => toggle(batch.id)} onClick={(e) => e.stopPropagation()} />
+                    </td>
+                    <td className="px-4 py-2 text-sm">{batch.lotNumber || '-'}</td>
+                    <td className="px-4 py-2 text-sm">{new Date(batch.expirationDate).toLocaleDateString()}</td>
+                    <td className="px-4 py-2 text-sm">{batch.storageLocation}</td>
+                    <td className="px-4 py-2 text-sm text-right">{batch.quantity}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Labels</Label>
+              <Select value={copies} onValueChange={(value: string) => setCopies(value as LabelCopies)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LABEL_COPIES.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Label Size</Label>
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LABEL_TEMPLATES.map(t => (
+                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom roll size</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {templateId === 'custom' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="labelWidth">Width (mm)</Label>
+                <Input id="labelWidth" type="number" min={20} value={customWidth} onChange={(e) => setCustomWidth(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="labelHeight">Height (mm)</Label>
+                <Input id="labelHeight" type="number" min={15} value={customHeight} onChange={(e) => setCustomHeight(e.target.value)} />
+              </div>
+            </div>
+          )}
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="button" variant="highlight" onClick={handlePrint} disabled={labels.length === 0}>
+              Generate {labels.length} Label(s)
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
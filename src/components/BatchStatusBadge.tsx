@@ -0,0 +1,19 @@
+'use client';
+
+const statusClasses: Record<string, string> = {
+  Available: 'bg-green-100 text-green-800',
+  Quarantined: 'bg-red-100 text-red-800',
+  Damaged: 'bg-orange-100 text-orange-800',
+  'Expired-Pending-Disposal': 'bg-gray-200 text-gray-800',
+};
+
+export function BatchStatusBadge({ status, reason }: { status: string; reason?: string | null }) {
+  return (
+    <span
+      className={`px-2 py-1 rounded text-xs font-medium ${statusClasses[status] ?? 'bg-gray-100 text-gray-800'}`}
+      title={reason ?? undefined}
+    >
+      {status}
+    </span>
+  );
+}
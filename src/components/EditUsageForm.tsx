@@ -9,6 +9,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { SearchableSelect } from '@/components/ui/searchable-select';
 import { toast } from 'sonner';
 import { Plus, X } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import { PROCEDURE_STATUSES, Procedure } from '@/types/procedure';
 
 interface Material {
   id: string;
@@ -22,6 +24,7 @@ interface Material {
 interface Batch {
   id: string;
   quantity: number;
+  status: string;
   purchaseType: string;
   vendor: { id: string; name: string };
   lotNumber: string;
@@ -40,11 +43,15 @@ interface Physician {
 
 interface UsageRecord {
   id: string;
+  procedureId: string;
+  procedure: Procedure;
   patientName: string;
   patientId: string;
   procedureName: string;
   procedureDate: string;
-  physician: string;
+  physicianId: string | null;
+  physician: { id: string; name: string } | null;
+  legacyPhysician: string | null;
   batchId: string;
   quantity: number;
   batch: {
@@ -75,22 +82,49 @@ interface MaterialUsage {
   batchId: string;
   quantity: number;
   isNew?: boolean; // To track if this is a new material
+  originalBatchId?: string; // Batch and quantity as last saved, for existing records
+  originalQuantity?: number;
+  overrideReason: string;
 }
 
+// Combine the procedure date with an HH:MM time input into an ISO timestamp
+const toDateTime = (date: string, time: string) =>
+  time ? new Date(`${date}T${time}`).toISOString() : null;
+
+const isExpired = (batch: Batch) => new Date(batch.expirationDate) <= new Date();
+
+// Show all batches for the material, not just those with available stock. Held batches
+// are offered only when already in use; expired batches also to users who may override expiry.
+const selectableBatches = (material: Material, canOverrideExpiry: boolean, inUseBatchIds: string[] = []) =>
+  material.batches.filter(batch =>
+    inUseBatchIds.includes(batch.id) ||
+    (batch.status === 'Available' && (!isExpired(batch) || canOverrideExpiry))
+  );
+
+// Format a stored timestamp for an HH:MM time input
+const toTimeInput = (value: string | null) =>
+  value ? new Date(value).toTimeString().slice(0, 5) : '';
+
 interface EditUsageFormProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
   usageRecord: UsageRecord | GroupedUsageRecord | null;
+  canOverrideExpiry?: boolean;
 }
 
-export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditUsageFormProps) {
+export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord, canOverrideExpiry = false }: EditUsageFormProps) {
   const [formData, setFormData] = useState({
     patientName: '',
     patientId: '',
     procedureName: '',
     procedureDate: '',
-    physician: '',
+    physicianId: '',
+    room: '',
+    startTime: '',
+    endTime: '',
+    notes: '',
+    status: 'Completed',
   });
 
   const [materialUsages, setMaterialUsages] = useState<MaterialUsage[]>([]);
@@ -118,7 +152,12 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
         patientId: usageRecord.patientId,
         procedureName: usageRecord.procedureName,
         procedureDate: new Date(usageRecord.procedureDate).toISOString().split('T')[0],
-        physician: usageRecord.physician,
+        physicianId: usageRecord.physicianId || '',
+        room: usageRecord.procedure.room || '',
+        startTime: toTimeInput(usageRecord.procedure.startTime),
+        endTime: toTimeInput(usageRecord.procedure.endTime),
+        notes: usageRecord.procedure.notes || '',
+        status: usageRecord.procedure.status,
       });
 
       const newAvailableBatches: Record<string, Batch[]> = {};
@@ -131,7 +170,10 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
           materialId: record.batch.materialId,
           batchId: record.batchId,
           quantity: record.quantity,
-          isNew: false
+          isNew: false,
+          originalBatchId: record.batchId,
+          originalQuantity: record.quantity,
+          overrideReason: ''
         }));
       } else {
         usages = [{
@@ -140,7 +182,10 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
           materialId: (usageRecord as UsageRecord).batch.materialId,
           batchId: (usageRecord as UsageRecord).batchId,
           quantity: (usageRecord as UsageRecord).quantity,
-          isNew: false
+          isNew: false,
+          originalBatchId: (usageRecord as UsageRecord).batchId,
+          originalQuantity: (usageRecord as UsageRecord).quantity,
+          overrideReason: ''
         }];
       }
 
@@ -149,17 +194,23 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
       usages.forEach(usage => {
         const material = materials.find(m => m.id === usage.materialId);
         if (material) {
-          const now = new Date();
-          // Show all batches for the material, not just those with available stock
-          const available = material.batches.filter(batch => 
-            new Date(batch.expirationDate) > now
+          newAvailableBatches[usage.materialId] = selectableBatches(
+            material,
+            canOverrideExpiry,
+            usages.filter(u => u.materialId === usage.materialId).map(u => u.batchId)
           );
-          newAvailableBatches[usage.materialId] = available;
         }
       });
       setAvailableBatches(newAvailableBatches);
     }
-  }, [usageRecord, isOpen, materials, physicians]);
+  }, [usageRecord, isOpen, materials, physicians, canOverrideExpiry]);
+
+  // Moving onto an expired batch, or drawing more from one, needs a justification
+  const needsExpiryOverride = (usage: MaterialUsage) => {
+    const batch = availableBatches[usage.materialId]?.find(b => b.id === usage.batchId);
+    if (!batch || !isExpired(batch)) return false;
+    return usage.isNew || usage.batchId !== usage.originalBatchId || usage.quantity > (usage.originalQuantity ?? 0);
+  };
 
   const fetchMaterials = async () => {
     try {
@@ -197,7 +248,8 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
       materialId: '', 
       batchId: '', 
       quantity: 1, 
-      isNew: true 
+      isNew: true,
+      overrideReason: ''
     }]);
   };
 
@@ -221,14 +273,13 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
           
           const material = materials.find(m => m.id === value);
           if (material) {
-            const now = new Date();
-            // Show all batches for the material, not just those with available stock
-            const available = material.batches.filter(batch => 
-              new Date(batch.expirationDate) > now
-            );
-            setAvailableBatches(prevBatches => ({ ...prevBatches, [value as string]: available }));
+            setAvailableBatches(prevBatches => ({ ...prevBatches, [value as string]: selectableBatches(material, canOverrideExpiry) }));
           }
         }
+
+        if (field === 'materialId' || field === 'batchId') {
+          updatedItem.overrideReason = '';
+        }
         
         return updatedItem;
       }
@@ -260,12 +311,36 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
         usage.materialId && usage.batchId && usage.quantity > 0
       );
 
-      if (validUsages.length === 0 && deletedUsageIds.length === 0) {
+      if (!usageRecord || (validUsages.length === 0 && deletedUsageIds.length === 0)) {
         toast.error('No changes to save.');
         setLoading(false);
         return;
       }
 
+      if (validUsages.some(usage => needsExpiryOverride(usage) && !usage.overrideReason.trim())) {
+        toast.error('A justification is required to use an expired batch');
+        setLoading(false);
+        return;
+      }
+
+      // Save the procedure header first so every record below picks it up
+      const procedureResponse = await fetch(`/api/usage/procedure/${usageRecord.procedureId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...formData,
+          startTime: toDateTime(formData.procedureDate, formData.startTime),
+          endTime: toDateTime(formData.procedureDate, formData.endTime),
+        }),
+      });
+
+      if (!procedureResponse.ok) {
+        const data = await procedureResponse.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to update procedure. Please try again.');
+        setLoading(false);
+        return;
+      }
+
       const updateAndCreatePromises = validUsages.map(usage => {
         if (usage.isNew) {
           // Create new usage record
@@ -273,9 +348,11 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
-              ...formData,
+              procedureId: usageRecord.procedureId,
+              physicianId: formData.physicianId,
               batchId: usage.batchId,
-              quantity: usage.quantity
+              quantity: usage.quantity,
+              ...(needsExpiryOverride(usage) && { overrideReason: usage.overrideReason })
             }),
           });
         } else {
@@ -284,9 +361,9 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
             method: 'PUT',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
-              ...formData,
               batchId: usage.batchId,
-              quantity: usage.quantity
+              quantity: usage.quantity,
+              ...(needsExpiryOverride(usage) && { overrideReason: usage.overrideReason })
             }),
           });
         }
@@ -338,7 +415,10 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
           materialId: record.batch.materialId,
           batchId: record.batchId,
           quantity: record.quantity,
-          isNew: false
+          isNew: false,
+          originalBatchId: record.batchId,
+          originalQuantity: record.quantity,
+          overrideReason: ''
         }));
         setMaterialUsages(usages);
       } else {
@@ -348,7 +428,10 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
           materialId: (usageRecord as UsageRecord).batch.materialId,
           batchId: (usageRecord as UsageRecord).batchId,
           quantity: (usageRecord as UsageRecord).quantity,
-          isNew: false
+          isNew: false,
+          originalBatchId: (usageRecord as UsageRecord).batchId,
+          originalQuantity: (usageRecord as UsageRecord).quantity,
+          overrideReason: ''
         }]);
       }
     }
@@ -419,8 +502,8 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
           <div>
             <Label htmlFor="physician">Physician *</Label>
             <Select
-              value={formData.physician}
-              onValueChange={(value) => setFormData(prev => ({ ...prev, physician: value }))}
+              value={formData.physicianId}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, physicianId: value }))}
               disabled={physiciansLoading}
             >
               <SelectTrigger>
@@ -428,7 +511,7 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
               </SelectTrigger>
               <SelectContent>
                 {physicians.map((physician) => (
-                  <SelectItem key={physician.id} value={physician.name}>
+                  <SelectItem key={physician.id} value={physician.id}>
                     {physician.name} - {physician.specialization}
                   </SelectItem>
                 ))}
@@ -436,6 +519,67 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
             </Select>
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="room">Room</Label>
+              <Input
+                id="room"
+                value={formData.room}
+                onChange={(e) => setFormData(prev => ({ ...prev, room: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="status">Status</Label>
+              <Select
+                value={formData.status}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, status: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROCEDURE_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {status}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="startTime">Start Time</Label>
+              <Input
+                id="startTime"
+                type="time"
+                value={formData.startTime}
+                onChange={(e) => setFormData(prev => ({ ...prev, startTime: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="endTime">End Time</Label>
+              <Input
+                id="endTime"
+                type="time"
+                value={formData.endTime}
+                onChange={(e) => setFormData(prev => ({ ...prev, endTime: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea
+              id="notes"
+              value={formData.notes}
+              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            />
+          </div>
+
           {/* Materials Section */}
           <div className="space-y-4">
             <div className="flex items-center justify-between">
@@ -492,7 +636,7 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
                         <SelectContent>
                           {availableBatches[usage.materialId]?.map((batch) => (
                             <SelectItem key={batch.id} value={batch.id}>
-                              Qty: {batch.quantity} | {batch.purchaseType} | Vendor: {batch.vendor.name} | Exp: {new Date(batch.expirationDate).toLocaleDateString()}
+                              {isExpired(batch) && 'EXPIRED | '}Qty: {batch.quantity} | {batch.purchaseType} | Vendor: {batch.vendor.name} | Exp: {new Date(batch.expirationDate).toLocaleDateString()}
                               {batch.lotNumber && ` | Lot: ${batch.lotNumber}`}
                             </SelectItem>
                           ))}
@@ -515,6 +659,22 @@ export function EditUsageForm({ isOpen, onClose, onSuccess, usageRecord }: EditU
                     </div>
                   )}
                 </div>
+
+                {needsExpiryOverride(usage) && (
+                  <div>
+                    <Label>Expiry Override Justification *</Label>
+                    <Textarea
+                      value={usage.overrideReason}
+                      onChange={(e) => updateMaterialUsage(index, 'overrideReason', e.target.value)}
+                      placeholder="Why must this expired batch be used?"
+                      rows={2}
+                      required
+                    />
+                    <p className="text-sm text-red-600 mt-1">
+                      This batch has expired. The justification is stored on the usage record.
+                    </p>
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -10,7 +10,9 @@ import {
   DocumentIcon,
   ChartBarIcon,
   CogIcon,
-  UserCircleIcon
+  UserCircleIcon,
+  ExclamationTriangleIcon,
+  ClipboardDocumentCheckIcon
 } from '@heroicons/react/24/outline'
 import { signOut } from 'next-auth/react'
 
@@ -18,6 +20,8 @@ const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: HomeIcon },
   { name: 'Inventory', href: '/inventory', icon: CubeIcon },
   { name: 'Usage', href: '/usage', icon: ClipboardIcon },
+  { name: 'Recalls', href: '/recalls', icon: ExclamationTriangleIcon },
+  { name: 'Stock Takes', href: '/stock-takes', icon: ClipboardDocumentCheckIcon },
   { name: 'Documents', href: '/documents', icon: DocumentIcon },
   { name: 'Analytics', href: '/analytics', icon: ChartBarIcon },
   { name: 'Settings', href: '/settings', icon: CogIcon },
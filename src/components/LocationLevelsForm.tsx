@@ -0,0 +1,155 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { SearchableSelect } from '@/components/ui/searchable-select';
+import { X } from 'lucide-react';
+import { toast } from 'sonner';
+
+export interface LocationLevel {
+  storageLocationId: string;
+  minLevel: number;
+  parLevel: number | null;
+  maxLevel: number | null;
+}
+
+interface LevelDraft {
+  storageLocationId: string;
+  minLevel: string;
+  parLevel: string;
+  maxLevel: string;
+}
+
+interface LocationLevelsFormProps {
+  materialId: string;
+  isOpen: boolean;
+  levels: LocationLevel[];
+  storageLocations: { id: string; path: string }[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const toDraft = (level: LocationLevel): LevelDraft => ({
+  storageLocationId: level.storageLocationId,
+  minLevel: String(level.minLevel),
+  parLevel: level.parLevel?.toString() ?? '',
+  maxLevel: level.maxLevel?.toString() ?? '',
+});
+
+export function LocationLevelsForm({ materialId, isOpen, levels, storageLocations, onClose, onSuccess }: LocationLevelsFormProps) {
+  const [drafts, setDrafts] = useState<LevelDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDrafts(levels.map(toDraft));
+    }
+  }, [isOpen, levels]);
+
+  const updateDraft = (index: number, changes: Partial<LevelDraft>) => {
+    setDrafts(current => current.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleSave = async () => {
+    if (drafts.some(draft => !draft.storageLocationId || draft.minLevel === '')) {
+      toast.error('Select a location and enter a minimum level for each row');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/inventory/${materialId}/levels`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ levels: drafts }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to save stock levels');
+        return;
+      }
+
+      toast.success('Location stock levels saved');
+      onSuccess();
+    } catch (error) {
+      console.error('Error saving stock levels:', error);
+      toast.error('Failed to save stock levels');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Stock Levels by Location</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            A location&apos;s levels cover the stock held in it and in every location inside it.
+            Stock below the minimum raises a low stock alert for that location.
+          </p>
+          {drafts.length > 0 && (
+            <div className="grid grid-cols-[1fr_6rem_6rem_6rem_2rem] gap-2 text-xs font-medium text-gray-500 uppercase">
+              <span>Location</span>
+              <span>Min</span>
+              <span>Par</span>
+              <span>Max</span>
+              <span />
+            </div>
+          )}
+          {drafts.map((draft, index) => (
+            <div key={index} className="grid grid-cols-[1fr_6rem_6rem_6rem_2rem] gap-2 items-center">
+              <SearchableSelect
+                options={storageLocations
+                  .filter(location => location.id === draft.storageLocationId || !drafts.some(d => d.storageLocationId === location.id))
+                  .map(location => ({ value: location.id, label: location.path }))}
+                value={draft.storageLocationId}
+                onValueChange={value => updateDraft(index, { storageLocationId: value })}
+                placeholder="Select a location"
+              />
+              {(['minLevel', 'parLevel', 'maxLevel'] as const).map(level => (
+                <Input
+                  key={level}
+                  type="number"
+                  min={0}
+                  value={draft[level]}
+                  onChange={(e) => updateDraft(index, { [level]: e.target.value })}
+                />
+              ))}
+              <button
+                type="button"
+                className="text-red-500 hover:text-red-700"
+                onClick={() => setDrafts(current => current.filter((_, i) => i !== index))}
+                aria-label="Remove location"
+              >
+                <X size={18} />
+              </button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setDrafts(current => [...current, { storageLocationId: '', minLevel: '', parLevel: '', maxLevel: '' }])}
+          >
+            Add Location
+          </Button>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={loading}>
+            {loading ? 'Saving...' : 'Save Levels'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,15 +4,33 @@ import * as z from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useState } from 'react';
 import { toast } from 'sonner';
+import { DEFAULT_MIN_LEVEL, PURCHASE_UNITS, UNITS_OF_MEASURE } from '@/types/material';
 
 const materialSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   size: z.string().min(1, 'Size is required'),
   brandId: z.string().min(1, 'Brand is required'),
   materialTypeId: z.string().min(1, 'Material type is required'),
+  // Blank levels fall back to the default reorder point
+  minLevel: z.string().regex(/^\d*$/, 'Enter a whole number').optional(),
+  parLevel: z.string().regex(/^\d*$/, 'Enter a whole number').optional(),
+  maxLevel: z.string().regex(/^\d*$/, 'Enter a whole number').optional(),
+  catalogNumber: z.string().optional(),
+  // One GTIN per line or separated by commas
+  gtins: z.string().optional(),
+  unitOfMeasure: z.string().optional(),
+  // Blank when the material is bought one unit at a time
+  purchaseUnit: z.string().optional(),
+  packSize: z.string().regex(/^\d*$/, 'Enter a whole number').optional(),
+  frenchSize: z.string().regex(/^\d*\.?\d*$/, 'Enter a number').optional(),
+  lengthCm: z.string().regex(/^\d*\.?\d*$/, 'Enter a number').optional(),
+  diameterMm: z.string().regex(/^\d*\.?\d*$/, 'Enter a number').optional(),
+  singleUse: z.boolean().optional(),
+  sterile: z.boolean().optional(),
 });
 
 type MaterialFormData = z.infer<typeof materialSchema>;
@@ -54,7 +72,7 @@ export function MaterialForm({
     setValue,
   } = useForm<MaterialFormData>({
     resolver: zodResolver(materialSchema),
-    defaultValues: initialData,
+    defaultValues: { unitOfMeasure: 'Each', singleUse: false, sterile: false, ...initialData },
   });
 
   const onSubmit = async (data: MaterialFormData) => {
@@ -68,8 +86,8 @@ export function MaterialForm({
       });
       
       if (!response.ok) {
-        const errorData = await response.text();
-        throw new Error(errorData || `Failed to ${mode} material`);
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to ${mode} material`);
       }
       
       onSuccess();
@@ -147,6 +165,113 @@ export function MaterialForm({
           <p className="text-sm text-red-500">{errors.materialTypeId.message}</p>
         )}
       </div>
+      <div>
+        <Label>Stock Levels (Optional)</Label>
+        <div className="grid grid-cols-3 gap-2">
+          {(['minLevel', 'parLevel', 'maxLevel'] as const).map((level) => (
+            <div key={level}>
+              <Input
+                id={level}
+                type="number"
+                min={0}
+                placeholder={level === 'minLevel' ? `Min (default ${DEFAULT_MIN_LEVEL})` : level === 'parLevel' ? 'Par' : 'Max'}
+                {...register(level)}
+                className={errors[level] ? 'border-red-500' : ''}
+              />
+              {errors[level] && (
+                <p className="text-sm text-red-500">{errors[level]?.message}</p>
+              )}
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Stock is low below the minimum; reorders top it back up to par.
+        </p>
+      </div>
+      <div>
+        <Label>Catalog (Optional)</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Input id="catalogNumber" placeholder="Reference / catalog no." {...register('catalogNumber')} />
+          </div>
+          <div>
+            <Select
+              onValueChange={(value: string) => setValue('unitOfMeasure', value)}
+              defaultValue={initialData?.unitOfMeasure ?? 'Each'}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Unit of measure" />
+              </SelectTrigger>
+              <SelectContent>
+                {UNITS_OF_MEASURE.map((unit) => (
+                  <SelectItem key={unit} value={unit}>
+                    {unit}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Select
+              onValueChange={(value: string) => setValue('purchaseUnit', value === 'none' ? '' : value)}
+              defaultValue={initialData?.purchaseUnit || 'none'}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Bought in" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Bought singly</SelectItem>
+                {PURCHASE_UNITS.map((unit) => (
+                  <SelectItem key={unit} value={unit}>
+                    Bought by the {unit.toLowerCase()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {([
+            ['packSize', 'Units per box'],
+            ['frenchSize', 'French size (Fr)'],
+            ['lengthCm', 'Length (cm)'],
+            ['diameterMm', 'Diameter (mm)'],
+          ] as const).map(([field, placeholder]) => (
+            <div key={field}>
+              <Input
+                id={field}
+                type="number"
+                min={0}
+                step={field === 'packSize' ? 1 : 'any'}
+                placeholder={placeholder}
+                {...register(field)}
+                className={errors[field] ? 'border-red-500' : ''}
+              />
+              {errors[field] && (
+                <p className="text-sm text-red-500">{errors[field]?.message}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div>
+        <Label htmlFor="gtins">GTINs (Optional)</Label>
+        <Textarea
+          id="gtins"
+          rows={2}
+          placeholder="One per line, as printed under the barcode"
+          {...register('gtins')}
+          className="font-mono"
+        />
+      </div>
+      <div className="flex gap-6">
+        <label className="flex items-center gap-x-2 text-sm">
+          <input type="checkbox" {...register('singleUse')} />
+          Single use
+        </label>
+        <label className="flex items-center gap-x-2 text-sm">
+          <input type="checkbox" {...register('sterile')} />
+          Sterile
+        </label>
+      </div>
       <div className="flex justify-end space-x-2">
         <Button type="button" variant="outline" onClick={onCancel}>
           Cancel
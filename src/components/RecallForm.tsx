@@ -0,0 +1,230 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { SearchableSelect } from '@/components/ui/searchable-select';
+import { toast } from 'sonner';
+
+interface Batch {
+  id: string;
+  quantity: number;
+  lotNumber: string | null;
+  expirationDate: string;
+  storageLocation: string;
+  vendor: { id: string; name: string };
+}
+
+interface Material {
+  id: string;
+  name: string;
+  size: string;
+  brand: { id: string; name: string };
+  batches: Batch[];
+}
+
+interface RecallFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: (recallId: string) => void;
+}
+
+// Lot numbers may be pasted one per line or comma separated
+const parseLotNumbers = (value: string) =>
+  value.split(/[\n,]/).map(lot => lot.trim()).filter(Boolean);
+
+export function RecallForm({ isOpen, onClose, onSuccess }: RecallFormProps) {
+  const [formData, setFormData] = useState({
+    reference: '',
+    materialId: '',
+    lotNumbers: '',
+    reason: '',
+  });
+  const [selectedBatchIds, setSelectedBatchIds] = useState<string[]>([]);
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [materialsLoading, setMaterialsLoading] = useState(true);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchMaterials();
+    }
+  }, [isOpen]);
+
+  const fetchMaterials = async () => {
+    try {
+      const response = await fetch('/api/inventory');
+      if (response.ok) {
+        const data = await response.json();
+        setMaterials(Array.isArray(data.materials) ? data.materials : []);
+      }
+    } catch (error) {
+      console.error('Error fetching materials:', error);
+      toast.error('Failed to fetch materials');
+    } finally {
+      setMaterialsLoading(false);
+    }
+  };
+
+  const selectedMaterial = materials.find(m => m.id === formData.materialId);
+  const lotNumbers = parseLotNumbers(formData.lotNumbers).map(lot => lot.toLowerCase());
+
+  // Batches picked explicitly, plus any whose lot number was typed in
+  const isAffected = (batch: Batch) =>
+    selectedBatchIds.includes(batch.id) || (!!batch.lotNumber && lotNumbers.includes(batch.lotNumber.toLowerCase()));
+
+  const toggleBatch = (batchId: string) => {
+    setSelectedBatchIds(prev =>
+      prev.includes(batchId) ? prev.filter(id => id !== batchId) : [...prev, batchId]
+    );
+  };
+
+  const resetForm = () => {
+    setFormData({ reference: '', materialId: '', lotNumbers: '', reason: '' });
+    setSelectedBatchIds([]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedMaterial?.batches.some(isAffected)) {
+      toast.error('Enter a lot number or select at least one batch');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/recalls', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reference: formData.reference,
+          materialId: formData.materialId,
+          reason: formData.reason,
+          lotNumbers: parseLotNumbers(formData.lotNumbers),
+          batchIds: selectedBatchIds,
+        }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to open recall. Please try again.');
+        return;
+      }
+
+      toast.success(`Recall ${data.reference} opened`);
+      resetForm();
+      onSuccess(data.id);
+    } catch (error) {
+      console.error('Error opening recall:', error);
+      toast.error('Failed to open recall. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const materialOptions = materials.map((material) => ({
+    value: material.id,
+    label: `${material.name} ${material.size && `(${material.size})`} - ${material.brand.name}`
+  }));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Open Recall</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="reference">Recall Reference *</Label>
+              <Input
+                id="reference"
+                value={formData.reference}
+                onChange={(e) => setFormData(prev => ({ ...prev, reference: e.target.value }))}
+                placeholder="Vendor recall notice number"
+                required
+              />
+            </div>
+            <div>
+              <Label>Material *</Label>
+              <SearchableSelect
+                options={materialOptions}
+                value={formData.materialId}
+                onValueChange={(value) => {
+                  setFormData(prev => ({ ...prev, materialId: value }));
+                  setSelectedBatchIds([]);
+                }}
+                placeholder="Select material"
+                disabled={materialsLoading}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="lotNumbers">Lot Numbers</Label>
+            <Textarea
+              id="lotNumbers"
+              value={formData.lotNumbers}
+              onChange={(e) => setFormData(prev => ({ ...prev, lotNumbers: e.target.value }))}
+              placeholder="One per line or comma separated"
+              rows={2}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="reason">Reason</Label>
+            <Textarea
+              id="reason"
+              value={formData.reason}
+              onChange={(e) => setFormData(prev => ({ ...prev, reason: e.target.value }))}
+              rows={2}
+            />
+          </div>
+
+          {selectedMaterial && (
+            <div>
+              <Label>Batches</Label>
+              {selectedMaterial.batches.length === 0 ? (
+                <p className="text-sm text-gray-500 mt-1">This material has no batches.</p>
+              ) : (
+                <div className="mt-1 border rounded divide-y divide-gray-200 dark:divide-gray-700">
+                  {selectedMaterial.batches.map((batch) => (
+                    <label key={batch.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={isAffected(batch)}
+                        // Batches matched by lot number stay selected while the lot is listed
+                        disabled={isAffected(batch) && !selectedBatchIds.includes(batch.id)}
+                        onChange={() => toggleBatch(batch.id)}
+                      />
+                      <span>
+                        Lot: {batch.lotNumber || 'N/A'} | Qty: {batch.quantity} | Exp: {new Date(batch.expirationDate).toLocaleDateString()} | {batch.storageLocation} | Vendor: {batch.vendor.name}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              <p className="text-sm text-gray-500 mt-1">
+                Available batches are quarantined and cannot be used until the recall is closed; batches already on hold keep their status.
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !formData.materialId}>
+              {loading ? 'Opening...' : 'Open Recall'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SearchableSelect } from '@/components/ui/searchable-select';
+import { toast } from 'sonner';
+import { ScanLine } from 'lucide-react';
+import { ScanResult } from '@/types/scan';
+
+interface ScanInputProps {
+  onScan: (result: ScanResult) => void;
+  // Materials an unknown GTIN may be linked to
+  linkOptions: { value: string; label: string }[];
+  placeholder?: string;
+}
+
+// Barcode field for keyboard-wedge scanners, which type the code and press Enter. A GTIN
+// that no material carries yet can be linked to one, after which the scan is resolved again.
+export function ScanInput({ onScan, linkOptions, placeholder = 'Scan a barcode' }: ScanInputProps) {
+  const [code, setCode] = useState('');
+  const [unknown, setUnknown] = useState<{ code: string; gtin: string } | null>(null);
+  const [linkMaterialId, setLinkMaterialId] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const resolve = async (scanned: string) => {
+    const response = await fetch(`/api/scan?code=${encodeURIComponent(scanned)}`);
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to read barcode');
+    }
+    return data as ScanResult;
+  };
+
+  const handleScan = async (scanned: string) => {
+    if (!scanned.trim()) return;
+    setLoading(true);
+    try {
+      const result = await resolve(scanned);
+      if (result.scan.gtin && !result.material) {
+        setUnknown({ code: scanned, gtin: result.scan.gtin });
+        setLinkMaterialId(linkOptions.length === 1 ? linkOptions[0].value : '');
+        return;
+      }
+      setUnknown(null);
+      onScan(result);
+    } catch (error) {
+      console.error('Error reading barcode:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read barcode');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLink = async () => {
+    if (!unknown || !linkMaterialId) return;
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/inventory/${linkMaterialId}/gtins`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ gtin: unknown.gtin }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to link GTIN');
+        return;
+      }
+      toast.success(`GTIN ${unknown.gtin} linked to ${data.name}`);
+      const result = await resolve(unknown.code);
+      setUnknown(null);
+      onScan(result);
+    } catch (error) {
+      console.error('Error linking GTIN:', error);
+      toast.error('Failed to link GTIN');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              // Scanners end with Enter, which must not submit the surrounding form
+              e.preventDefault();
+              handleScan(code);
+              setCode('');
+            }
+          }}
+          placeholder={placeholder}
+          className="pl-9"
+          disabled={loading}
+          autoComplete="off"
+        />
+      </div>
+      {unknown && (
+        <div className="p-3 border border-yellow-300 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg space-y-2">
+          <p className="text-sm">
+            GTIN <span className="font-mono">{unknown.gtin}</span> is not linked to any material. Link it to:
+          </p>
+          <div className="flex flex-col md:flex-row gap-2">
+            <div className="flex-1">
+              <SearchableSelect
+                options={linkOptions}
+                value={linkMaterialId}
+                onValueChange={setLinkMaterialId}
+                placeholder="Select material"
+              />
+            </div>
+            <Button type="button" variant="outline" disabled={!linkMaterialId || loading} onClick={handleLink}>
+              Link
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => setUnknown(null)}>
+              Dismiss
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
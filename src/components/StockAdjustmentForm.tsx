@@ -0,0 +1,145 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { MANUAL_STOCK_ADJUSTMENT_TYPES } from '@/types/batch';
+
+interface StockAdjustmentFormProps {
+  materialId: string;
+  batch: { id: string; quantity: number; lotNumber: string | null } | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Only count corrections can add stock; every other type is a write-off
+const canIncrease = (type: string) => type === 'Count Correction';
+
+export function StockAdjustmentForm({ materialId, batch, onClose, onSuccess }: StockAdjustmentFormProps) {
+  const [type, setType] = useState<string>('Damage');
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const resetForm = () => {
+    setType('Damage');
+    setQuantity('');
+    setReason('');
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!batch) return;
+
+    const amount = parseInt(quantity);
+    if (!amount) {
+      toast.error('Enter a non-zero quantity');
+      return;
+    }
+    if (!canIncrease(type) && amount < 0) {
+      toast.error(`Enter the number of units to remove for ${type}`);
+      return;
+    }
+
+    // Write-offs are entered as positive units removed; count corrections are signed
+    const delta = canIncrease(type) ? amount : -amount;
+    if (batch.quantity + delta < 0) {
+      toast.error(`Only ${batch.quantity} in stock`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/inventory/${materialId}/batches/${batch.id}/adjustments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, quantity: delta, reason }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to adjust stock');
+        return;
+      }
+
+      toast.success(`${type} recorded (${delta > 0 ? '+' : ''}${delta})`);
+      resetForm();
+      onSuccess();
+    } catch (error) {
+      console.error('Error adjusting stock:', error);
+      toast.error('Failed to adjust stock');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!batch} onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Adjust Stock{batch?.lotNumber ? ` - Lot ${batch.lotNumber}` : ''}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Current quantity: <strong>{batch?.quantity}</strong>
+          </p>
+          <div className="space-y-2">
+            <Label>Type *</Label>
+            <Select value={type} onValueChange={setType}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select type" />
+              </SelectTrigger>
+              <SelectContent>
+                {MANUAL_STOCK_ADJUSTMENT_TYPES.map(adjustmentType => (
+                  <SelectItem key={adjustmentType} value={adjustmentType}>{adjustmentType}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adjustmentQuantity">
+              {canIncrease(type) ? 'Quantity change (use a negative number to reduce) *' : 'Units to remove *'}
+            </Label>
+            <Input
+              id="adjustmentQuantity"
+              type="number"
+              min={canIncrease(type) ? undefined : 1}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adjustmentReason">Reason *</Label>
+            <Textarea
+              id="adjustmentReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="What happened to this stock?"
+              required
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : 'Record Adjustment'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { MultiSearchableSelect } from '@/components/ui/searchable-select';
+import { toast } from 'sonner';
+
+interface StockTakeFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: (stockTakeId: string) => void;
+}
+
+export function StockTakeForm({ isOpen, onClose, onSuccess }: StockTakeFormProps) {
+  const [storageLocationIds, setStorageLocationIds] = useState<string[]>([]);
+  const [materialTypeIds, setMaterialTypeIds] = useState<string[]>([]);
+  const [notes, setNotes] = useState('');
+  const [locationOptions, setLocationOptions] = useState<{ id: string; path: string }[]>([]);
+  const [materialTypes, setMaterialTypes] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchFilterOptions();
+    }
+  }, [isOpen]);
+
+  const fetchFilterOptions = async () => {
+    try {
+      const response = await fetch('/api/inventory/filters');
+      if (response.ok) {
+        const data = await response.json();
+        setLocationOptions(data.storageLocations || []);
+        setMaterialTypes(data.materialTypes || []);
+      }
+    } catch (error) {
+      console.error('Error fetching filter options:', error);
+      toast.error('Failed to fetch storage locations');
+    }
+  };
+
+  const resetForm = () => {
+    setStorageLocationIds([]);
+    setMaterialTypeIds([]);
+    setNotes('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (storageLocationIds.length === 0 && materialTypeIds.length === 0) {
+      toast.error('Select at least one storage location or material type');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/stock-takes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ storageLocationIds, materialTypeIds, notes }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to start stock take. Please try again.');
+        return;
+      }
+
+      toast.success(`Stock take ${data.reference} started`);
+      resetForm();
+      onSuccess(data.id);
+    } catch (error) {
+      console.error('Error starting stock take:', error);
+      toast.error('Failed to start stock take. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Start Stock Take</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            The current quantity of every batch in stock that matches the selection is frozen as the expected quantity.
+            Usage can continue to be recorded while the count is in progress. Selecting a room or cabinet includes everything stored inside it.
+          </p>
+          <div>
+            <Label>Storage Locations</Label>
+            <MultiSearchableSelect
+              options={locationOptions.map(location => ({ value: location.id, label: location.path }))}
+              value={storageLocationIds}
+              onValueChange={setStorageLocationIds}
+              placeholder="All storage locations"
+            />
+          </div>
+          <div>
+            <Label>Material Types</Label>
+            <MultiSearchableSelect
+              options={materialTypes.map(type => ({ value: type.id, label: type.name }))}
+              value={materialTypeIds}
+              onValueChange={setMaterialTypeIds}
+              placeholder="All material types"
+            />
+          </div>
+          <div>
+            <Label htmlFor="stockTakeNotes">Notes</Label>
+            <Textarea
+              id="stockTakeNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Starting...' : 'Start Stock Take'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { SearchableSelect } from '@/components/ui/searchable-select';
+import { toast } from 'sonner';
+
+interface StockTransferFormProps {
+  materialId: string;
+  batch: {
+    id: string;
+    quantity: number;
+    lotNumber: string | null;
+    storageLocation: string;
+    storageLocationId: string | null;
+  } | null;
+  storageLocations: { id: string; path: string }[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export function StockTransferForm({ materialId, batch, storageLocations, onClose, onSuccess }: StockTransferFormProps) {
+  const [toLocationId, setToLocationId] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  // Default to moving the whole batch
+  useEffect(() => {
+    setToLocationId('');
+    setQuantity(batch ? String(batch.quantity) : '');
+    setNotes('');
+  }, [batch]);
+
+  const amount = parseInt(quantity);
+  const isSplit = !!batch && amount > 0 && amount < batch.quantity;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!batch) return;
+
+    if (!toLocationId) {
+      toast.error('Select a destination location');
+      return;
+    }
+    if (!amount || amount < 1 || amount > batch.quantity) {
+      toast.error(`Enter a quantity between 1 and ${batch.quantity}`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/inventory/${materialId}/batches/${batch.id}/transfers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ toLocationId, quantity: amount, notes }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to transfer stock');
+        return;
+      }
+
+      const transfer = await response.json();
+      toast.success(`Moved ${amount} to ${transfer.toLocation}`);
+      onSuccess();
+    } catch (error) {
+      console.error('Error transferring stock:', error);
+      toast.error('Failed to transfer stock');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!batch} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Transfer Stock{batch?.lotNumber ? ` - Lot ${batch.lotNumber}` : ''}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Currently <strong>{batch?.quantity}</strong> at <strong>{batch?.storageLocation}</strong>
+          </p>
+          <div className="space-y-2">
+            <Label>Move to *</Label>
+            <SearchableSelect
+              options={storageLocations
+                .filter(location => location.id !== batch?.storageLocationId)
+                .map(location => ({ value: location.id, label: location.path }))}
+              value={toLocationId}
+              onValueChange={setToLocationId}
+              placeholder="Select a storage location"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transferQuantity">Quantity *</Label>
+            <Input
+              id="transferQuantity"
+              type="number"
+              min={1}
+              max={batch?.quantity}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              required
+            />
+            {isSplit && (
+              <p className="text-sm text-amber-700 dark:text-amber-300">
+                {amount} will be split into a new batch at the destination; {batch.quantity - amount} stay where they are.
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transferNotes">Notes</Label>
+            <Textarea
+              id="transferNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Moving...' : 'Transfer'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,17 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { SearchableSelect } from '@/components/ui/searchable-select';
+import { ScanInput } from '@/components/ScanInput';
 import { toast } from 'sonner';
 import { X, Plus } from 'lucide-react';
+import { ScanResult } from '@/types/scan';
 
 interface Material {
   id: string;
@@ -22,6 +25,7 @@ interface Material {
 interface Batch {
   id: string;
   quantity: number;
+  status: string;
   purchaseType: string;
   vendor: { id: string; name: string };
   lotNumber: string;
@@ -42,25 +46,40 @@ interface MaterialUsage {
   materialId: string;
   batchId: string;
   quantity: number;
+  overrideReason: string;
 }
 
+// Batch value for lines the server allocates across batches, earliest expiry first
+const AUTO_ALLOCATE = 'auto';
+
+// Combine the procedure date with an HH:MM time input into an ISO timestamp
+const toDateTime = (date: string, time: string) =>
+  time ? new Date(`${date}T${time}`).toISOString() : null;
+
+const isExpired = (batch: Batch) => new Date(batch.expirationDate) <= new Date();
+
 interface UsageFormProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  canOverrideExpiry?: boolean;
 }
 
-export function UsageForm({ isOpen, onClose, onSuccess }: UsageFormProps) {
+export function UsageForm({ isOpen, onClose, onSuccess, canOverrideExpiry = false }: UsageFormProps) {
   const [formData, setFormData] = useState({
     patientName: '',
     patientId: '',
     procedureName: '',
     procedureDate: new Date().toISOString().split('T')[0],
-    physician: '',
+    physicianId: '',
+    room: '',
+    startTime: '',
+    endTime: '',
+    notes: '',
   });
 
   const [materialUsages, setMaterialUsages] = useState<MaterialUsage[]>([
-    { materialId: '', batchId: '', quantity: 1 }
+    { materialId: '', batchId: '', quantity: 1, overrideReason: '' }
   ]);
 
   const [materials, setMaterials] = useState<Material[]>([]);
@@ -77,6 +96,11 @@ export function UsageForm({ isOpen, onClose, onSuccess }: UsageFormProps) {
     }
   }, [isOpen]);
 
+  // Available batches with stock and not expired, unless the user may override expiry
+  const usableBatches = useCallback((material: Material) => material.batches.filter(batch =>
+    batch.status === 'Available' && batch.quantity > 0 && (canOverrideExpiry || !isExpired(batch))
+  ), [canOverrideExpiry]);
+
   useEffect(() => {
     // Update available batches when material selections change
     const newAvailableBatches: Record<string, Batch[]> = {};
@@ -85,18 +109,13 @@ export function UsageForm({ isOpen, onClose, onSuccess }: UsageFormProps) {
       if (usage.materialId) {
         const material = materials.find(m => m.id === usage.materialId);
         if (material) {
-          // Filter batches with available stock and not expired
-          const now = new Date();
-          const availableBatches = material.batches.filter(batch => 
-            batch.quantity > 0 && new Date(batch.expirationDate) > now
-          );
-          newAvailableBatches[usage.materialId] = availableBatches;
+          newAvailableBatches[usage.materialId] = usableBatches(material);
         }
       }
     });
     
     setAvailableBatches(newAvailableBatches);
-  }, [materialUsages, materials]);
+  }, [materialUsages, materials, usableBatches]);
 
   const fetchMaterials = async () => {
     try {
@@ -144,44 +163,41 @@ export function UsageForm({ isOpen, onClose, onSuccess }: UsageFormProps) {
         return;
       }
 
-      // Create usage records for each material
-      const results = await Promise.allSettled(
-        validUsages.map(usage => 
-          fetch('/api/usage', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              ...formData,
-              batchId: usage.batchId,
-              quantity: usage.quantity
-            }),
-          })
-        )
-      );
+      if (validUsages.some(usage => isExpiredSelection(usage) && !usage.overrideReason.trim())) {
+        toast.error('A justification is required to use an expired batch');
+        setLoading(false);
+        return;
+      }
 
-      const successful = results.filter(result => {
-        if (result.status === 'rejected') return false;
-        const response = result.value;
-        return response.ok || response.status === 201;
-      });
-      
-      const failed = results.filter(result => {
-        if (result.status === 'rejected') return true;
-        const response = result.value;
-        return !response.ok && response.status !== 201;
+      // Record all materials for the procedure in a single request
+      const response = await fetch('/api/usage/procedure', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...formData,
+          startTime: toDateTime(formData.procedureDate, formData.startTime),
+          endTime: toDateTime(formData.procedureDate, formData.endTime),
+          materials: validUsages.map(usage => (usage.batchId === AUTO_ALLOCATE
+            ? { materialId: usage.materialId, quantity: usage.quantity }
+            : {
+                batchId: usage.batchId,
+                quantity: usage.quantity,
+                ...(isExpiredSelection(usage) && { overrideReason: usage.overrideReason })
+              }
+          ))
+        }),
       });
 
-      if (failed.length > 0) {
-        console.error('Some usage records failed to create:', failed);
-        if (successful.length > 0) {
-          toast.warning(`Partially successful: ${successful.length} of ${validUsages.length} materials recorded`);
-        } else {
-          toast.error('Failed to record usage. Please try again.');
-        }
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to record usage. Please try again.');
       } else {
-        toast.success(`Successfully recorded usage for ${validUsages.length} material(s)`);
+        const { allocations } = await response.json();
+        const splitCount = allocations.length - validUsages.length;
+        toast.success(`Successfully recorded usage for ${validUsages.length} material(s)` +
+          (splitCount > 0 ? `, split across ${splitCount} additional batch(es)` : ''));
         onSuccess();
         onClose();
         resetForm();
@@ -200,13 +216,17 @@ export function UsageForm({ isOpen, onClose, onSuccess }: UsageFormProps) {
       patientId: '',
       procedureName: '',
       procedureDate: new Date().toISOString().split('T')[0],
-      physician: '',
+      physicianId: '',
+      room: '',
+      startTime: '',
+      endTime: '',
+      notes: '',
     });
-    setMaterialUsages([{ materialId: '', batchId: '', quantity: 1 }]);
+    setMaterialUsages([{ materialId: '', batchId: '', quantity: 1, overrideReason: '' }]);
   };
 
   const addMaterial = () => {
-    setMaterialUsages(prev => [...prev, { materialId: '', batchId: '', quantity: 1 }]);
+    setMaterialUsages(prev => [...prev, { materialId: '', batchId: '', quantity: 1, overrideReason: '' }]);
   };
 
   const removeMaterial = (index: number) => {
@@ -225,6 +245,10 @@ export function UsageForm({ isOpen, onClose, onSuccess }: UsageFormProps) {
           updatedItem.batchId = '';
           updatedItem.quantity = 1;
         }
+
+        if (field === 'materialId' || field === 'batchId') {
+          updatedItem.overrideReason = '';
+        }
         
         return updatedItem;
       }
@@ -232,13 +256,60 @@ export function UsageForm({ isOpen, onClose, onSuccess }: UsageFormProps) {
     }));
   };
 
+  // A scanned device fills the first empty line, or adds one to a line already using its batch.
+  // The scanned lot picks the batch when it is usable; otherwise the line is auto-allocated.
+  const handleScan = ({ scan, material: scanned, batch }: ScanResult) => {
+    if (!scanned) {
+      toast.error('This barcode has no GTIN; scan the one that identifies the product');
+      return;
+    }
+    const material = materials.find(m => m.id === scanned.id);
+    const batches = material ? usableBatches(material) : [];
+    if (!material || batches.length === 0) {
+      toast.error(`No usable stock of ${scanned.name}`);
+      return;
+    }
+
+    let batchId = AUTO_ALLOCATE;
+    if (batch && batches.some(b => b.id === batch.id)) {
+      batchId = batch.id;
+    } else if (scan.lotNumber) {
+      toast.warning(`Lot ${scan.lotNumber} is not in usable stock; the line will be auto-allocated`);
+    }
+
+    setMaterialUsages(prev => {
+      const existing = prev.findIndex(usage => usage.materialId === material.id && usage.batchId === batchId);
+      if (existing !== -1) {
+        return prev.map((usage, i) => (i === existing ? { ...usage, quantity: usage.quantity + 1 } : usage));
+      }
+      const line = { materialId: material.id, batchId, quantity: 1, overrideReason: '' };
+      const empty = prev.findIndex(usage => !usage.materialId);
+      return empty === -1 ? [...prev, line] : prev.map((usage, i) => (i === empty ? line : usage));
+    });
+    toast.success(`Scanned ${scanned.name}${scanned.size ? ` (${scanned.size})` : ''}`);
+  };
+
+  // Stock available to a line: its batch, or every unexpired batch when auto-allocating
+  const getAvailableQuantity = (usage: MaterialUsage) => {
+    const batches = availableBatches[usage.materialId] || [];
+    if (usage.batchId === AUTO_ALLOCATE) {
+      return batches.filter(batch => !isExpired(batch)).reduce((sum, batch) => sum + batch.quantity, 0);
+    }
+    return batches.find(b => b.id === usage.batchId)?.quantity || 0;
+  };
+
+  const isExpiredSelection = (usage: MaterialUsage) => {
+    const batch = availableBatches[usage.materialId]?.find(b => b.id === usage.batchId);
+    return !!batch && isExpired(batch);
+  };
+
   const handleQuantityChange = (index: number, value: string) => {
     const quantity = parseInt(value);
     const usage = materialUsages[index];
-    const selectedBatch = availableBatches[usage.materialId]?.find(b => b.id === usage.batchId);
+    const available = getAvailableQuantity(usage);
     
-    if (selectedBatch && quantity > selectedBatch.quantity) {
-      toast.error(`Maximum available quantity is ${selectedBatch.quantity}`);
+    if (usage.batchId && quantity > available) {
+      toast.error(`Maximum available quantity is ${available}`);
       return;
     }
     
@@ -247,7 +318,7 @@ export function UsageForm({ isOpen, onClose, onSuccess }: UsageFormProps) {
 
   // Create options for the searchable select
   const materialOptions = Array.isArray(materials)
-    ? materials.filter(material => material.batches.some(batch => batch.quantity > 0))
+    ? materials.filter(material => material.batches.some(batch => batch.status === 'Available' && batch.quantity > 0))
         .map((material) => ({
           value: material.id,
           label: `${material.name} ${material.size && `(${material.size})`} - ${material.brand.name}`
@@ -311,8 +382,8 @@ export function UsageForm({ isOpen, onClose, onSuccess }: UsageFormProps) {
           <div>
             <Label htmlFor="physician">Physician *</Label>
             <Select
-              value={formData.physician}
-              onValueChange={(value) => setFormData(prev => ({ ...prev, physician: value }))}
+              value={formData.physicianId}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, physicianId: value }))}
               disabled={physiciansLoading}
             >
               <SelectTrigger>
@@ -320,7 +391,7 @@ export function UsageForm({ isOpen, onClose, onSuccess }: UsageFormProps) {
               </SelectTrigger>
               <SelectContent>
                 {physicians.map((physician) => (
-                  <SelectItem key={physician.id} value={physician.name}>
+                  <SelectItem key={physician.id} value={physician.id}>
                     {physician.name} - {physician.specialization}
                   </SelectItem>
                 ))}
@@ -328,6 +399,46 @@ export function UsageForm({ isOpen, onClose, onSuccess }: UsageFormProps) {
             </Select>
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="room">Room</Label>
+              <Input
+                id="room"
+                value={formData.room}
+                onChange={(e) => setFormData(prev => ({ ...prev, room: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="startTime">Start Time</Label>
+              <Input
+                id="startTime"
+                type="time"
+                value={formData.startTime}
+                onChange={(e) => setFormData(prev => ({ ...prev, startTime: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="endTime">End Time</Label>
+              <Input
+                id="endTime"
+                type="time"
+                value={formData.endTime}
+                onChange={(e) => setFormData(prev => ({ ...prev, endTime: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea
+              id="notes"
+              value={formData.notes}
+              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            />
+          </div>
+
           {/* Materials Section */}
           <div className="space-y-4">
             <div className="flex items-center justify-between">
@@ -344,6 +455,15 @@ export function UsageForm({ isOpen, onClose, onSuccess }: UsageFormProps) {
               </Button>
             </div>
 
+            <ScanInput
+              onScan={handleScan}
+              linkOptions={materials.map(material => ({
+                value: material.id,
+                label: `${material.name} ${material.size && `(${material.size})`} - ${material.brand.name}`
+              }))}
+              placeholder="Scan a device barcode or batch label to add it"
+            />
+
             {materialUsages.map((usage, index) => (
               <div key={index} className="p-4 border rounded-lg space-y-4">
                 <div className="flex items-center justify-between">
@@ -384,9 +504,12 @@ export function UsageForm({ isOpen, onClose, onSuccess }: UsageFormProps) {
                           <SelectValue placeholder="Select batch (FEFO order)" />
                         </SelectTrigger>
                         <SelectContent>
+                          <SelectItem value={AUTO_ALLOCATE}>
+                            Auto-allocate (earliest expiry first)
+                          </SelectItem>
                           {availableBatches[usage.materialId]?.map((batch) => (
                             <SelectItem key={batch.id} value={batch.id}>
-                              Qty: {batch.quantity} | {batch.purchaseType} | Vendor: {batch.vendor.name} | Exp: {new Date(batch.expirationDate).toLocaleDateString()}
+                              {isExpired(batch) && 'EXPIRED | '}Qty: {batch.quantity} | {batch.purchaseType} | Vendor: {batch.vendor.name} | Exp: {new Date(batch.expirationDate).toLocaleDateString()}
                               {batch.lotNumber && ` | Lot: ${batch.lotNumber}`}
                             </SelectItem>
                           ))}
@@ -401,17 +524,33 @@ export function UsageForm({ isOpen, onClose, onSuccess }: UsageFormProps) {
                       <Input
                         type="number"
                         min="1"
-                        max={availableBatches[usage.materialId]?.find(b => b.id === usage.batchId)?.quantity || 1}
+                        max={getAvailableQuantity(usage) || 1}
                         value={usage.quantity}
                         onChange={(e) => handleQuantityChange(index, e.target.value)}
                         required
                       />
                       <p className="text-sm text-gray-500 mt-1">
-                        Available: {availableBatches[usage.materialId]?.find(b => b.id === usage.batchId)?.quantity || 0} units
+                        Available: {getAvailableQuantity(usage)} units
                       </p>
                     </div>
                   )}
                 </div>
+
+                {isExpiredSelection(usage) && (
+                  <div>
+                    <Label>Expiry Override Justification *</Label>
+                    <Textarea
+                      value={usage.overrideReason}
+                      onChange={(e) => updateMaterialUsage(index, 'overrideReason', e.target.value)}
+                      placeholder="Why must this expired batch be used?"
+                      rows={2}
+                      required
+                    />
+                    <p className="text-sm text-red-600 mt-1">
+                      This batch has expired. The justification is stored on the usage record.
+                    </p>
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -0,0 +1,248 @@
+import { Prisma } from '@prisma/client';
+import { BatchHistoryEvent, StockAdjustmentType } from '@/types/batch';
+
+// The subset of logged usage record values the history needs
+interface UsageLogValues {
+  batchId?: string;
+  quantity?: number;
+  patientName?: string;
+  patientId?: string;
+  procedureName?: string;
+}
+
+// The subset of logged batch values the history needs
+interface BatchLogValues {
+  quantity?: number;
+  initialQuantity?: number;
+}
+
+type HistoryEvent = Omit<BatchHistoryEvent, 'balance'>;
+
+const usageValues = (values: Prisma.JsonValue | null) => (values ?? {}) as UsageLogValues;
+const batchValues = (values: Prisma.JsonValue | null) => (values ?? {}) as BatchLogValues;
+
+const patientOf = (values: UsageLogValues) =>
+  values.patientName ? { name: values.patientName, id: values.patientId ?? '' } : null;
+
+// Rebuilds every change to a batch's quantity, in order, with the balance after each.
+// Usage is replayed from the data log so edited, moved and deleted records are included;
+// any difference left against the stored quantity is reported as an unrecorded change.
+export async function getBatchHistory(db: Prisma.TransactionClient, batchId: string) {
+  const batch = await db.batch.findUnique({
+    where: { id: batchId },
+    include: {
+      addedBy: { select: { username: true } },
+      usageRecords: { include: { user: { select: { username: true } } } },
+      adjustments: { include: { user: { select: { username: true } } } },
+      transfersOut: { where: { split: false }, include: { user: { select: { username: true } } } },
+      transfersIn: { where: { split: true }, include: { user: { select: { username: true } } } }
+    }
+  });
+
+  if (!batch) return null;
+
+  // Usage records that were ever drawn from this batch, including ones since moved or deleted
+  const touchingLogs = await db.dataLog.findMany({
+    where: {
+      tableName: 'UsageRecord',
+      OR: [
+        { oldValues: { path: ['batchId'], equals: batchId } },
+        { newValues: { path: ['batchId'], equals: batchId } }
+      ]
+    },
+    select: { recordId: true }
+  });
+  const recordIds = Array.from(new Set([
+    ...batch.usageRecords.map(record => record.id),
+    ...touchingLogs.map(log => log.recordId)
+  ]));
+
+  const [usageLogs, batchLogs] = await Promise.all([
+    db.dataLog.findMany({
+      where: { tableName: 'UsageRecord', recordId: { in: recordIds } },
+      include: { user: { select: { username: true } } },
+      orderBy: { timestamp: 'asc' }
+    }),
+    db.dataLog.findMany({
+      where: { tableName: 'Batch', recordId: batchId },
+      include: { user: { select: { username: true } } },
+      orderBy: { timestamp: 'asc' }
+    })
+  ]);
+
+  const createLog = batchLogs.find(log => log.action === 'CREATE');
+  const receivedQuantity = batchValues(createLog?.newValues ?? null).quantity ?? batch.initialQuantity;
+
+  // A batch split off by a transfer starts at the transfer rather than the original receipt
+  const splitFrom = batch.transfersIn[0];
+  const created: HistoryEvent = splitFrom
+    ? {
+      id: batch.id,
+      date: splitFrom.createdAt.toISOString(),
+      type: 'Created',
+      description: `Split from a batch at ${splitFrom.fromLocation} and moved to ${splitFrom.toLocation}`,
+      patient: null,
+      procedure: null,
+      quantity: receivedQuantity,
+      user: splitFrom.user.username
+    }
+    : {
+      id: batch.id,
+      date: batch.stockAddedDate.toISOString(),
+      type: 'Created',
+      description: 'Batch received into stock',
+      patient: null,
+      procedure: null,
+      quantity: receivedQuantity,
+      user: batch.addedBy.username
+    };
+
+  const events: HistoryEvent[] = [];
+
+  for (const recordId of recordIds) {
+    const logs = usageLogs.filter(log => log.recordId === recordId);
+    const current = batch.usageRecords.find(record => record.id === recordId);
+    const createRecordLog = logs.find(log => log.action === 'CREATE');
+    const changeLogs = logs.filter(log => log.action !== 'CREATE');
+
+    // The record as first saved: its create log, else the state before its first change
+    const initial: UsageLogValues = createRecordLog
+      ? usageValues(createRecordLog.newValues)
+      : changeLogs.length > 0
+        ? usageValues(changeLogs[0].oldValues)
+        : current ?? {};
+
+    if (initial.batchId === batchId && initial.quantity) {
+      events.push({
+        id: recordId,
+        date: (current?.createdAt ?? createRecordLog?.timestamp ?? changeLogs[0]?.timestamp ?? new Date()).toISOString(),
+        type: 'Usage',
+        description: `${initial.quantity} used`,
+        patient: patientOf(initial),
+        procedure: initial.procedureName ?? null,
+        quantity: -initial.quantity,
+        user: current?.user.username ?? createRecordLog?.user.username ?? null
+      });
+    }
+
+    for (const log of changeLogs) {
+      const before = usageValues(log.oldValues);
+      if (log.action === 'DELETE') {
+        if (before.batchId === batchId && before.quantity) {
+          events.push({
+            id: log.id,
+            date: log.timestamp.toISOString(),
+            type: 'Usage Deleted',
+            description: `Usage record deleted; ${before.quantity} returned to stock`,
+            patient: patientOf(before),
+            procedure: before.procedureName ?? null,
+            quantity: before.quantity,
+            user: log.user.username
+          });
+        }
+        continue;
+      }
+
+      const after = usageValues(log.newValues);
+      const returned = before.batchId === batchId ? before.quantity ?? 0 : 0;
+      const drawn = after.batchId === batchId ? after.quantity ?? 0 : 0;
+      if (returned === drawn) continue;
+
+      const description = before.batchId !== batchId
+        ? `Usage moved onto this batch (${drawn} used)`
+        : after.batchId !== batchId
+          ? `Usage moved to another batch; ${returned} returned to stock`
+          : `Quantity used changed from ${returned} to ${drawn}`;
+
+      events.push({
+        id: log.id,
+        date: log.timestamp.toISOString(),
+        type: 'Usage Edited',
+        description,
+        patient: patientOf(after.patientName ? after : before),
+        procedure: after.procedureName ?? before.procedureName ?? null,
+        quantity: returned - drawn,
+        user: log.user.username
+      });
+    }
+  }
+
+  // Direct quantity edits made on the batch form before they were recorded as adjustments
+  for (const log of batchLogs) {
+    if (log.action !== 'UPDATE') continue;
+    const before = batchValues(log.oldValues);
+    const after = batchValues(log.newValues);
+    if (!('initialQuantity' in before) || before.quantity === undefined || after.quantity === undefined) continue;
+    if (before.quantity === after.quantity) continue;
+
+    events.push({
+      id: log.id,
+      date: log.timestamp.toISOString(),
+      type: 'Quantity Edit',
+      description: `Quantity edited from ${before.quantity} to ${after.quantity}`,
+      patient: null,
+      procedure: null,
+      quantity: after.quantity - before.quantity,
+      user: log.user.username
+    });
+  }
+
+  for (const adjustment of batch.adjustments) {
+    events.push({
+      id: adjustment.id,
+      date: adjustment.createdAt.toISOString(),
+      type: adjustment.type as StockAdjustmentType,
+      description: adjustment.reason || '',
+      patient: null,
+      procedure: null,
+      quantity: adjustment.quantity,
+      user: adjustment.user.username
+    });
+  }
+
+  // Whole-batch moves change the location only; split-offs appear as Transfer adjustments above
+  for (const transfer of batch.transfersOut) {
+    events.push({
+      id: transfer.id,
+      date: transfer.createdAt.toISOString(),
+      type: 'Transfer',
+      description: `Moved from ${transfer.fromLocation} to ${transfer.toLocation}${transfer.notes ? ` - ${transfer.notes}` : ''}`,
+      patient: null,
+      procedure: null,
+      quantity: 0,
+      user: transfer.user.username
+    });
+  }
+
+  events.sort((a, b) => a.date.localeCompare(b.date));
+
+  const ordered = [created, ...events];
+  const recordedBalance = ordered.reduce((sum, event) => sum + event.quantity, 0);
+  const unreconciled = batch.quantity - recordedBalance;
+
+  if (unreconciled !== 0) {
+    ordered.push({
+      id: `${batch.id}-unrecorded`,
+      date: batch.updatedAt.toISOString(),
+      type: 'Unrecorded Change',
+      description: 'Difference between the recorded events and the current quantity',
+      patient: null,
+      procedure: null,
+      quantity: unreconciled,
+      user: null
+    });
+  }
+
+  let balance = 0;
+  const history: BatchHistoryEvent[] = ordered.map(event => {
+    balance += event.quantity;
+    return { ...event, balance };
+  });
+
+  return {
+    events: history,
+    quantity: batch.quantity,
+    initialQuantity: batch.initialQuantity,
+    unreconciled
+  };
+}
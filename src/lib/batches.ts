@@ -0,0 +1,146 @@
+import { Prisma } from '@prisma/client';
+import { logCreate, logUpdate } from './data-logger';
+import { BATCH_STATUSES, BatchStatus, MANUAL_STOCK_ADJUSTMENT_TYPES, StockAdjustmentType } from '@/types/batch';
+
+// Only Available batches may be drawn on for usage
+export const usableBatch = { status: 'Available' } satisfies Prisma.BatchWhereInput;
+
+export function isValidBatchStatus(status: unknown): status is BatchStatus {
+  return BATCH_STATUSES.includes(status as BatchStatus);
+}
+
+// Whether a type may be entered by hand, as opposed to recorded by another operation
+export function isManualStockAdjustmentType(type: unknown): type is StockAdjustmentType {
+  return MANUAL_STOCK_ADJUSTMENT_TYPES.includes(type as StockAdjustmentType);
+}
+
+// Raised inside an adjustment transaction to abort it with a client-facing message
+export class StockAdjustmentError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'StockAdjustmentError';
+    this.status = status;
+  }
+}
+
+export function unavailableBatchMessage(batch: {
+  status: string;
+  statusReason: string | null;
+  lotNumber: string | null;
+  material: { name: string };
+}) {
+  const lot = batch.lotNumber ? ` (lot ${batch.lotNumber})` : '';
+  const reason = batch.statusReason ? `: ${batch.statusReason}` : '';
+  return `${batch.material.name}${lot} is ${batch.status}${reason}. Only Available batches can be used.`;
+}
+
+export async function findOpenRecall(tx: Prisma.TransactionClient, batchId: string) {
+  const recallBatch = await tx.recallBatch.findFirst({
+    where: { batchId, recall: { status: 'Open' } },
+    include: { recall: { select: { id: true, reference: true } } }
+  });
+  return recallBatch?.recall ?? null;
+}
+
+// Sets a batch's status and logs the change in the same transaction
+export async function setBatchStatus(
+  tx: Prisma.TransactionClient,
+  batchId: string,
+  status: BatchStatus,
+  reason: string | null,
+  userId: string
+) {
+  const current = await tx.batch.findUniqueOrThrow({
+    where: { id: batchId },
+    include: { material: { select: { name: true } } }
+  });
+
+  const updated = await tx.batch.update({
+    where: { id: batchId },
+    data: {
+      status,
+      statusReason: reason,
+      statusSetById: userId,
+      statusSetAt: new Date()
+    }
+  });
+
+  await logUpdate(
+    'Batch',
+    batchId,
+    { status: current.status, statusReason: current.statusReason },
+    { status: updated.status, statusReason: updated.statusReason },
+    userId,
+    `Batch status changed for ${current.material.name}${current.lotNumber ? ` (lot ${current.lotNumber})` : ''}: ${current.status} → ${status}${reason ? ` - ${reason}` : ''}`,
+    tx
+  );
+
+  return updated;
+}
+
+export interface StockAdjustmentInput {
+  batchId: string;
+  type: StockAdjustmentType;
+  // Signed change to the batch quantity
+  quantity: number;
+  reason?: string | null;
+  // Document the movement was made under, e.g. the return note of a return to vendor
+  documentId?: string | null;
+  userId: string;
+}
+
+// Applies a quantity delta to a batch through the adjustment ledger. The
+// decrement is conditional so concurrent usage cannot drive stock negative.
+export async function applyStockAdjustment(tx: Prisma.TransactionClient, input: StockAdjustmentInput) {
+  const { batchId, type, quantity, userId } = input;
+  const reason = input.reason?.trim() || null;
+
+  if (!Number.isInteger(quantity) || quantity === 0) {
+    throw new StockAdjustmentError('Adjustment quantity must be a non-zero whole number');
+  }
+
+  const batch = await tx.batch.findUnique({
+    where: { id: batchId },
+    include: { material: { select: { name: true } } }
+  });
+
+  if (!batch) {
+    throw new StockAdjustmentError('Batch not found', 404);
+  }
+
+  const { count } = await tx.batch.updateMany({
+    where: { id: batchId, quantity: { gte: Math.max(0, -quantity) } },
+    data: { quantity: { increment: quantity } }
+  });
+
+  if (count === 0) {
+    throw new StockAdjustmentError(
+      `Cannot remove ${-quantity} from ${batch.material.name}${batch.lotNumber ? ` (lot ${batch.lotNumber})` : ''}; only ${batch.quantity} in stock`
+    );
+  }
+
+  const adjustment = await tx.stockAdjustment.create({
+    data: { batchId, type, quantity, reason, documentId: input.documentId ?? null, userId }
+  });
+
+  await logCreate(
+    'StockAdjustment',
+    adjustment.id,
+    {
+      batchId,
+      type,
+      quantity,
+      reason,
+      documentId: input.documentId ?? null,
+      previousQuantity: batch.quantity,
+      newQuantity: batch.quantity + quantity
+    },
+    userId,
+    `${type} for ${batch.material.name}${batch.lotNumber ? ` (lot ${batch.lotNumber})` : ''}: ${quantity > 0 ? '+' : ''}${quantity}${reason ? ` - ${reason}` : ''}`,
+    tx
+  );
+
+  return adjustment;
+}
@@ -0,0 +1,96 @@
+import { Prisma } from '@prisma/client';
+import { normalizeGtin } from './gs1';
+import { PURCHASE_UNITS, UNITS_OF_MEASURE } from '@/types/material';
+
+export interface CatalogFields {
+  catalogNumber: string | null;
+  gtins: string[];
+  unitOfMeasure: string;
+  packSize: number | null;
+  purchaseUnit: string | null;
+  frenchSize: number | null;
+  lengthCm: number | null;
+  diameterMm: number | null;
+  singleUse: boolean;
+  sterile: boolean;
+}
+
+// GTINs arrive as a list or as text separated by commas, spaces or new lines
+function gtinList(value: unknown) {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string') return value.split(/[\s,;]+/);
+  return [];
+}
+
+function optionalNumber(value: unknown) {
+  if (value === undefined || value === null || value === '') return null;
+  return Number(value);
+}
+
+// Reads the catalog fields of a material from a request body; blank values clear a field
+export function parseCatalogFields(body: Record<string, unknown>): CatalogFields | string {
+  const gtins: string[] = [];
+  for (const raw of gtinList(body.gtins)) {
+    if (!raw.trim()) continue;
+    const gtin = normalizeGtin(raw);
+    if (!gtin) {
+      return `${raw.trim()} is not a valid GTIN`;
+    }
+    if (!gtins.includes(gtin)) gtins.push(gtin);
+  }
+
+  const unitOfMeasure = typeof body.unitOfMeasure === 'string' && body.unitOfMeasure ? body.unitOfMeasure : 'Each';
+  if (!(UNITS_OF_MEASURE as readonly string[]).includes(unitOfMeasure)) {
+    return `Unknown unit of measure: ${unitOfMeasure}`;
+  }
+
+  const packSize = optionalNumber(body.packSize);
+  if (packSize !== null && (!Number.isInteger(packSize) || packSize < 1)) {
+    return 'Pack size must be a whole number of at least 1';
+  }
+
+  const purchaseUnit = typeof body.purchaseUnit === 'string' && body.purchaseUnit ? body.purchaseUnit : null;
+  if (purchaseUnit !== null) {
+    if (!(PURCHASE_UNITS as readonly string[]).includes(purchaseUnit)) {
+      return `Unknown purchase unit: ${purchaseUnit}`;
+    }
+    if (packSize === null || packSize < 2) {
+      return `Enter how many units make up a ${purchaseUnit.toLowerCase()}`;
+    }
+  }
+
+  const dimensions = {
+    frenchSize: optionalNumber(body.frenchSize),
+    lengthCm: optionalNumber(body.lengthCm),
+    diameterMm: optionalNumber(body.diameterMm),
+  };
+  if (Object.values(dimensions).some(value => value !== null && (isNaN(value) || value <= 0))) {
+    return 'French size, length and diameter must be positive numbers';
+  }
+
+  const catalogNumber = typeof body.catalogNumber === 'string' ? body.catalogNumber.trim() : '';
+
+  return {
+    catalogNumber: catalogNumber || null,
+    gtins,
+    unitOfMeasure,
+    packSize,
+    purchaseUnit,
+    ...dimensions,
+    singleUse: body.singleUse === true,
+    sterile: body.sterile === true,
+  };
+}
+
+// The material other than excludeId that already carries one of the GTINs, if any;
+// a GTIN identifies one product, so it can only belong to one material
+export async function findGtinOwner(
+  db: Prisma.TransactionClient,
+  gtins: string[],
+  excludeId?: string
+) {
+  if (gtins.length === 0) return null;
+  return db.material.findFirst({
+    where: { gtins: { hasSome: gtins }, ...(excludeId ? { id: { not: excludeId } } : {}) },
+  });
+}
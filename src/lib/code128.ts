@@ -0,0 +1,64 @@
+// Code 128 symbols as bar/space widths in modules, indexed by symbol value
+const PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const START_B = 104;
+const START_C = 105;
+const CODE_B = 100;
+const CODE_C = 99;
+const STOP = 106;
+
+// Light modules either side of the symbol that a scanner needs to find it
+export const CODE128_QUIET_ZONE = 10;
+
+// Symbol values for the text: code set B, switching to C for runs of at least four digits
+// (or an even run that starts the text), which packs two digits into each symbol
+function symbolValues(text: string) {
+  const values: number[] = [];
+  let codeSet: 'B' | 'C' | null = null;
+  let i = 0;
+  while (i < text.length) {
+    const digits = text.slice(i).match(/^\d+/)?.[0].length ?? 0;
+    const useC = digits >= 4 || (i === 0 && digits >= 2 && digits % 2 === 0 && digits === text.length);
+    if (useC) {
+      const pairs = Math.floor(digits / 2);
+      if (codeSet !== 'C') {
+        values.push(codeSet === null ? START_C : CODE_C);
+        codeSet = 'C';
+      }
+      for (let pair = 0; pair < pairs; pair++) {
+        values.push(Number(text.slice(i, i + 2)));
+        i += 2;
+      }
+      continue;
+    }
+    if (codeSet !== 'B') {
+      values.push(codeSet === null ? START_B : CODE_B);
+      codeSet = 'B';
+    }
+    values.push(text.charCodeAt(i) - 32);
+    i++;
+  }
+  return values;
+}
+
+// Bar and space widths in modules, starting with a bar, for printable ASCII text
+export function encodeCode128(text: string) {
+  if (!text || !/^[\x20-\x7e]+$/.test(text)) {
+    throw new Error('Code 128 labels can only hold printable ASCII text');
+  }
+  const values = symbolValues(text);
+  const checksum = values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) % 103;
+  return [...values, checksum, STOP].flatMap(value => PATTERNS[value].split('').map(Number));
+}
@@ -0,0 +1,248 @@
+import { Prisma } from '@prisma/client';
+import { UnbilledConsignment } from '@/types/consignment';
+import { logCreate, logDelete, logUpdate } from './data-logger';
+import { dailyNumberPrefix, nextDailyNumber } from './numbering';
+
+export class ConsignmentError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ConsignmentError';
+  }
+}
+
+export const consignmentStatementInclude = {
+  vendor: true,
+  invoice: { select: { id: true, documentNumber: true, date: true } },
+  createdBy: { select: { username: true } },
+  usageRecords: {
+    include: {
+      physician: { select: { name: true } },
+      batch: {
+        include: {
+          material: { include: { brand: true, materialType: true } }
+        }
+      }
+    },
+    orderBy: [{ procedureDate: 'asc' }, { patientName: 'asc' }]
+  }
+} satisfies Prisma.ConsignmentStatementInclude;
+
+// A period runs from the start of its first day to the end of its last; dates are YYYY-MM-DD
+export function parsePeriod(from: unknown, to: unknown) {
+  const start = typeof from === 'string' ? new Date(from) : null;
+  const end = typeof to === 'string' ? new Date(to) : null;
+  if (!start || !end || isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new ConsignmentError('Enter the start and end of the billing period');
+  }
+  if (end < start) {
+    throw new ConsignmentError('The period cannot end before it starts');
+  }
+  const endExclusive = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+  return { start, end, endExclusive };
+}
+
+// Advance usage from one vendor's stock that no statement has claimed yet
+export function unbilledUsageWhere(vendorId: string, start: Date, endExclusive: Date): Prisma.UsageRecordWhereInput {
+  return {
+    consignmentStatementId: null,
+    procedureDate: { gte: start, lt: endExclusive },
+    batch: { purchaseType: 'Advance', vendorId }
+  };
+}
+
+export async function getUnbilledConsignment(db: Prisma.TransactionClient): Promise<UnbilledConsignment[]> {
+  const rows = await db.$queryRaw<Array<{
+    vendor_id: string;
+    vendor_name: string;
+    record_count: number;
+    units: number;
+    earliest_date: Date;
+    latest_date: Date;
+  }>>`
+    SELECT
+      v.id AS vendor_id,
+      v.name AS vendor_name,
+      COUNT(ur.id)::int AS record_count,
+      SUM(ur.quantity)::int AS units,
+      MIN(ur."procedureDate") AS earliest_date,
+      MAX(ur."procedureDate") AS latest_date
+    FROM "UsageRecord" ur
+    JOIN "Batch" b ON ur."batchId" = b.id
+    JOIN "Vendor" v ON b."vendorId" = v.id
+    WHERE b."purchaseType" = 'Advance' AND ur."consignmentStatementId" IS NULL
+    GROUP BY v.id, v.name
+    ORDER BY v.name ASC
+  `;
+
+  return rows.map(row => ({
+    vendorId: row.vendor_id,
+    vendorName: row.vendor_name,
+    recordCount: row.record_count,
+    units: row.units,
+    earliestDate: row.earliest_date.toISOString(),
+    latestDate: row.latest_date.toISOString()
+  }));
+}
+
+export async function nextStatementReference(tx: Prisma.TransactionClient, now = new Date()) {
+  const prefix = dailyNumberPrefix('CS', now);
+  const issued = await tx.consignmentStatement.findMany({
+    where: { reference: { startsWith: prefix } },
+    select: { reference: true }
+  });
+  return nextDailyNumber(prefix, issued.map(statement => statement.reference));
+}
+
+// Claims every unbilled Advance usage record of the vendor in the period for a new statement
+export async function createConsignmentStatement(
+  tx: Prisma.TransactionClient,
+  input: { vendorId: string; from: unknown; to: unknown; userId: string }
+) {
+  const { start, end, endExclusive } = parsePeriod(input.from, input.to);
+
+  const vendor = await tx.vendor.findUnique({ where: { id: input.vendorId } });
+  if (!vendor) {
+    throw new ConsignmentError('Vendor not found', 404);
+  }
+
+  const records = await tx.usageRecord.findMany({
+    where: unbilledUsageWhere(vendor.id, start, endExclusive),
+    select: { id: true, quantity: true }
+  });
+  if (records.length === 0) {
+    throw new ConsignmentError(`No unbilled Advance usage from ${vendor.name} in this period`);
+  }
+
+  const statement = await tx.consignmentStatement.create({
+    data: {
+      reference: await nextStatementReference(tx),
+      vendorId: vendor.id,
+      periodStart: start,
+      periodEnd: end,
+      createdById: input.userId
+    }
+  });
+
+  // Only records still unclaimed, so a statement raised at the same time cannot take them twice
+  const { count } = await tx.usageRecord.updateMany({
+    where: { id: { in: records.map(record => record.id) }, consignmentStatementId: null },
+    data: { consignmentStatementId: statement.id }
+  });
+  if (count !== records.length) {
+    throw new ConsignmentError('Some of this usage was claimed by another statement; try again', 409);
+  }
+
+  const units = records.reduce((sum, record) => sum + record.quantity, 0);
+  await logCreate(
+    'ConsignmentStatement',
+    statement.id,
+    {
+      reference: statement.reference,
+      vendorId: vendor.id,
+      periodStart: start,
+      periodEnd: end,
+      usageRecordIds: records.map(record => record.id),
+      units
+    },
+    input.userId,
+    `Consignment statement ${statement.reference} for ${vendor.name}: ${records.length} usage record(s), ${units} unit(s)`,
+    tx
+  );
+
+  return statement;
+}
+
+// Links the vendor's invoice, which marks every usage record on the statement as billed
+export async function markStatementBilled(
+  tx: Prisma.TransactionClient,
+  statementId: string,
+  invoiceId: string,
+  userId: string
+) {
+  const statement = await tx.consignmentStatement.findUnique({
+    where: { id: statementId },
+    include: { vendor: true }
+  });
+  if (!statement) {
+    throw new ConsignmentError('Consignment statement not found', 404);
+  }
+  if (statement.status !== 'Open') {
+    throw new ConsignmentError('This statement has already been billed');
+  }
+
+  const invoice = await tx.document.findUnique({ where: { id: invoiceId } });
+  if (!invoice) {
+    throw new ConsignmentError('Invoice not found', 404);
+  }
+  if (invoice.type !== 'Invoice') {
+    throw new ConsignmentError('Link the vendor\'s invoice, not a document of another type');
+  }
+  if (invoice.vendor && invoice.vendor !== statement.vendor.name) {
+    throw new ConsignmentError(`Invoice ${invoice.documentNumber} is from ${invoice.vendor}, not ${statement.vendor.name}`);
+  }
+  const billedOn = await tx.consignmentStatement.findFirst({ where: { invoiceId } });
+  if (billedOn) {
+    throw new ConsignmentError(`Invoice ${invoice.documentNumber} is already linked to statement ${billedOn.reference}`);
+  }
+
+  const billedAt = new Date();
+  const updated = await tx.consignmentStatement.update({
+    where: { id: statementId },
+    data: { status: 'Billed', invoiceId, billedAt }
+  });
+
+  await logUpdate(
+    'ConsignmentStatement',
+    statementId,
+    { status: statement.status, invoiceId: statement.invoiceId },
+    { status: updated.status, invoiceId, billedAt },
+    userId,
+    `Consignment statement ${statement.reference} billed on invoice ${invoice.documentNumber}`,
+    tx
+  );
+
+  return updated;
+}
+
+// Deletes an open statement and releases its usage records for a later one
+export async function cancelConsignmentStatement(tx: Prisma.TransactionClient, statementId: string, userId: string) {
+  const statement = await tx.consignmentStatement.findUnique({
+    where: { id: statementId },
+    include: { usageRecords: { select: { id: true } } }
+  });
+  if (!statement) {
+    throw new ConsignmentError('Consignment statement not found', 404);
+  }
+  if (statement.status !== 'Open') {
+    throw new ConsignmentError('A billed statement cannot be cancelled');
+  }
+
+  await tx.usageRecord.updateMany({
+    where: { consignmentStatementId: statementId },
+    data: { consignmentStatementId: null }
+  });
+  await tx.consignmentStatement.delete({ where: { id: statementId } });
+
+  await logDelete(
+    'ConsignmentStatement',
+    statementId,
+    {
+      reference: statement.reference,
+      vendorId: statement.vendorId,
+      periodStart: statement.periodStart,
+      periodEnd: statement.periodEnd,
+      usageRecordIds: statement.usageRecords.map(record => record.id)
+    },
+    userId,
+    `Consignment statement ${statement.reference} cancelled; ${statement.usageRecords.length} usage record(s) released`,
+    tx
+  );
+}
+
+// Usage on a statement is what the vendor bills for, so it must not change underneath it
+export function consignmentLockMessage(statement: { reference: string; status: string } | null) {
+  if (!statement) return null;
+  return statement.status === 'Billed'
+    ? `This usage was billed on consignment statement ${statement.reference} and cannot be changed`
+    : `This usage is on consignment statement ${statement.reference}; cancel the statement before changing it`;
+}
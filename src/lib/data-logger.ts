@@ -1,3 +1,4 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from './prisma';
 
 export interface DataLogEntry {
@@ -10,9 +11,12 @@ export interface DataLogEntry {
   description: string;
 }
 
-export async function logDataChange(entry: DataLogEntry) {
+// When a transaction client is passed the entry is written as part of that
+// transaction, and a failure is rethrown so the whole transaction rolls back.
+export async function logDataChange(entry: DataLogEntry, tx?: Prisma.TransactionClient) {
+  const client = tx ?? prisma;
   try {
-    await prisma.dataLog.create({
+    await client.dataLog.create({
       data: {
         action: entry.action,
         tableName: entry.tableName,
@@ -24,6 +28,7 @@ export async function logDataChange(entry: DataLogEntry) {
       },
     });
   } catch (error) {
+    if (tx) throw error;
     console.error('Failed to log data change:', error);
     // Don't throw error to prevent breaking the main operation
   }
@@ -35,7 +40,8 @@ export async function logCreate(
   recordId: string,
   newValues: Record<string, unknown>,
   userId: string,
-  description: string
+  description: string,
+  tx?: Prisma.TransactionClient
 ) {
   await logDataChange({
     action: 'CREATE',
@@ -44,7 +50,7 @@ export async function logCreate(
     newValues,
     userId,
     description,
-  });
+  }, tx);
 }
 
 export async function logUpdate(
@@ -53,7 +59,8 @@ export async function logUpdate(
   oldValues: Record<string, unknown>,
   newValues: Record<string, unknown>,
   userId: string,
-  description: string
+  description: string,
+  tx?: Prisma.TransactionClient
 ) {
   await logDataChange({
     action: 'UPDATE',
@@ -63,7 +70,7 @@ export async function logUpdate(
     newValues,
     userId,
     description,
-  });
+  }, tx);
 }
 
 export async function logDelete(
@@ -71,7 +78,8 @@ export async function logDelete(
   recordId: string,
   oldValues: Record<string, unknown>,
   userId: string,
-  description: string
+  description: string,
+  tx?: Prisma.TransactionClient
 ) {
   await logDataChange({
     action: 'DELETE',
@@ -80,5 +88,5 @@ export async function logDelete(
     oldValues,
     userId,
     description,
-  });
-} 
\ No newline at end of file
+  }, tx);
+}
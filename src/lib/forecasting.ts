@@ -0,0 +1,160 @@
+import { Prisma } from '@prisma/client';
+import { DeliveryBasis, MaterialForecast } from '@/types/forecast';
+
+// Recent consumption is averaged over this many weeks, the latest weighing the most
+export const FORECAST_WEEKS = 12;
+
+// Assumed time from ordering to delivery for a vendor with no purchase orders received yet
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEASON_WINDOW_DAYS = 30;
+
+// Linearly weighted average of weekly usage; weeks before the material was first used do not count
+function weightedWeeklyUsage(weekly: Map<number, number>, weeksOfHistory: number) {
+  const weeks = Math.max(1, Math.min(FORECAST_WEEKS, weeksOfHistory));
+  let total = 0;
+  let weights = 0;
+  for (let weeksAgo = 0; weeksAgo < weeks; weeksAgo++) {
+    const weight = weeks - weeksAgo;
+    total += weight * (weekly.get(weeksAgo) ?? 0);
+    weights += weight;
+  }
+  return total / weights;
+}
+
+// Compares the coming month a year ago with the average month of that year, so a material
+// that always peaks at this time of year is forecast to peak again
+function seasonalFactor(sameWindowLastYear: number, lastYearTotal: number) {
+  if (lastYearTotal <= 0) return null;
+  const factor = (sameWindowLastYear / SEASON_WINDOW_DAYS) / (lastYearTotal / 365);
+  return Math.min(2, Math.max(0.5, factor));
+}
+
+// Forecasts every material used in the last FORECAST_WEEKS weeks: how fast it is used, how
+// long its usable stock lasts, and whether that is long enough for the next delivery. The
+// next delivery is the oldest open purchase order for the material plus its vendor's lead
+// time, or the lead time of its last vendor counted from today when nothing is on order.
+export async function getConsumptionForecast(
+  db: Prisma.TransactionClient,
+  now = new Date()
+): Promise<MaterialForecast[]> {
+  const windowStart = new Date(now.getTime() - FORECAST_WEEKS * 7 * DAY_MS);
+  const yearAgo = new Date(now.getTime() - 365 * DAY_MS);
+  const seasonEnd = new Date(yearAgo.getTime() + SEASON_WINDOW_DAYS * DAY_MS);
+
+  const weeklyRows = await db.$queryRaw<Array<{ material_id: string; weeks_ago: number; units: number }>>`
+    SELECT
+      b."materialId" AS material_id,
+      FLOOR(EXTRACT(EPOCH FROM (${now}::timestamp - ur."procedureDate")) / 604800)::int AS weeks_ago,
+      SUM(ur.quantity)::int AS units
+    FROM "UsageRecord" ur
+    JOIN "Batch" b ON ur."batchId" = b.id
+    WHERE ur."procedureDate" >= ${windowStart} AND ur."procedureDate" <= ${now}
+    GROUP BY 1, 2
+  `;
+  const materialIds = [...new Set(weeklyRows.map(row => row.material_id))];
+  if (materialIds.length === 0) return [];
+
+  const [history, materials, stock, openLines, lastBatches, leadTimes] = await Promise.all([
+    db.$queryRaw<Array<{ material_id: string; first_used: Date; last_year_total: number; same_window_last_year: number }>>`
+      SELECT
+        b."materialId" AS material_id,
+        MIN(ur."procedureDate") AS first_used,
+        COALESCE(SUM(CASE WHEN ur."procedureDate" >= ${yearAgo} THEN ur.quantity END), 0)::int AS last_year_total,
+        COALESCE(SUM(CASE WHEN ur."procedureDate" >= ${yearAgo} AND ur."procedureDate" < ${seasonEnd} THEN ur.quantity END), 0)::int AS same_window_last_year
+      FROM "UsageRecord" ur
+      JOIN "Batch" b ON ur."batchId" = b.id
+      WHERE b."materialId" IN (${Prisma.join(materialIds)})
+      GROUP BY b."materialId"
+    `,
+    db.material.findMany({
+      where: { id: { in: materialIds } },
+      include: { brand: true, materialType: true }
+    }),
+    db.batch.groupBy({
+      by: ['materialId'],
+      where: { materialId: { in: materialIds }, status: 'Available' },
+      _sum: { quantity: true }
+    }),
+    db.purchaseOrderLine.findMany({
+      where: {
+        materialId: { in: materialIds },
+        receivedQuantity: { lt: db.purchaseOrderLine.fields.quantity }
+      },
+      include: { document: { select: { date: true, vendor: true } } },
+      orderBy: { document: { date: 'asc' } }
+    }),
+    db.batch.findMany({
+      where: { materialId: { in: materialIds } },
+      orderBy: { stockAddedDate: 'desc' },
+      distinct: ['materialId'],
+      select: { materialId: true, vendor: { select: { name: true } } }
+    }),
+    // Days from a purchase order to the batches received against it, per vendor
+    db.$queryRaw<Array<{ vendor: string; lead_time_days: number }>>`
+      SELECT
+        d.vendor AS vendor,
+        AVG(EXTRACT(EPOCH FROM (b."stockAddedDate" - d.date)) / 86400)::float AS lead_time_days
+      FROM "BatchDocument" bd
+      JOIN "Document" d ON bd."documentId" = d.id
+      JOIN "Batch" b ON bd."batchId" = b.id
+      WHERE d.type = 'Purchase Order' AND d.vendor IS NOT NULL
+        AND b."parentBatchId" IS NULL AND b."stockAddedDate" >= d.date
+      GROUP BY d.vendor
+    `
+  ]);
+
+  const leadTimeFor = (vendor: string | null) => {
+    const days = leadTimes.find(row => row.vendor === vendor)?.lead_time_days;
+    return days === undefined ? DEFAULT_LEAD_TIME_DAYS : Math.max(1, Math.round(days));
+  };
+
+  const forecasts = materials.map((material): MaterialForecast => {
+    const weekly = new Map(
+      weeklyRows.filter(row => row.material_id === material.id).map(row => [row.weeks_ago, row.units])
+    );
+    const materialHistory = history.find(row => row.material_id === material.id);
+    const firstUsed = materialHistory?.first_used ?? now;
+    const weeksOfHistory = Math.ceil((now.getTime() - firstUsed.getTime()) / (7 * DAY_MS));
+
+    const factor = materialHistory && firstUsed <= yearAgo
+      ? seasonalFactor(materialHistory.same_window_last_year, materialHistory.last_year_total)
+      : null;
+    const weeklyUsage = weightedWeeklyUsage(weekly, weeksOfHistory) * (factor ?? 1);
+    const dailyUsage = weeklyUsage / 7;
+
+    const usableQuantity = stock.find(s => s.materialId === material.id)?._sum.quantity ?? 0;
+    const daysOfCover = dailyUsage > 0 ? usableQuantity / dailyUsage : Infinity;
+    const stockOutDate = new Date(now.getTime() + Math.min(daysOfCover, 3650) * DAY_MS);
+
+    const openLine = openLines.find(line => line.materialId === material.id);
+    const vendor = openLine?.document.vendor ?? lastBatches.find(batch => batch.materialId === material.id)?.vendor.name ?? null;
+    const leadTimeDays = leadTimeFor(vendor);
+    const deliveryBasis: DeliveryBasis = openLine ? 'Open order' : 'If ordered today';
+    const orderedAt = openLine?.document.date ?? now;
+    // An order already past its usual lead time is still expected, just not before today
+    const nextDeliveryDate = new Date(Math.max(orderedAt.getTime() + leadTimeDays * DAY_MS, now.getTime()));
+
+    return {
+      materialId: material.id,
+      name: material.name,
+      size: material.size,
+      brand: material.brand.name,
+      materialType: material.materialType.name,
+      usableQuantity,
+      dailyUsage: Math.round(dailyUsage * 100) / 100,
+      weeklyUsage: Math.round(weeklyUsage * 10) / 10,
+      seasonalFactor: factor === null ? null : Math.round(factor * 100) / 100,
+      daysOfCover: Math.round(Math.min(daysOfCover, 3650)),
+      stockOutDate: stockOutDate.toISOString(),
+      nextDeliveryDate: nextDeliveryDate.toISOString(),
+      deliveryBasis,
+      vendor,
+      leadTimeDays,
+      runsOutBeforeDelivery: stockOutDate < nextDeliveryDate
+    };
+  });
+
+  return forecasts.sort((a, b) => a.daysOfCover - b.daysOfCover || a.name.localeCompare(b.name));
+}
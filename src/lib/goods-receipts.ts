@@ -0,0 +1,179 @@
+import { Prisma } from '@prisma/client';
+import { PURCHASE_TYPES } from '@/types/batch';
+import { OrderLineStatus, ReceiptLine } from '@/types/purchase-order';
+import { logCreate, logUpdate } from './data-logger';
+import { resolveBatchLocation } from './storage-locations';
+import { toBaseUnits, unitConversion } from './units';
+
+export class GoodsReceiptError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'GoodsReceiptError';
+  }
+}
+
+export interface GoodsReceiptInput {
+  documentId: string;
+  // Defaults to the vendor named on the document
+  vendorId?: string | null;
+  lines: ReceiptLine[];
+  userId: string;
+}
+
+export function orderLineStatus(line: { quantity: number; receivedQuantity: number }): OrderLineStatus {
+  if (line.quantity === 0) return 'Unexpected';
+  if (line.receivedQuantity === 0) return 'Pending';
+  if (line.receivedQuantity < line.quantity) return 'Partially Received';
+  return line.receivedQuantity === line.quantity ? 'Received' : 'Over-received';
+}
+
+// Books a delivery against a purchase order or delivery challan: one batch per received lot,
+// each linked to the document. On a purchase order the received quantities are added to its
+// lines, and anything not ordered gets a line of its own so it shows as unexpected.
+// Returns the created batches and a warning for every over-received or unexpected material.
+export async function receiveGoods(tx: Prisma.TransactionClient, input: GoodsReceiptInput) {
+  const { documentId, userId } = input;
+
+  const document = await tx.document.findUnique({
+    where: { id: documentId },
+    include: { orderLines: true }
+  });
+  if (!document) {
+    throw new GoodsReceiptError('Document not found', 404);
+  }
+  if (input.lines.length === 0) {
+    throw new GoodsReceiptError('Enter at least one received line');
+  }
+
+  const vendor = input.vendorId
+    ? await tx.vendor.findUnique({ where: { id: input.vendorId } })
+    : document.vendor
+      ? await tx.vendor.findUnique({ where: { name: document.vendor } })
+      : null;
+  if (!vendor) {
+    throw new GoodsReceiptError('Select the vendor that delivered the goods');
+  }
+
+  const materialIds = [...new Set(input.lines.map(line => line.materialId))];
+  const materials = await tx.material.findMany({
+    where: { id: { in: materialIds } },
+    select: { id: true, name: true, unitOfMeasure: true, purchaseUnit: true, packSize: true }
+  });
+  if (materials.length !== materialIds.length) {
+    throw new GoodsReceiptError('Material not found', 404);
+  }
+
+  for (const line of input.lines) {
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new GoodsReceiptError('Received quantities must be positive whole numbers');
+    }
+    if (!line.lotNumber?.trim()) {
+      throw new GoodsReceiptError('Enter the lot number of every received line');
+    }
+    if (!line.expirationDate || isNaN(new Date(line.expirationDate).getTime())) {
+      throw new GoodsReceiptError('Enter the expiry date of every received line');
+    }
+    if (!(PURCHASE_TYPES as readonly string[]).includes(line.purchaseType)) {
+      throw new GoodsReceiptError('Invalid purchase type');
+    }
+    if (line.unitCost !== undefined && line.unitCost !== null && (isNaN(line.unitCost) || line.unitCost < 0)) {
+      throw new GoodsReceiptError('Unit cost must be a number of zero or more');
+    }
+  }
+
+  // Everything from here on is in base units, the unit stock is kept in
+  const lines = input.lines.map(line => {
+    if (!line.inPurchaseUnits) return line;
+    const material = materials.find(m => m.id === line.materialId)!;
+    return { ...line, ...toBaseUnits(line.quantity, line.unitCost, unitConversion(material)) };
+  });
+
+  const batches = [];
+  for (const line of lines) {
+    const material = materials.find(m => m.id === line.materialId)!;
+    const location = await resolveBatchLocation(tx, line.storageLocationId);
+
+    const batch = await tx.batch.create({
+      data: {
+        materialId: line.materialId,
+        quantity: line.quantity,
+        initialQuantity: line.quantity,
+        expirationDate: new Date(line.expirationDate),
+        vendorId: vendor.id,
+        ...location,
+        purchaseType: line.purchaseType,
+        lotNumber: line.lotNumber.trim(),
+        unitCost: line.unitCost ?? null,
+        addedById: userId,
+        documents: { create: { documentId } }
+      }
+    });
+    batches.push(batch);
+
+    await logCreate(
+      'Batch',
+      batch.id,
+      {
+        quantity: batch.quantity,
+        initialQuantity: batch.initialQuantity,
+        expirationDate: batch.expirationDate,
+        vendorId: batch.vendorId,
+        documentIds: [documentId],
+        storageLocationId: batch.storageLocationId,
+        storageLocation: batch.storageLocation,
+        purchaseType: batch.purchaseType,
+        lotNumber: batch.lotNumber,
+        unitCost: batch.unitCost,
+        materialId: batch.materialId,
+      },
+      userId,
+      `Received batch for material: ${material.name} (Quantity: ${batch.quantity}) against ${document.type} ${document.documentNumber}`,
+      tx
+    );
+  }
+
+  const warnings: string[] = [];
+  if (document.type === 'Purchase Order') {
+    for (const material of materials) {
+      const received = lines
+        .filter(line => line.materialId === material.id)
+        .reduce((sum, line) => sum + line.quantity, 0);
+      const orderLine = document.orderLines.find(line => line.materialId === material.id);
+
+      if (!orderLine) {
+        await tx.purchaseOrderLine.create({
+          data: { documentId, materialId: material.id, quantity: 0, receivedQuantity: received }
+        });
+        warnings.push(`${material.name} was not on the order (${received} received)`);
+        continue;
+      }
+
+      const receivedQuantity = orderLine.receivedQuantity + received;
+      await tx.purchaseOrderLine.update({
+        where: { id: orderLine.id },
+        data: { receivedQuantity }
+      });
+      if (orderLine.quantity > 0 && receivedQuantity > orderLine.quantity) {
+        warnings.push(`${material.name} is over-received: ${receivedQuantity} of ${orderLine.quantity} ordered`);
+      } else if (orderLine.quantity === 0) {
+        warnings.push(`${material.name} was not on the order (${receivedQuantity} received)`);
+      }
+    }
+
+    const updated = await tx.purchaseOrderLine.findMany({ where: { documentId } });
+    const summarize = (rows: { materialId: string; quantity: number; receivedQuantity: number }[]) =>
+      rows.map(({ materialId, quantity, receivedQuantity }) => ({ materialId, quantity, receivedQuantity }));
+
+    await logUpdate(
+      'Document',
+      documentId,
+      { orderLines: summarize(document.orderLines) },
+      { orderLines: summarize(updated) },
+      userId,
+      `Received ${batches.length} batch(es) against purchase order ${document.documentNumber}${warnings.length > 0 ? ` - ${warnings.join('; ')}` : ''}`,
+      tx
+    );
+  }
+
+  return { batches, warnings };
+}
@@ -0,0 +1,149 @@
+import { Gs1Scan } from '@/types/scan';
+
+// Group separator (FNC1) ending a variable-length element; keyboard-wedge scanners send it as
+// ASCII 29 when configured to pass it through
+const GS = '\x1d';
+
+export class Gs1Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Gs1Error';
+  }
+}
+
+// Application identifiers found on medical device labels; length is fixed unless maxLength is set
+const APPLICATION_IDENTIFIERS: Record<string, { length?: number; maxLength?: number }> = {
+  '00': { length: 18 },
+  '01': { length: 14 },
+  '02': { length: 14 },
+  '10': { maxLength: 20 },
+  '11': { length: 6 },
+  '12': { length: 6 },
+  '13': { length: 6 },
+  '15': { length: 6 },
+  '16': { length: 6 },
+  '17': { length: 6 },
+  '21': { maxLength: 20 },
+  '22': { maxLength: 20 },
+  '30': { maxLength: 8 },
+  '37': { maxLength: 8 },
+  '240': { maxLength: 30 },
+  '241': { maxLength: 30 },
+};
+
+function gtinCheckDigitValid(gtin: string) {
+  const digits = gtin.split('').map(Number);
+  const check = digits.pop()!;
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+// GTIN-8, -12 and -13 are stored as GTIN-14 with leading zeros so every form of a code matches
+export function normalizeGtin(value: string) {
+  const gtin = value.trim();
+  if (!/^(\d{8}|\d{12,14})$/.test(gtin) || !gtinCheckDigitValid(gtin)) {
+    return null;
+  }
+  return gtin.padStart(14, '0');
+}
+
+// YYMMDD, where a day of 00 means the last day of the month. The century is the one that
+// puts the year within 49 years back or 50 years ahead of today, as GS1 specifies.
+function parseGs1Date(value: string) {
+  if (!/^\d{6}$/.test(value)) {
+    throw new Gs1Error(`Invalid date ${value} in barcode`);
+  }
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  let day = Number(value.slice(4, 6));
+  const currentYear = new Date().getUTCFullYear();
+  const century = Math.floor(currentYear / 100) * 100;
+  const difference = yy - (currentYear % 100);
+  const year = century + yy + (difference >= 51 ? -100 : difference <= -50 ? 100 : 0);
+  if (month < 1 || month > 12) {
+    throw new Gs1Error(`Invalid date ${value} in barcode`);
+  }
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day > lastDay) {
+    throw new Gs1Error(`Invalid date ${value} in barcode`);
+  }
+  if (day === 0) {
+    day = lastDay;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function readElements(code: string) {
+  const elements = new Map<string, string>();
+
+  // Human-readable form, as printed under the barcode: (01)0884...(17)270131(10)ABC123
+  if (code.startsWith('(')) {
+    for (const match of code.matchAll(/\((\d{2,4})\)([^(]*)/g)) {
+      elements.set(match[1], match[2].trim());
+    }
+    return elements;
+  }
+
+  let position = 0;
+  while (position < code.length) {
+    if (code[position] === GS) {
+      position++;
+      continue;
+    }
+    const ai = [2, 3, 4]
+      .map(length => code.slice(position, position + length))
+      .find(candidate => APPLICATION_IDENTIFIERS[candidate]);
+    if (!ai) {
+      throw new Gs1Error(`Unsupported application identifier at "${code.slice(position, position + 4)}"`);
+    }
+    position += ai.length;
+    const { length, maxLength } = APPLICATION_IDENTIFIERS[ai];
+    let value: string;
+    if (length) {
+      value = code.slice(position, position + length);
+      if (value.length !== length) {
+        throw new Gs1Error(`Barcode ends inside element (${ai})`);
+      }
+    } else {
+      // A variable-length element runs to the next separator, its maximum length or the end
+      const separator = code.indexOf(GS, position);
+      const end = Math.min(separator === -1 ? code.length : separator, position + maxLength!);
+      value = code.slice(position, end);
+    }
+    elements.set(ai, value);
+    position += value.length;
+  }
+  return elements;
+}
+
+// Parses a scanned GS1-128 or GS1 DataMatrix element string, its bracketed human-readable
+// form, or a plain EAN/UPC/GTIN as scanned from a retail barcode
+export function parseGs1(input: string): Gs1Scan {
+  const code = input.trim().replace(/^\][A-Za-z]\d/, '');
+  if (!code) {
+    throw new Gs1Error('Nothing was scanned');
+  }
+
+  const plainGtin = /^\d+$/.test(code) && code.length <= 14 ? normalizeGtin(code) : null;
+  if (plainGtin) {
+    return { gtin: plainGtin, lotNumber: null, expirationDate: null, serialNumber: null };
+  }
+
+  const elements = readElements(code);
+  const rawGtin = elements.get('01') ?? elements.get('02') ?? null;
+  const gtin = rawGtin ? normalizeGtin(rawGtin) : null;
+  if (rawGtin && !gtin) {
+    throw new Gs1Error(`Invalid GTIN ${rawGtin} in barcode`);
+  }
+  if (!gtin && !elements.has('10') && !elements.has('17')) {
+    throw new Gs1Error('The barcode has no GTIN, lot or expiry date');
+  }
+
+  const expiry = elements.get('17');
+  return {
+    gtin,
+    lotNumber: elements.get('10') || null,
+    expirationDate: expiry ? parseGs1Date(expiry) : null,
+    serialNumber: elements.get('21') || null,
+  };
+}
@@ -0,0 +1,96 @@
+import jsPDF from 'jspdf';
+import { BatchLabel, LabelTemplate } from '@/types/labels';
+import { CODE128_QUIET_ZONE, encodeCode128 } from './code128';
+
+const PADDING = 2;
+
+// Narrowest bar, in millimetres, that handheld scanners read reliably
+const MIN_MODULE_WIDTH = 0.19;
+
+// Labels carry the batch's short label number rather than its id, so the barcode stays wide
+// enough to scan on small labels: B1042
+export const batchLabelCode = (labelNumber: number) => `B${labelNumber}`;
+
+export function parseBatchLabelCode(code: string) {
+  const match = code.trim().match(/^B(\d{1,9})$/i);
+  return match ? Number(match[1]) : null;
+}
+
+function formatDate(dateString: string) {
+  const d = new Date(dateString);
+  return isNaN(d.getTime()) ? '' : d.toLocaleDateString('en-GB');
+}
+
+// The widest module the label allows, capped so short codes do not stretch across the label.
+// Nothing is drawn when the bars would be too thin to scan.
+function drawBarcode(doc: jsPDF, text: string, x: number, y: number, width: number, height: number) {
+  const widths = encodeCode128(text);
+  const modules = widths.reduce((sum, w) => sum + w, 0) + 2 * CODE128_QUIET_ZONE;
+  const moduleWidth = Math.min(width / modules, 0.5);
+  if (moduleWidth < MIN_MODULE_WIDTH) return false;
+  let position = x + (width - moduleWidth * modules) / 2 + CODE128_QUIET_ZONE * moduleWidth;
+  widths.forEach((w, index) => {
+    // Even positions are bars, odd positions the spaces between them
+    if (index % 2 === 0) {
+      doc.rect(position, y, w * moduleWidth, height, 'F');
+    }
+    position += w * moduleWidth;
+  });
+  return true;
+}
+
+// First line of text that fits the width, marked when the rest is cut off
+function fit(doc: jsPDF, text: string, width: number) {
+  const [first, ...rest] = doc.splitTextToSize(text, width) as string[];
+  return rest.length > 0 ? `${first.slice(0, -2)}...` : first ?? '';
+}
+
+function drawLabel(doc: jsPDF, label: BatchLabel, x: number, y: number, template: LabelTemplate) {
+  const width = template.width - 2 * PADDING;
+  // Text scales with the label height; a third of the label is left for the barcode
+  const fontSize = Math.max(5, Math.min(10, template.height / 4.5));
+  const lineHeight = fontSize * 0.3528 * 1.15;
+  let line = y + PADDING + lineHeight * 0.8;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(fontSize);
+  doc.text(fit(doc, `${label.material}${label.size ? ` (${label.size})` : ''}`, width), x + PADDING, line);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(fontSize * 0.85);
+  line += lineHeight;
+  doc.text(fit(doc, `Lot: ${label.lotNumber || '-'}   Exp: ${formatDate(label.expirationDate)}`, width), x + PADDING, line);
+  line += lineHeight;
+  doc.text(fit(doc, label.location || '-', width), x + PADDING, line);
+
+  const captionSize = Math.max(4, fontSize * 0.6);
+  const captionHeight = captionSize * 0.3528;
+  const barcodeTop = line + lineHeight * 0.4;
+  const barcodeHeight = y + template.height - PADDING - captionHeight - 0.5 - barcodeTop;
+  if (barcodeHeight > 3) {
+    drawBarcode(doc, label.code, x + PADDING, barcodeTop, width, barcodeHeight);
+    doc.setFontSize(captionSize);
+    doc.text(label.code, x + template.width / 2, y + template.height - PADDING, { align: 'center' });
+  }
+}
+
+// One page per label on a roll, or a grid of labels filling each sheet
+export function renderLabelsPdf(labels: BatchLabel[], template: LabelTemplate) {
+  const { sheet } = template;
+  const landscape = template.width > template.height;
+  const doc = sheet
+    ? new jsPDF({ unit: 'mm', format: sheet.format })
+    : new jsPDF({ unit: 'mm', format: [template.width, template.height], orientation: landscape ? 'landscape' : 'portrait' });
+
+  const perPage = sheet ? sheet.columns * sheet.rows : 1;
+  labels.forEach((label, index) => {
+    const slot = index % perPage;
+    if (index > 0 && slot === 0) {
+      doc.addPage();
+    }
+    const x = sheet ? sheet.marginLeft + (slot % sheet.columns) * (template.width + sheet.gapX) : 0;
+    const y = sheet ? sheet.marginTop + Math.floor(slot / sheet.columns) * (template.height + sheet.gapY) : 0;
+    drawLabel(doc, label, x, y, template);
+  });
+  return doc;
+}
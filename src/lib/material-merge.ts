@@ -0,0 +1,222 @@
+import { Prisma } from '@prisma/client';
+import { DuplicateGroup } from '@/types/material';
+import { logDataChange } from './data-logger';
+
+// Names at least this similar, after normalising, are taken to be the same product
+export const NAME_SIMILARITY_THRESHOLD = 0.8;
+
+export class MaterialMergeError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'MaterialMergeError';
+  }
+}
+
+// Case, punctuation and word order do not tell products apart: "Catheter, Guide" = "guide catheter"
+function normalizeName(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .sort()
+    .join(' ');
+}
+
+const normalizeSize = (size: string | null) => (size ?? '').toLowerCase().replace(/\s+/g, '');
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export function nameSimilarity(a: string, b: string) {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  if (x === y) return 1;
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length, 1);
+}
+
+// Groups materials of the same brand, type and size whose names are alike. A material
+// joins a group when it is similar to any member, so slight variations chain together.
+export async function findDuplicateMaterials(db: Prisma.TransactionClient): Promise<DuplicateGroup[]> {
+  const materials = await db.material.findMany({
+    include: {
+      brand: { select: { name: true } },
+      materialType: { select: { name: true } },
+      batches: { select: { quantity: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const candidates = new Map<string, typeof materials>();
+  for (const material of materials) {
+    const key = `${material.brandId}|${material.materialTypeId}|${normalizeSize(material.size)}`;
+    if (!candidates.has(key)) candidates.set(key, []);
+    candidates.get(key)!.push(material);
+  }
+
+  const groups: DuplicateGroup[] = [];
+  for (const members of candidates.values()) {
+    if (members.length < 2) continue;
+    const remaining = [...members];
+    while (remaining.length > 0) {
+      const group = [remaining.shift()!];
+      let similarity = 1;
+      for (let i = 0; i < group.length; i++) {
+        for (let j = remaining.length - 1; j >= 0; j--) {
+          const score = nameSimilarity(group[i].name, remaining[j].name);
+          if (score >= NAME_SIMILARITY_THRESHOLD) {
+            similarity = Math.min(similarity, score);
+            group.push(...remaining.splice(j, 1));
+          }
+        }
+      }
+      if (group.length < 2) continue;
+      groups.push({
+        brand: group[0].brand.name,
+        materialType: group[0].materialType.name,
+        size: group[0].size,
+        similarity: Math.round(similarity * 100) / 100,
+        materials: group.map(material => ({
+          id: material.id,
+          name: material.name,
+          size: material.size,
+          catalogNumber: material.catalogNumber,
+          batchCount: material.batches.length,
+          quantity: material.batches.reduce((sum, batch) => sum + batch.quantity, 0),
+          createdAt: material.createdAt.toISOString(),
+        })),
+      });
+    }
+  }
+
+  return groups.sort((a, b) => a.brand.localeCompare(b.brand) || a.materials[0].name.localeCompare(b.materials[0].name));
+}
+
+async function mergeSnapshot(tx: Prisma.TransactionClient, id: string) {
+  const material = await tx.material.findUnique({
+    where: { id },
+    include: {
+      batches: { select: { id: true } },
+      recalls: { select: { id: true } },
+      locationLevels: true,
+      orderLines: true,
+    },
+  });
+  if (!material) return null;
+  const { batches, recalls, ...rest } = material;
+  return { ...rest, batchIds: batches.map(b => b.id), recallIds: recalls.map(r => r.id) };
+}
+
+// Folds the duplicate into the survivor: its batches (and so their usage history), recalls,
+// location levels and purchase order lines move across, GTINs are combined, catalog fields
+// the survivor lacks are taken from the duplicate, and the duplicate is deleted. Both
+// materials are logged in full before and after.
+export async function mergeMaterials(
+  tx: Prisma.TransactionClient,
+  { survivorId, duplicateId, userId }: { survivorId: string; duplicateId: string; userId: string }
+) {
+  if (survivorId === duplicateId) {
+    throw new MaterialMergeError('Choose two different materials to merge');
+  }
+  const [survivor, duplicate] = await Promise.all([mergeSnapshot(tx, survivorId), mergeSnapshot(tx, duplicateId)]);
+  if (!survivor || !duplicate) {
+    throw new MaterialMergeError('Material not found', 404);
+  }
+  // The same rule the duplicate finder groups by; merging cannot be undone, so nothing looser is accepted
+  if (
+    survivor.brandId !== duplicate.brandId ||
+    survivor.materialTypeId !== duplicate.materialTypeId ||
+    normalizeSize(survivor.size) !== normalizeSize(duplicate.size)
+  ) {
+    throw new MaterialMergeError('Only materials of the same brand, type and size can be merged');
+  }
+  // Stock is counted in the base unit, so the two must agree on it
+  if (survivor.unitOfMeasure !== duplicate.unitOfMeasure) {
+    throw new MaterialMergeError(
+      `${duplicate.name} is counted in ${duplicate.unitOfMeasure} and ${survivor.name} in ${survivor.unitOfMeasure}; they cannot be merged`
+    );
+  }
+
+  await tx.batch.updateMany({ where: { materialId: duplicateId }, data: { materialId: survivorId } });
+  await tx.recall.updateMany({ where: { materialId: duplicateId }, data: { materialId: survivorId } });
+
+  // The survivor's own levels win where both have levels for a location
+  for (const level of duplicate.locationLevels) {
+    if (survivor.locationLevels.some(l => l.storageLocationId === level.storageLocationId)) {
+      await tx.materialLocationLevel.delete({ where: { id: level.id } });
+    } else {
+      await tx.materialLocationLevel.update({ where: { id: level.id }, data: { materialId: survivorId } });
+    }
+  }
+
+  // A purchase order with both materials on it ends up with one line for the survivor
+  for (const line of duplicate.orderLines) {
+    const existing = survivor.orderLines.find(l => l.documentId === line.documentId);
+    if (existing) {
+      await tx.purchaseOrderLine.update({
+        where: { id: existing.id },
+        data: {
+          quantity: { increment: line.quantity },
+          receivedQuantity: { increment: line.receivedQuantity },
+        },
+      });
+      await tx.purchaseOrderLine.delete({ where: { id: line.id } });
+    } else {
+      await tx.purchaseOrderLine.update({ where: { id: line.id }, data: { materialId: survivorId } });
+    }
+  }
+
+  await tx.material.update({
+    where: { id: survivorId },
+    data: {
+      gtins: [...new Set([...survivor.gtins, ...duplicate.gtins])],
+      catalogNumber: survivor.catalogNumber ?? duplicate.catalogNumber,
+      packSize: survivor.packSize ?? duplicate.packSize,
+      purchaseUnit: survivor.purchaseUnit ?? duplicate.purchaseUnit,
+      frenchSize: survivor.frenchSize ?? duplicate.frenchSize,
+      lengthCm: survivor.lengthCm ?? duplicate.lengthCm,
+      diameterMm: survivor.diameterMm ?? duplicate.diameterMm,
+      minLevel: survivor.minLevel ?? duplicate.minLevel,
+      parLevel: survivor.parLevel ?? duplicate.parLevel,
+      maxLevel: survivor.maxLevel ?? duplicate.maxLevel,
+    },
+  });
+  await tx.material.delete({ where: { id: duplicateId } });
+
+  const merged = (await mergeSnapshot(tx, survivorId))!;
+  const description = `Merged material ${duplicate.name}${duplicate.size ? ` (${duplicate.size})` : ''} into ${survivor.name}${survivor.size ? ` (${survivor.size})` : ''}: ${duplicate.batchIds.length} batch(es) moved`;
+
+  await logDataChange({
+    action: 'UPDATE',
+    tableName: 'Material',
+    recordId: survivorId,
+    oldValues: { survivor, duplicate },
+    newValues: { survivor: merged, mergedFrom: duplicateId },
+    userId,
+    description,
+  }, tx);
+  await logDataChange({
+    action: 'DELETE',
+    tableName: 'Material',
+    recordId: duplicateId,
+    oldValues: duplicate,
+    newValues: { mergedInto: survivorId },
+    userId,
+    description,
+  }, tx);
+
+  return merged;
+}
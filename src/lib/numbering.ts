@@ -0,0 +1,44 @@
+import { Prisma } from '@prisma/client';
+
+// How many times a create is re-run when another request took the same number first
+const NUMBER_ATTEMPTS = 3;
+
+export class NumberConflictError extends Error {
+  constructor(message: string, public status = 409) {
+    super(message);
+    this.name = 'NumberConflictError';
+  }
+}
+
+// Numbers run per day: PO-20251018-1, PO-20251018-2, ...
+export function dailyNumberPrefix(code: string, now = new Date()) {
+  return `${code}-${now.toISOString().slice(0, 10).replace(/-/g, '')}-`;
+}
+
+// One past the highest number issued today, so a deleted record never frees a number
+// that is still held by a later one
+export function nextDailyNumber(prefix: string, issued: string[]) {
+  const highest = issued.reduce((max, number) => {
+    const suffix = Number(number.slice(prefix.length));
+    return Number.isInteger(suffix) ? Math.max(max, suffix) : max;
+  }, 0);
+  return `${prefix}${highest + 1}`;
+}
+
+// Runs a transaction that numbers a new record, running it again when a concurrent request
+// claimed the number first. The unique constraint on `field` is what catches the clash.
+export async function retryOnNumberConflict<T>(field: string, run: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const conflict = error instanceof Prisma.PrismaClientKnownRequestError
+        && error.code === 'P2002'
+        && String(error.meta?.target ?? '').includes(field);
+      if (!conflict) throw error;
+      if (attempt >= NUMBER_ATTEMPTS) {
+        throw new NumberConflictError('Another record was numbered at the same time; try again');
+      }
+    }
+  }
+}
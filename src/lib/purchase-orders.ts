@@ -0,0 +1,277 @@
+import { Prisma, Vendor } from '@prisma/client';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { DEFAULT_MIN_LEVEL } from '@/types/material';
+import { ReorderSuggestion, ReorderSuggestionGroup } from '@/types/purchase-order';
+import { logCreate } from './data-logger';
+import { dailyNumberPrefix, nextDailyNumber } from './numbering';
+import { findLowStock } from './stock-levels';
+import { uploadFile } from './storage';
+import { hasPurchaseUnit, purchaseUnitLabel, unitConversion } from './units';
+
+// Average consumption is taken over this many days of usage records
+export const CONSUMPTION_WINDOW_DAYS = 90;
+
+export class PurchaseOrderError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'PurchaseOrderError';
+  }
+}
+
+export interface PurchaseOrderInput {
+  vendorId: string;
+  // Quantities are in each material's purchase unit
+  lines: { materialId: string; quantity: number }[];
+  notes?: string | null;
+  userId: string;
+}
+
+// Materials below a reorder point with the quantity to order. Ordering brings usable stock
+// up to par, and at least far enough above the minimum to cover a month of average use;
+// locations below their own minimum add what they need to reach their own par.
+export async function getReorderSuggestions(db: Prisma.TransactionClient): Promise<ReorderSuggestionGroup[]> {
+  const rows = await findLowStock(db, { includeOutOfStock: true });
+  const materialIds = [...new Set(rows.map(row => row.material_id))];
+  if (materialIds.length === 0) return [];
+
+  const since = new Date(Date.now() - CONSUMPTION_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const [materials, stock, usage, lastBatches] = await Promise.all([
+    db.material.findMany({
+      where: { id: { in: materialIds } },
+      include: { brand: true, materialType: true }
+    }),
+    db.batch.groupBy({
+      by: ['materialId'],
+      where: { materialId: { in: materialIds }, status: 'Available' },
+      _sum: { quantity: true }
+    }),
+    db.$queryRaw<Array<{ material_id: string; quantity: number }>>`
+      SELECT b."materialId" AS material_id, SUM(u.quantity)::int AS quantity
+      FROM "UsageRecord" u
+      JOIN "Batch" b ON b.id = u."batchId"
+      WHERE b."materialId" IN (${Prisma.join(materialIds)}) AND u."procedureDate" >= ${since}
+      GROUP BY b."materialId"
+    `,
+    db.batch.findMany({
+      where: { materialId: { in: materialIds } },
+      orderBy: { stockAddedDate: 'desc' },
+      distinct: ['materialId'],
+      select: { materialId: true, vendor: { select: { id: true, name: true } } }
+    })
+  ]);
+
+  const groups = new Map<string, ReorderSuggestionGroup>();
+  for (const material of materials) {
+    const materialRows = rows.filter(row => row.material_id === material.id);
+    const usableQuantity = stock.find(s => s.materialId === material.id)?._sum.quantity ?? 0;
+    const used = usage.find(u => u.material_id === material.id)?.quantity ?? 0;
+    const monthlyUsage = Math.round((used / CONSUMPTION_WINDOW_DAYS) * 30 * 10) / 10;
+    const minLevel = material.minLevel ?? DEFAULT_MIN_LEVEL;
+
+    const target = Math.max(material.parLevel ?? minLevel, minLevel + Math.ceil(monthlyUsage));
+    const overallNeed = materialRows.some(row => !row.location_id) ? target - usableQuantity : 0;
+    const locationRows = materialRows.filter(row => row.location_id);
+    const locationNeed = locationRows.reduce(
+      (sum, row) => sum + (row.par_level ?? row.min_level) - row.total_quantity,
+      0
+    );
+
+    const conversion = unitConversion(material);
+    const suggestedQuantity = Math.max(overallNeed, locationNeed, 1);
+    const suggestion: ReorderSuggestion = {
+      materialId: material.id,
+      name: material.name,
+      size: material.size,
+      brand: material.brand.name,
+      materialType: material.materialType.name,
+      usableQuantity,
+      minLevel,
+      parLevel: material.parLevel,
+      monthlyUsage,
+      lowLocations: locationRows.map(row => row.location ?? ''),
+      suggestedQuantity,
+      purchaseUnit: purchaseUnitLabel(conversion),
+      unitsPerPurchaseUnit: conversion.unitsPerPurchaseUnit,
+      suggestedPurchaseQuantity: Math.ceil(suggestedQuantity / conversion.unitsPerPurchaseUnit)
+    };
+
+    const vendor = lastBatches.find(batch => batch.materialId === material.id)?.vendor ?? null;
+    const key = vendor?.id ?? '';
+    if (!groups.has(key)) {
+      groups.set(key, { vendor, suggestions: [] });
+    }
+    groups.get(key)!.suggestions.push(suggestion);
+  }
+
+  // Vendors alphabetically, materials never supplied last
+  return [...groups.values()]
+    .map(group => ({ ...group, suggestions: group.suggestions.sort((a, b) => a.name.localeCompare(b.name)) }))
+    .sort((a, b) => {
+      if (!a.vendor || !b.vendor) return a.vendor ? -1 : b.vendor ? 1 : 0;
+      return a.vendor.name.localeCompare(b.vendor.name);
+    });
+}
+
+export async function nextPurchaseOrderNumber(tx: Prisma.TransactionClient, now = new Date()) {
+  const prefix = dailyNumberPrefix('PO', now);
+  const issued = await tx.document.findMany({
+    where: { documentNumber: { startsWith: prefix } },
+    select: { documentNumber: true }
+  });
+  return nextDailyNumber(prefix, issued.map(document => document.documentNumber));
+}
+
+export function vendorAddressLines(vendor: Vendor) {
+  return [
+    vendor.address,
+    [vendor.city, vendor.state, vendor.postalCode].filter(Boolean).join(', '),
+    vendor.country,
+    vendor.contactPerson && `Attn: ${vendor.contactPerson}`,
+    [vendor.contactPhone, vendor.contactEmail].filter(Boolean).join(' | '),
+    vendor.gstNumber && `GSTIN: ${vendor.gstNumber}`
+  ].filter((line): line is string => !!line);
+}
+
+export function renderPurchaseOrderPdf(order: {
+  number: string;
+  date: Date;
+  vendor: Vendor;
+  lines: { name: string; size: string | null; brand: string; catalogNumber: string | null; quantity: number; unit: string }[];
+  notes: string | null;
+  orderedBy: string;
+}) {
+  const doc = new jsPDF();
+  doc.setFontSize(16);
+  doc.text('Purchase Order', 14, 18);
+  doc.setFontSize(10);
+  doc.text(`PO Number: ${order.number}`, 140, 14);
+  doc.text(`Date: ${order.date.toLocaleDateString()}`, 140, 20);
+
+  doc.setFontSize(11);
+  doc.text('To:', 14, 32);
+  doc.setFontSize(10);
+  const addressLines = [order.vendor.name, ...vendorAddressLines(order.vendor)];
+  doc.text(addressLines, 14, 38);
+
+  const tableStart = 38 + addressLines.length * 5 + 6;
+  autoTable(doc, {
+    startY: tableStart,
+    head: [['#', 'Material', 'Size', 'Brand', 'Catalog No.', 'Quantity', 'Unit']],
+    body: order.lines.map((line, index) => [
+      index + 1,
+      line.name,
+      line.size || '-',
+      line.brand,
+      line.catalogNumber || '-',
+      line.quantity,
+      line.unit
+    ]),
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [49, 46, 129] },
+  });
+
+  // autoTable records where the table ended on the document
+  let y = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  if (order.notes) {
+    doc.text(doc.splitTextToSize(`Notes: ${order.notes}`, 180), 14, y);
+    y += 12;
+  }
+  doc.text(`Ordered by: ${order.orderedBy}`, 14, y);
+  doc.text('Authorised signature: ____________________', 110, y + 16);
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+// Creates a numbered purchase order as a Document with its lines and a generated PDF
+export async function createPurchaseOrder(tx: Prisma.TransactionClient, input: PurchaseOrderInput) {
+  const notes = input.notes?.trim() || null;
+
+  if (input.lines.length === 0) {
+    throw new PurchaseOrderError('Add at least one line to the purchase order');
+  }
+  for (const line of input.lines) {
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new PurchaseOrderError('Order quantities must be positive whole numbers');
+    }
+  }
+  const materialIds = input.lines.map(line => line.materialId);
+  if (new Set(materialIds).size !== materialIds.length) {
+    throw new PurchaseOrderError('A material can only appear once on a purchase order');
+  }
+
+  const [vendor, materials, user] = await Promise.all([
+    tx.vendor.findUnique({ where: { id: input.vendorId } }),
+    tx.material.findMany({ where: { id: { in: materialIds } }, include: { brand: true } }),
+    tx.user.findUniqueOrThrow({ where: { id: input.userId }, select: { username: true } })
+  ]);
+  if (!vendor) {
+    throw new PurchaseOrderError('Vendor not found', 404);
+  }
+  if (materials.length !== materialIds.length) {
+    throw new PurchaseOrderError('Material not found', 404);
+  }
+
+  const date = new Date();
+  const documentNumber = await nextPurchaseOrderNumber(tx, date);
+  const lines = input.lines.map(line => {
+    const material = materials.find(m => m.id === line.materialId)!;
+    const conversion = unitConversion(material);
+    return {
+      materialId: material.id,
+      name: material.name,
+      size: material.size,
+      brand: material.brand.name,
+      catalogNumber: material.catalogNumber,
+      quantity: line.quantity,
+      unit: purchaseUnitLabel(conversion),
+      // Order lines are kept in base units so receipts can be counted against them
+      orderLine: {
+        materialId: material.id,
+        quantity: line.quantity * conversion.unitsPerPurchaseUnit,
+        unit: hasPurchaseUnit(conversion) ? conversion.purchaseUnit : null,
+        unitSize: conversion.unitsPerPurchaseUnit
+      }
+    };
+  });
+
+  // The number is claimed before the PDF is stored, so a clash can never overwrite another order's file
+  const filePath = `purchase-orders/${documentNumber}.pdf`;
+  const document = await tx.document.create({
+    data: {
+      type: 'Purchase Order',
+      documentNumber,
+      date,
+      vendor: vendor.name,
+      filePath,
+      orderLines: {
+        create: lines.map(line => line.orderLine)
+      }
+    }
+  });
+
+  await uploadFile(
+    `${documentNumber}.pdf`,
+    renderPurchaseOrderPdf({ number: documentNumber, date, vendor, lines, notes, orderedBy: user.username }),
+    'purchase-orders'
+  );
+
+  await logCreate(
+    'Document',
+    document.id,
+    {
+      type: document.type,
+      documentNumber,
+      date,
+      vendor: vendor.name,
+      filePath,
+      lines: lines.map(line => line.orderLine),
+      notes
+    },
+    input.userId,
+    `Purchase order ${documentNumber} raised for ${vendor.name}: ${lines.length} line(s)`,
+    tx
+  );
+
+  return document;
+}
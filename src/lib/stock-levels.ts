@@ -0,0 +1,121 @@
+import { Prisma } from '@prisma/client';
+import { DEFAULT_MIN_LEVEL } from '@/types/material';
+import { buildLocationPaths } from './storage-locations';
+
+export interface StockLevels {
+  minLevel: number | null;
+  parLevel: number | null;
+  maxLevel: number | null;
+}
+
+export interface LowStockRow {
+  id: string;
+  material_id: string;
+  material_name: string;
+  size: string | null;
+  material_type: string;
+  brand_name: string;
+  location_id: string | null;
+  location: string | null;
+  total_quantity: number;
+  held_quantity: number;
+  min_level: number;
+  par_level: number | null;
+  reorder_quantity: number | null;
+}
+
+// Reads optional min/par/max levels from a request body; blank values clear a level
+export function parseStockLevels(body: Record<string, unknown>): StockLevels | string {
+  const levels: StockLevels = { minLevel: null, parLevel: null, maxLevel: null };
+
+  for (const key of ['minLevel', 'parLevel', 'maxLevel'] as const) {
+    const value = body[key];
+    if (value === undefined || value === null || value === '') continue;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+      return 'Stock levels must be whole numbers of zero or more';
+    }
+    levels[key] = number;
+  }
+
+  const { minLevel, parLevel, maxLevel } = levels;
+  if (minLevel !== null && parLevel !== null && parLevel < minLevel) {
+    return 'Par level cannot be below the minimum level';
+  }
+  if (maxLevel !== null && (parLevel ?? minLevel ?? 0) > maxLevel) {
+    return 'Maximum level cannot be below the minimum or par level';
+  }
+  return levels;
+}
+
+// Materials whose usable (Available) stock is below their minimum level, overall or at a
+// storage location that has its own levels. Overall alerts skip materials with no stock at
+// all, as before, unless includeOutOfStock is set and the material has its own minimum;
+// a location with levels alerts even when empty, since it needs restocking.
+export async function findLowStock(
+  db: Prisma.TransactionClient,
+  { includeOutOfStock = false }: { includeOutOfStock?: boolean } = {}
+): Promise<LowStockRow[]> {
+  const rows = await db.$queryRaw<Array<Omit<LowStockRow, 'id' | 'location' | 'reorder_quantity'>>>`
+    WITH RECURSIVE location_tree AS (
+      SELECT id AS root_id, id AS location_id FROM "StorageLocation"
+      UNION ALL
+      SELECT t.root_id, l.id FROM location_tree t JOIN "StorageLocation" l ON l."parentId" = t.location_id
+    ),
+    material_stock AS (
+      SELECT
+        m.id AS material_id,
+        NULL::text AS location_id,
+        COALESCE(m."minLevel", ${DEFAULT_MIN_LEVEL}) AS min_level,
+        m."parLevel" AS par_level,
+        COALESCE(SUM(CASE WHEN b.status = 'Available' THEN b.quantity ELSE 0 END), 0) AS total_quantity,
+        COALESCE(SUM(CASE WHEN b.status <> 'Available' THEN b.quantity ELSE 0 END), 0) AS held_quantity
+      FROM "Material" m
+      LEFT JOIN "Batch" b ON m.id = b."materialId"
+      GROUP BY m.id
+      HAVING COALESCE(SUM(CASE WHEN b.status = 'Available' THEN b.quantity ELSE 0 END), 0) < COALESCE(m."minLevel", ${DEFAULT_MIN_LEVEL})
+        AND (SUM(b.quantity) > 0 ${includeOutOfStock ? Prisma.sql`OR m."minLevel" IS NOT NULL` : Prisma.empty})
+    ),
+    location_stock AS (
+      SELECT
+        lvl."materialId" AS material_id,
+        lvl."storageLocationId" AS location_id,
+        lvl."minLevel" AS min_level,
+        lvl."parLevel" AS par_level,
+        COALESCE(SUM(CASE WHEN b.status = 'Available' THEN b.quantity ELSE 0 END), 0) AS total_quantity,
+        COALESCE(SUM(CASE WHEN b.status <> 'Available' THEN b.quantity ELSE 0 END), 0) AS held_quantity
+      FROM "MaterialLocationLevel" lvl
+      JOIN location_tree t ON t.root_id = lvl."storageLocationId"
+      LEFT JOIN "Batch" b ON b."materialId" = lvl."materialId" AND b."storageLocationId" = t.location_id
+      GROUP BY lvl.id
+      HAVING COALESCE(SUM(CASE WHEN b.status = 'Available' THEN b.quantity ELSE 0 END), 0) < lvl."minLevel"
+    )
+    SELECT
+      low.material_id,
+      m.name AS material_name,
+      m.size,
+      mt.name AS material_type,
+      br.name AS brand_name,
+      low.location_id,
+      low.total_quantity::int AS total_quantity,
+      low.held_quantity::int AS held_quantity,
+      low.min_level::int AS min_level,
+      low.par_level::int AS par_level
+    FROM (SELECT * FROM material_stock UNION ALL SELECT * FROM location_stock) low
+    JOIN "Material" m ON m.id = low.material_id
+    JOIN "MaterialType" mt ON m."materialTypeId" = mt.id
+    JOIN "Brand" br ON m."brandId" = br.id
+    ORDER BY low.total_quantity ASC, m.name ASC
+  `;
+
+  const paths = rows.some(row => row.location_id)
+    ? buildLocationPaths(await db.storageLocation.findMany())
+    : new Map<string, string>();
+
+  return rows.map(row => ({
+    ...row,
+    id: row.location_id ? `${row.material_id}:${row.location_id}` : row.material_id,
+    location: row.location_id ? paths.get(row.location_id) ?? null : null,
+    reorder_quantity: row.par_level !== null ? Math.max(row.par_level - row.total_quantity, 0) : null,
+  }));
+}
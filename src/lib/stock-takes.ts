@@ -0,0 +1,98 @@
+import { Prisma } from '@prisma/client';
+import { logDataChange, logUpdate } from './data-logger';
+import { applyStockAdjustment } from './batches';
+import { dailyNumberPrefix, nextDailyNumber } from './numbering';
+
+export const stockTakeInclude = {
+  startedBy: { select: { username: true } },
+  postedBy: { select: { username: true } },
+  lines: {
+    include: {
+      batch: {
+        include: {
+          material: { include: { brand: true, materialType: true } },
+          vendor: true
+        }
+      }
+    },
+    orderBy: [{ batch: { storageLocation: 'asc' } }, { batch: { material: { name: 'asc' } } }]
+  }
+} satisfies Prisma.StockTakeInclude;
+
+export async function nextStockTakeReference(tx: Prisma.TransactionClient, now = new Date()) {
+  const prefix = dailyNumberPrefix('ST', now);
+  const issued = await tx.stockTake.findMany({
+    where: { reference: { startsWith: prefix } },
+    select: { reference: true }
+  });
+  return nextDailyNumber(prefix, issued.map(stockTake => stockTake.reference));
+}
+
+// Counted minus the system quantity when the count was entered; null until counted
+export function lineVariance(line: { countedQuantity: number | null; systemQuantity: number | null }) {
+  if (line.countedQuantity === null || line.systemQuantity === null) return null;
+  return line.countedQuantity - line.systemQuantity;
+}
+
+// Posts every counted variance as a count correction and closes the session.
+// Each counted batch gets one log entry: the adjustment's, or a match record.
+export async function postStockTake(tx: Prisma.TransactionClient, stockTakeId: string, userId: string) {
+  const { count } = await tx.stockTake.updateMany({
+    where: { id: stockTakeId, status: 'In Progress' },
+    data: { status: 'Posted', postedById: userId, postedAt: new Date() }
+  });
+
+  if (count === 0) return null;
+
+  const stockTake = await tx.stockTake.findUniqueOrThrow({
+    where: { id: stockTakeId },
+    include: stockTakeInclude
+  });
+
+  let adjusted = 0;
+  for (const line of stockTake.lines) {
+    const variance = lineVariance(line);
+    if (variance === null) continue;
+
+    if (variance !== 0) {
+      await applyStockAdjustment(tx, {
+        batchId: line.batchId,
+        type: 'Count Correction',
+        quantity: variance,
+        reason: `Stock take ${stockTake.reference}: counted ${line.countedQuantity}, expected ${line.systemQuantity}`,
+        userId
+      });
+      adjusted++;
+    } else {
+      await logDataChange({
+        action: 'UPDATE',
+        tableName: 'Batch',
+        recordId: line.batchId,
+        oldValues: { countedQuantity: null },
+        newValues: { countedQuantity: line.countedQuantity, stockTakeId },
+        userId,
+        description: `Stock take ${stockTake.reference}: ${line.batch.material.name}${line.batch.lotNumber ? ` (lot ${line.batch.lotNumber})` : ''} counted ${line.countedQuantity}, matches system`
+      }, tx);
+    }
+
+    await tx.stockTakeLine.update({
+      where: { id: line.id },
+      data: { adjustment: variance }
+    });
+  }
+
+  await logUpdate(
+    'StockTake',
+    stockTakeId,
+    { status: 'In Progress' },
+    { status: 'Posted', adjustedBatches: adjusted },
+    userId,
+    `Stock take ${stockTake.reference} posted: ${adjusted} batch(es) adjusted`,
+    tx
+  );
+
+  return tx.stockTake.findUniqueOrThrow({
+    where: { id: stockTakeId },
+    include: stockTakeInclude
+  });
+}
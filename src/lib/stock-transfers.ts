@@ -0,0 +1,156 @@
+import { Prisma } from '@prisma/client';
+import { logCreate, logUpdate } from './data-logger';
+import { applyStockAdjustment, StockAdjustmentError } from './batches';
+import { resolveBatchLocation } from './storage-locations';
+
+export interface StockTransferInput {
+  batchId: string;
+  toLocationId: string;
+  // Units to move; the whole batch moves when this is its full quantity
+  quantity: number;
+  notes?: string | null;
+  userId: string;
+}
+
+// Moves stock to another location. Moving the whole batch relocates it; moving part of it
+// splits the units off into a child batch that keeps the lot, expiry, vendor, unit cost, status
+// and documents, and joins any open recall on the original.
+export async function transferBatch(tx: Prisma.TransactionClient, input: StockTransferInput) {
+  const { batchId, quantity, userId } = input;
+  const notes = input.notes?.trim() || null;
+
+  const batch = await tx.batch.findUnique({
+    where: { id: batchId },
+    include: {
+      material: { select: { name: true } },
+      documents: { select: { documentId: true } },
+      recalls: { where: { recall: { status: 'Open' } }, select: { recallId: true, quarantined: true } }
+    }
+  });
+
+  if (!batch) {
+    throw new StockAdjustmentError('Batch not found', 404);
+  }
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new StockAdjustmentError('Transfer quantity must be a positive whole number');
+  }
+  if (quantity > batch.quantity) {
+    throw new StockAdjustmentError(`Cannot transfer ${quantity}; only ${batch.quantity} in stock`);
+  }
+
+  const destination = await resolveBatchLocation(tx, input.toLocationId);
+  if (destination.storageLocationId === batch.storageLocationId) {
+    throw new StockAdjustmentError('The batch is already stored at this location');
+  }
+
+  const label = `${batch.material.name}${batch.lotNumber ? ` (lot ${batch.lotNumber})` : ''}`;
+  const split = quantity < batch.quantity;
+  let toBatchId = batch.id;
+
+  if (split) {
+    await applyStockAdjustment(tx, {
+      batchId,
+      type: 'Transfer',
+      quantity: -quantity,
+      reason: `Moved to ${destination.storageLocation}${notes ? ` - ${notes}` : ''}`,
+      userId
+    });
+
+    const child = await tx.batch.create({
+      data: {
+        materialId: batch.materialId,
+        quantity,
+        initialQuantity: quantity,
+        purchaseType: batch.purchaseType,
+        vendorId: batch.vendorId,
+        expirationDate: batch.expirationDate,
+        ...destination,
+        lotNumber: batch.lotNumber,
+        unitCost: batch.unitCost,
+        stockAddedDate: batch.stockAddedDate,
+        addedById: userId,
+        status: batch.status,
+        statusReason: batch.statusReason,
+        statusSetById: batch.statusSetById,
+        statusSetAt: batch.statusSetAt,
+        parentBatchId: batch.id,
+        documents: {
+          create: batch.documents.map(({ documentId }) => ({ documentId }))
+        },
+        recalls: {
+          create: batch.recalls.map(({ recallId, quarantined }) => ({ recallId, quantityAtRecall: quantity, quarantined }))
+        }
+      }
+    });
+    toBatchId = child.id;
+
+    await logCreate(
+      'Batch',
+      child.id,
+      {
+        quantity: child.quantity,
+        initialQuantity: child.initialQuantity,
+        expirationDate: child.expirationDate,
+        vendorId: child.vendorId,
+        documentIds: batch.documents.map(({ documentId }) => documentId),
+        storageLocationId: child.storageLocationId,
+        storageLocation: child.storageLocation,
+        purchaseType: child.purchaseType,
+        lotNumber: child.lotNumber,
+        unitCost: child.unitCost,
+        materialId: child.materialId,
+        parentBatchId: batch.id,
+      },
+      userId,
+      `Split ${quantity} of ${label} from ${batch.storageLocation} into a new batch at ${destination.storageLocation}`,
+      tx
+    );
+  } else {
+    await tx.batch.update({
+      where: { id: batchId },
+      data: destination
+    });
+
+    await logUpdate(
+      'Batch',
+      batchId,
+      { storageLocationId: batch.storageLocationId, storageLocation: batch.storageLocation },
+      destination,
+      userId,
+      `Moved ${label} from ${batch.storageLocation} to ${destination.storageLocation}`,
+      tx
+    );
+  }
+
+  const transfer = await tx.stockTransfer.create({
+    data: {
+      batchId,
+      toBatchId,
+      split,
+      fromLocation: batch.storageLocation,
+      toLocation: destination.storageLocation,
+      quantity,
+      notes,
+      userId
+    }
+  });
+
+  await logCreate(
+    'StockTransfer',
+    transfer.id,
+    {
+      batchId,
+      toBatchId,
+      split,
+      fromLocation: transfer.fromLocation,
+      toLocation: transfer.toLocation,
+      quantity,
+      notes
+    },
+    userId,
+    `Transferred ${quantity} of ${label} from ${transfer.fromLocation} to ${transfer.toLocation}`,
+    tx
+  );
+
+  return transfer;
+}
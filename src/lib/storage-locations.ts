@@ -0,0 +1,196 @@
+import { Prisma } from '@prisma/client';
+import { logDelete } from './data-logger';
+import { STORAGE_LOCATION_TYPES, StorageLocationType } from '@/types/storage-location';
+
+export const LOCATION_PATH_SEPARATOR = ' / ';
+
+export function isValidStorageLocationType(type: unknown): type is StorageLocationType {
+  return STORAGE_LOCATION_TYPES.includes(type as StorageLocationType);
+}
+
+// Raised when a location cannot be saved, moved or removed, with a client-facing message
+export class StorageLocationError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'StorageLocationError';
+    this.status = status;
+  }
+}
+
+interface LocationNode {
+  id: string;
+  name: string;
+  type: string;
+  parentId: string | null;
+}
+
+// Full "Building / Room / Cabinet / Shelf" path of every location, keyed by id
+export function buildLocationPaths(locations: LocationNode[]) {
+  const byId = new Map(locations.map(location => [location.id, location]));
+  const paths = new Map<string, string>();
+
+  const pathOf = (location: LocationNode, seen: Set<string>): string => {
+    const known = paths.get(location.id);
+    if (known) return known;
+    const parent = location.parentId ? byId.get(location.parentId) : undefined;
+    const path = parent && !seen.has(parent.id)
+      ? `${pathOf(parent, seen.add(location.id))}${LOCATION_PATH_SEPARATOR}${location.name}`
+      : location.name;
+    paths.set(location.id, path);
+    return path;
+  };
+
+  for (const location of locations) pathOf(location, new Set());
+  return paths;
+}
+
+// The location itself and everything nested beneath it
+export function descendantIds(locations: LocationNode[], rootId: string) {
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    for (const location of locations) {
+      if (location.parentId === ids[i] && !ids.includes(location.id)) ids.push(location.id);
+    }
+  }
+  return ids;
+}
+
+export async function getLocationPaths(db: Prisma.TransactionClient) {
+  const locations = await db.storageLocation.findMany();
+  return buildLocationPaths(locations);
+}
+
+// Checks a parent can hold a location of the given type, and that a move would not create a cycle
+export async function validateLocationParent(
+  db: Prisma.TransactionClient,
+  type: StorageLocationType,
+  parentId: string | null,
+  locationId?: string
+) {
+  if (!parentId) return;
+
+  const locations = await db.storageLocation.findMany();
+  const parent = locations.find(location => location.id === parentId);
+  if (!parent) {
+    throw new StorageLocationError('Parent location not found', 404);
+  }
+  if (locationId && descendantIds(locations, locationId).includes(parentId)) {
+    throw new StorageLocationError('A location cannot be moved inside itself');
+  }
+  if (STORAGE_LOCATION_TYPES.indexOf(type) <= STORAGE_LOCATION_TYPES.indexOf(parent.type as StorageLocationType)) {
+    throw new StorageLocationError(`A ${type} cannot be placed inside a ${parent.type}`);
+  }
+}
+
+// The id and full path to store on a batch; batches keep the path so lists and exports need no joins
+export async function resolveBatchLocation(db: Prisma.TransactionClient, storageLocationId: unknown) {
+  if (typeof storageLocationId !== 'string' || !storageLocationId) {
+    throw new StorageLocationError('Storage location is required');
+  }
+  const paths = await getLocationPaths(db);
+  const path = paths.get(storageLocationId);
+  if (!path) {
+    throw new StorageLocationError('Storage location not found', 404);
+  }
+  return { storageLocationId, storageLocation: path };
+}
+
+// Rewrites the stored path on every batch at or below a location after it is renamed or moved
+export async function refreshBatchLocationPaths(tx: Prisma.TransactionClient, locationId: string) {
+  const locations = await tx.storageLocation.findMany();
+  const paths = buildLocationPaths(locations);
+
+  for (const id of descendantIds(locations, locationId)) {
+    await tx.batch.updateMany({
+      where: { storageLocationId: id },
+      data: { storageLocation: paths.get(id) }
+    });
+  }
+}
+
+// Names are unique among siblings, ignoring case, so near-duplicates are not recreated
+export async function assertUniqueLocationName(
+  db: Prisma.TransactionClient,
+  name: string,
+  parentId: string | null,
+  locationId?: string
+) {
+  const sibling = await db.storageLocation.findFirst({
+    where: {
+      parentId,
+      name: { equals: name, mode: 'insensitive' },
+      ...(locationId && { id: { not: locationId } })
+    }
+  });
+  if (sibling) {
+    throw new StorageLocationError(`A location named "${sibling.name}" already exists here`);
+  }
+}
+
+// Moves every batch and child location from one location into another, then removes it.
+// Used to fold duplicates such as "CL S2" into "Cath Lab / Shelf 2".
+export async function mergeStorageLocation(
+  tx: Prisma.TransactionClient,
+  sourceId: string,
+  targetId: string,
+  userId: string
+) {
+  if (sourceId === targetId) {
+    throw new StorageLocationError('A location cannot be merged into itself');
+  }
+
+  const locations = await tx.storageLocation.findMany();
+  const paths = buildLocationPaths(locations);
+  const source = locations.find(location => location.id === sourceId);
+  const target = locations.find(location => location.id === targetId);
+  if (!source || !target) {
+    throw new StorageLocationError('Storage location not found', 404);
+  }
+  if (descendantIds(locations, sourceId).includes(targetId)) {
+    throw new StorageLocationError('A location cannot be merged into one of its own sub-locations');
+  }
+
+  const children = locations.filter(location => location.parentId === sourceId);
+  for (const child of children) {
+    await validateLocationParent(tx, child.type as StorageLocationType, targetId);
+    await assertUniqueLocationName(tx, child.name, targetId);
+  }
+
+  await tx.storageLocation.updateMany({
+    where: { parentId: sourceId },
+    data: { parentId: targetId }
+  });
+  const moved = await tx.batch.updateMany({
+    where: { storageLocationId: sourceId },
+    data: { storageLocationId: targetId }
+  });
+  // Stock levels set at both locations keep the target's; the rest move across
+  const targetLevels = await tx.materialLocationLevel.findMany({
+    where: { storageLocationId: targetId },
+    select: { materialId: true }
+  });
+  await tx.materialLocationLevel.updateMany({
+    where: { storageLocationId: sourceId, materialId: { notIn: targetLevels.map(level => level.materialId) } },
+    data: { storageLocationId: targetId }
+  });
+  await tx.storageLocation.delete({ where: { id: sourceId } });
+  await refreshBatchLocationPaths(tx, targetId);
+
+  await logDelete(
+    'StorageLocation',
+    sourceId,
+    {
+      name: source.name,
+      type: source.type,
+      parentId: source.parentId,
+      mergedIntoId: targetId,
+    },
+    userId,
+    `Merged storage location ${paths.get(sourceId)} into ${paths.get(targetId)} (${moved.count} batch(es), ${children.length} sub-location(s) moved)`,
+    tx
+  );
+
+  return { batchCount: moved.count, childCount: children.length };
+}
@@ -0,0 +1,46 @@
+// Stock is always stored and used in a material's base unit (unitOfMeasure); a material
+// bought in boxes has a purchase unit holding packSize base units.
+export interface UnitConversion {
+  baseUnit: string;
+  purchaseUnit: string;
+  unitsPerPurchaseUnit: number;
+}
+
+export function unitConversion(material: {
+  unitOfMeasure: string;
+  purchaseUnit: string | null;
+  packSize: number | null;
+}): UnitConversion {
+  if (material.purchaseUnit && material.packSize && material.packSize > 1) {
+    return { baseUnit: material.unitOfMeasure, purchaseUnit: material.purchaseUnit, unitsPerPurchaseUnit: material.packSize };
+  }
+  return { baseUnit: material.unitOfMeasure, purchaseUnit: material.unitOfMeasure, unitsPerPurchaseUnit: 1 };
+}
+
+export const hasPurchaseUnit = (conversion: UnitConversion) => conversion.unitsPerPurchaseUnit > 1;
+
+// "Box of 10", or just the base unit when the material is bought one at a time
+export function purchaseUnitLabel(conversion: UnitConversion) {
+  return hasPurchaseUnit(conversion)
+    ? `${conversion.purchaseUnit} of ${conversion.unitsPerPurchaseUnit}`
+    : conversion.baseUnit;
+}
+
+// A quantity counted in purchase units, with its unit cost per purchase unit, in base units
+export function toBaseUnits(quantity: number, unitCost: number | null | undefined, conversion: UnitConversion) {
+  const factor = conversion.unitsPerPurchaseUnit;
+  return {
+    quantity: quantity * factor,
+    unitCost: unitCost === null || unitCost === undefined ? unitCost : Math.round((unitCost / factor) * 10000) / 10000,
+  };
+}
+
+// Whole purchase units of a base quantity, with any loose units left over: "3 Box + 4 Each"
+export function formatInPurchaseUnits(quantity: number, conversion: UnitConversion) {
+  if (!hasPurchaseUnit(conversion)) return `${quantity} ${conversion.baseUnit}`;
+  const packs = Math.trunc(quantity / conversion.unitsPerPurchaseUnit);
+  const loose = quantity - packs * conversion.unitsPerPurchaseUnit;
+  if (loose === 0) return `${packs} ${conversion.purchaseUnit}`;
+  if (packs === 0) return `${loose} ${conversion.baseUnit}`;
+  return `${packs} ${conversion.purchaseUnit} + ${loose} ${conversion.baseUnit}`;
+}
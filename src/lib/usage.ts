@@ -0,0 +1,386 @@
+import { Prisma } from '@prisma/client';
+import { logCreate, logDataChange } from './data-logger';
+import { unavailableBatchMessage, usableBatch } from './batches';
+import { PROCEDURE_STATUSES, ProcedureStatus } from '@/types/procedure';
+
+export interface ProcedureDetails {
+  patientName: string;
+  patientId: string;
+  procedureName: string;
+  procedureDate: string | Date;
+  physicianId: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  room?: string | null;
+  notes?: string | null;
+  status?: string;
+}
+
+// The procedure fields copied onto each usage record
+export type UsageProcedure = Pick<ProcedureDetails, 'patientName' | 'patientId' | 'procedureName' | 'procedureDate'> & {
+  id: string;
+  physicianId: string | null;
+};
+
+export interface UsageLine {
+  batchId: string;
+  quantity: number;
+  // Justification for drawing on an expired batch (Override Expiry permission)
+  overrideReason?: string;
+}
+
+// A line where the server picks the batches (FEFO) instead of the client
+export interface AllocationRequest {
+  materialId: string;
+  quantity: number;
+  overrideReason?: string;
+}
+
+export type UsageItem = UsageLine | AllocationRequest;
+
+export interface Allocation {
+  materialId: string;
+  batchId: string;
+  lotNumber: string | null;
+  expirationDate: Date;
+  quantity: number;
+  expired: boolean;
+}
+
+// Raised inside a usage transaction to abort it with a client-facing message
+export class UsageError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'UsageError';
+    this.status = status;
+  }
+}
+
+export const usageRecordInclude = {
+  procedure: { include: { physician: { select: { id: true, name: true } } } },
+  physician: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  batch: {
+    include: {
+      material: {
+        include: {
+          brand: true,
+          materialType: true
+        }
+      },
+      vendor: true
+    }
+  },
+  user: {
+    select: {
+      username: true
+    }
+  }
+} satisfies Prisma.UsageRecordInclude;
+
+export function isValidProcedureStatus(status: unknown): status is ProcedureStatus {
+  return PROCEDURE_STATUSES.includes(status as ProcedureStatus);
+}
+
+export function isValidUsageLine(line: unknown): line is UsageLine {
+  if (!line || typeof line !== 'object') return false;
+  const { batchId, quantity, overrideReason } = line as Record<string, unknown>;
+  return typeof batchId === 'string' && batchId !== '' &&
+    Number.isInteger(quantity) && (quantity as number) > 0 &&
+    (overrideReason === undefined || typeof overrideReason === 'string');
+}
+
+export function isValidAllocationRequest(line: unknown): line is AllocationRequest {
+  if (!line || typeof line !== 'object') return false;
+  const { materialId, quantity, overrideReason } = line as Record<string, unknown>;
+  return typeof materialId === 'string' && materialId !== '' &&
+    Number.isInteger(quantity) && (quantity as number) > 0 &&
+    (overrideReason === undefined || typeof overrideReason === 'string');
+}
+
+export function isValidUsageItem(line: unknown): line is UsageItem {
+  return isValidUsageLine(line) || isValidAllocationRequest(line);
+}
+
+export function isExpired(batch: { expirationDate: Date }, now = new Date()) {
+  return batch.expirationDate < now;
+}
+
+export function expiredBatchMessage(batch: { expirationDate: Date; lotNumber: string | null; material: { name: string } }) {
+  const lot = batch.lotNumber ? ` (lot ${batch.lotNumber})` : '';
+  return `${batch.material.name}${lot} expired on ${batch.expirationDate.toLocaleDateString('en-GB')}. An expiry override with a justification is required.`;
+}
+
+// Whether any line asks to bypass the expiry check, which needs the Override Expiry permission
+export function requestsExpiryOverride(items: UsageItem[]) {
+  return items.some(item => !!item.overrideReason?.trim());
+}
+
+// Splits a material quantity across its batches, earliest expiry first.
+// Expired batches are only drawn on to cover a shortfall, and only when the
+// request carries an override reason. `claimed` holds units other lines of the
+// same request already take from a batch, which are not there to allocate.
+export async function allocateFefo(
+  tx: Prisma.TransactionClient,
+  request: AllocationRequest,
+  claimed: Map<string, number> = new Map()
+): Promise<UsageLine[]> {
+  const material = await tx.material.findUnique({
+    where: { id: request.materialId },
+    select: { name: true }
+  });
+
+  if (!material) {
+    throw new UsageError('Material not found', 404);
+  }
+
+  const now = new Date();
+  const batches = (await tx.batch.findMany({
+    where: { materialId: request.materialId, quantity: { gt: 0 }, ...usableBatch },
+    orderBy: [{ expirationDate: 'asc' }, { stockAddedDate: 'asc' }]
+  }))
+    .map(batch => ({ ...batch, quantity: batch.quantity - (claimed.get(batch.id) ?? 0) }))
+    .filter(batch => batch.quantity > 0);
+  const usable = batches.filter(batch => !isExpired(batch, now));
+  const expired = batches.filter(batch => isExpired(batch, now));
+  const overrideReason = request.overrideReason?.trim();
+
+  const lines: UsageLine[] = [];
+  let remaining = request.quantity;
+  for (const batch of overrideReason ? [...usable, ...expired] : usable) {
+    if (remaining === 0) break;
+    const quantity = Math.min(batch.quantity, remaining);
+    lines.push({
+      batchId: batch.id,
+      quantity,
+      ...(isExpired(batch, now) && { overrideReason })
+    });
+    remaining -= quantity;
+  }
+
+  if (remaining > 0) {
+    const expiredStock = expired.reduce((sum, batch) => sum + batch.quantity, 0);
+    if (!overrideReason && expiredStock >= remaining) {
+      throw new UsageError(
+        `Insufficient unexpired stock for ${material.name}; the remaining ${remaining} units are in expired batches and need an expiry override with a reason`
+      );
+    }
+    throw new UsageError(`Insufficient stock available for ${material.name}`);
+  }
+
+  return lines;
+}
+
+// Expands FEFO requests into batch lines; explicit batch lines pass through.
+// Each allocation skips the units explicit lines and earlier allocations take,
+// so two lines for one material do not both draw on its earliest batch.
+export async function resolveUsageItems(tx: Prisma.TransactionClient, items: UsageItem[]) {
+  const claimed = new Map<string, number>();
+  const claim = (line: UsageLine) => claimed.set(line.batchId, (claimed.get(line.batchId) ?? 0) + line.quantity);
+
+  for (const item of items) {
+    if ('batchId' in item) {
+      claim(item);
+    }
+  }
+
+  const lines: UsageLine[] = [];
+  for (const item of items) {
+    if ('batchId' in item) {
+      lines.push({ batchId: item.batchId, quantity: item.quantity, overrideReason: item.overrideReason?.trim() || undefined });
+    } else {
+      const allocated = await allocateFefo(tx, item, claimed);
+      allocated.forEach(claim);
+      lines.push(...allocated);
+    }
+  }
+  return lines;
+}
+
+// Summarises the batches a set of usage records drew from
+export function toAllocations(records: Awaited<ReturnType<typeof recordUsageLines>>): Allocation[] {
+  return records.map(record => ({
+    materialId: record.batch.materialId,
+    batchId: record.batchId,
+    lotNumber: record.batch.lotNumber,
+    expirationDate: record.batch.expirationDate,
+    quantity: record.quantity,
+    expired: !!record.expiryOverrideReason
+  }));
+}
+
+export async function createProcedure(
+  tx: Prisma.TransactionClient,
+  procedure: ProcedureDetails,
+  userId: string
+) {
+  const physician = await tx.physician.findUnique({
+    where: { id: procedure.physicianId },
+    select: { id: true, name: true }
+  });
+
+  if (!physician) {
+    throw new UsageError('Physician not found', 404);
+  }
+
+  const created = await tx.procedure.create({
+    data: {
+      patientName: procedure.patientName,
+      patientId: procedure.patientId,
+      procedureName: procedure.procedureName,
+      procedureDate: new Date(procedure.procedureDate),
+      startTime: procedure.startTime ? new Date(procedure.startTime) : null,
+      endTime: procedure.endTime ? new Date(procedure.endTime) : null,
+      room: procedure.room || null,
+      physicianId: physician.id,
+      notes: procedure.notes || null,
+      status: procedure.status || 'Completed'
+    }
+  });
+
+  await logCreate(
+    'Procedure',
+    created.id,
+    {
+      patientName: created.patientName,
+      patientId: created.patientId,
+      procedureName: created.procedureName,
+      procedureDate: created.procedureDate,
+      startTime: created.startTime,
+      endTime: created.endTime,
+      room: created.room,
+      physicianId: physician.id,
+      physician: physician.name,
+      notes: created.notes,
+      status: created.status
+    },
+    userId,
+    `Procedure created for patient ${created.patientName} (${created.patientId}) - ${created.procedureName}`,
+    tx
+  );
+
+  return created;
+}
+
+// Records usage lines against an existing procedure. Any failure throws, so
+// the caller's transaction writes all lines or none.
+export async function recordUsageLines(
+  tx: Prisma.TransactionClient,
+  procedure: UsageProcedure,
+  lines: UsageLine[],
+  userId: string
+) {
+  const procedureDate = new Date(procedure.procedureDate);
+  const records = [];
+
+  for (const line of lines) {
+    const batch = await tx.batch.findUnique({
+      where: { id: line.batchId },
+      include: {
+        material: true,
+        vendor: true
+      }
+    });
+
+    if (!batch) {
+      throw new UsageError('Batch not found', 404);
+    }
+
+    if (batch.status !== usableBatch.status) {
+      throw new UsageError(unavailableBatchMessage(batch));
+    }
+
+    const expiryOverrideReason = isExpired(batch) ? line.overrideReason?.trim() : undefined;
+    if (isExpired(batch) && !expiryOverrideReason) {
+      throw new UsageError(expiredBatchMessage(batch));
+    }
+
+    // Conditional decrement so concurrent usage cannot drive stock negative
+    const { count } = await tx.batch.updateMany({
+      where: { id: line.batchId, quantity: { gte: line.quantity } },
+      data: { quantity: { decrement: line.quantity } }
+    });
+
+    if (count === 0) {
+      throw new UsageError(`Insufficient stock available for ${batch.material.name}`);
+    }
+
+    const usageRecord = await tx.usageRecord.create({
+      data: {
+        procedureId: procedure.id,
+        patientName: procedure.patientName,
+        patientId: procedure.patientId,
+        procedureName: procedure.procedureName,
+        procedureDate,
+        physicianId: procedure.physicianId,
+        userId,
+        batchId: line.batchId,
+        quantity: line.quantity,
+        expiryOverrideReason
+      },
+      include: usageRecordInclude
+    });
+
+    await logCreate(
+      'UsageRecord',
+      usageRecord.id,
+      {
+        procedureId: procedure.id,
+        patientName: procedure.patientName,
+        patientId: procedure.patientId,
+        procedureName: procedure.procedureName,
+        procedureDate,
+        physicianId: procedure.physicianId,
+        physician: usageRecord.physician?.name,
+        batchId: line.batchId,
+        quantity: line.quantity,
+        expiryOverrideReason,
+        materialName: batch.material.name,
+        batchVendor: batch.vendor?.name || 'No vendor'
+      },
+      userId,
+      `Usage recorded for patient ${procedure.patientName} (${procedure.patientId}) - ${line.quantity} units of ${batch.material.name} used in ${procedure.procedureName}`,
+      tx
+    );
+
+    if (expiryOverrideReason) {
+      await logDataChange({
+        action: 'UPDATE',
+        tableName: 'Batch',
+        recordId: batch.id,
+        oldValues: { quantity: batch.quantity },
+        newValues: {
+          quantity: batch.quantity - line.quantity,
+          usageRecordId: usageRecord.id,
+          expirationDate: batch.expirationDate,
+          expiryOverrideReason
+        },
+        userId,
+        description: `Expiry override: ${line.quantity} units of ${batch.material.name} used from expired batch${batch.lotNumber ? ` ${batch.lotNumber}` : ''} - ${expiryOverrideReason}`
+      }, tx);
+    }
+
+    records.push(usageRecord);
+  }
+
+  return records;
+}
+
+// Creates the procedure and records all of its lines in the given transaction
+export async function recordProcedureUsage(
+  tx: Prisma.TransactionClient,
+  procedure: ProcedureDetails,
+  items: UsageItem[],
+  userId: string
+) {
+  const created = await createProcedure(tx, procedure, userId);
+  const lines = await resolveUsageItems(tx, items);
+  const usageRecords = await recordUsageLines(tx, { ...procedure, id: created.id }, lines, userId);
+  return { ...created, usageRecords, allocations: toAllocations(usageRecords) };
+}
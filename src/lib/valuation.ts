@@ -0,0 +1,150 @@
+import { Prisma } from '@prisma/client';
+import { ConsumptionCost, CostRow, InventoryValuation, ProcedureCost } from '@/types/valuation';
+
+type CostQueryRow = { key: string; label: string; units: number; uncosted_units: number; value: number };
+
+const toCostRow = (row: CostQueryRow): CostRow => ({
+  key: row.key,
+  label: row.label,
+  units: row.units,
+  uncostedUnits: row.uncosted_units,
+  value: row.value
+});
+
+const sumRows = (rows: CostRow[]) => ({
+  totalUnits: rows.reduce((sum, row) => sum + row.units, 0),
+  uncostedUnits: rows.reduce((sum, row) => sum + row.uncostedUnits, 0),
+  totalValue: rows.reduce((sum, row) => sum + row.value, 0)
+});
+
+// Stock on hand is valued at the cost of the batch each unit sits in. Usage is always recorded
+// against the batch it drew from, so this is the FIFO cost whenever the oldest stock goes first.
+async function stockValueBy(db: Prisma.TransactionClient, key: Prisma.Sql, label: Prisma.Sql) {
+  const rows = await db.$queryRaw<CostQueryRow[]>`
+    SELECT
+      ${key} AS key,
+      ${label} AS label,
+      SUM(b.quantity)::int AS units,
+      SUM(CASE WHEN b."unitCost" IS NULL THEN b.quantity ELSE 0 END)::int AS uncosted_units,
+      COALESCE(SUM(b.quantity * b."unitCost"), 0)::float AS value
+    FROM "Batch" b
+    JOIN "Material" m ON b."materialId" = m.id
+    JOIN "MaterialType" mt ON m."materialTypeId" = mt.id
+    JOIN "Vendor" v ON b."vendorId" = v.id
+    WHERE b.quantity > 0
+    GROUP BY 1, 2
+    ORDER BY value DESC, label ASC
+  `;
+  return rows.map(toCostRow);
+}
+
+export async function getInventoryValuation(db: Prisma.TransactionClient): Promise<InventoryValuation> {
+  const [byMaterialType, byVendor, byLocation] = await Promise.all([
+    stockValueBy(db, Prisma.sql`mt.id`, Prisma.sql`mt.name`),
+    stockValueBy(db, Prisma.sql`v.id`, Prisma.sql`v.name`),
+    stockValueBy(db, Prisma.sql`COALESCE(b."storageLocationId", b."storageLocation")`, Prisma.sql`b."storageLocation"`)
+  ]);
+
+  return { ...sumRows(byMaterialType), byMaterialType, byVendor, byLocation };
+}
+
+// Defaults to the twelve months up to today; dates are YYYY-MM-DD and both ends are included
+export function parseCostPeriod(dateFrom: string | null, dateTo: string | null) {
+  const now = new Date();
+  const end = dateTo ? new Date(dateTo) : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const start = dateFrom ? new Date(dateFrom) : new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - 11, 1));
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+    return null;
+  }
+  return { start, end, endExclusive: new Date(end.getTime() + 24 * 60 * 60 * 1000) };
+}
+
+// Usage is costed at the unit cost of the batch each record drew from
+async function usageCostBy(
+  db: Prisma.TransactionClient,
+  key: Prisma.Sql,
+  label: Prisma.Sql,
+  start: Date,
+  endExclusive: Date
+) {
+  const rows = await db.$queryRaw<CostQueryRow[]>`
+    SELECT
+      ${key} AS key,
+      ${label} AS label,
+      SUM(ur.quantity)::int AS units,
+      SUM(CASE WHEN b."unitCost" IS NULL THEN ur.quantity ELSE 0 END)::int AS uncosted_units,
+      COALESCE(SUM(ur.quantity * b."unitCost"), 0)::float AS value
+    FROM "UsageRecord" ur
+    JOIN "Batch" b ON ur."batchId" = b.id
+    LEFT JOIN "Physician" p ON ur."physicianId" = p.id
+    WHERE ur."procedureDate" >= ${start} AND ur."procedureDate" < ${endExclusive}
+    GROUP BY 1, 2
+    ORDER BY value DESC, label ASC
+  `;
+  return rows.map(toCostRow);
+}
+
+export async function getConsumptionCost(
+  db: Prisma.TransactionClient,
+  period: { start: Date; end: Date; endExclusive: Date }
+): Promise<ConsumptionCost> {
+  const { start, end, endExclusive } = period;
+
+  const [byPhysician, byMonth, procedureRows] = await Promise.all([
+    usageCostBy(
+      db,
+      Prisma.sql`COALESCE(p.id, ur."legacyPhysician", '')`,
+      Prisma.sql`COALESCE(p.name, ur."legacyPhysician", 'Unassigned')`,
+      start,
+      endExclusive
+    ),
+    usageCostBy(
+      db,
+      Prisma.sql`TO_CHAR(DATE_TRUNC('month', ur."procedureDate"), 'YYYY-MM')`,
+      Prisma.sql`TO_CHAR(DATE_TRUNC('month', ur."procedureDate"), 'YYYY-MM')`,
+      start,
+      endExclusive
+    ),
+    db.$queryRaw<Array<CostQueryRow & {
+      procedure_date: Date;
+      patient_name: string;
+      patient_id: string;
+      physician: string | null;
+    }>>`
+      SELECT
+        pr.id AS key,
+        pr."procedureName" AS label,
+        pr."procedureDate" AS procedure_date,
+        pr."patientName" AS patient_name,
+        pr."patientId" AS patient_id,
+        MIN(COALESCE(p.name, ur."legacyPhysician")) AS physician,
+        SUM(ur.quantity)::int AS units,
+        SUM(CASE WHEN b."unitCost" IS NULL THEN ur.quantity ELSE 0 END)::int AS uncosted_units,
+        COALESCE(SUM(ur.quantity * b."unitCost"), 0)::float AS value
+      FROM "UsageRecord" ur
+      JOIN "Procedure" pr ON ur."procedureId" = pr.id
+      JOIN "Batch" b ON ur."batchId" = b.id
+      LEFT JOIN "Physician" p ON ur."physicianId" = p.id
+      WHERE ur."procedureDate" >= ${start} AND ur."procedureDate" < ${endExclusive}
+      GROUP BY pr.id, pr."procedureName", pr."procedureDate", pr."patientName", pr."patientId"
+      ORDER BY pr."procedureDate" DESC, pr."procedureName" ASC
+    `
+  ]);
+
+  const byProcedure: ProcedureCost[] = procedureRows.map(row => ({
+    ...toCostRow(row),
+    procedureDate: row.procedure_date.toISOString(),
+    patientName: row.patient_name,
+    patientId: row.patient_id,
+    physician: row.physician
+  }));
+
+  return {
+    from: start.toISOString(),
+    to: end.toISOString(),
+    ...sumRows(byMonth),
+    byProcedure,
+    byPhysician,
+    byMonth
+  };
+}
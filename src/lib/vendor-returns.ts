@@ -0,0 +1,174 @@
+import { Prisma, Vendor } from '@prisma/client';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { logCreate } from './data-logger';
+import { applyStockAdjustment, StockAdjustmentError } from './batches';
+import { dailyNumberPrefix, nextDailyNumber } from './numbering';
+import { vendorAddressLines } from './purchase-orders';
+import { uploadFile } from './storage';
+
+export interface VendorReturnInput {
+  vendorId: string;
+  lines: { batchId: string; quantity: number }[];
+  reason?: string | null;
+  userId: string;
+}
+
+export async function nextReturnNoteNumber(tx: Prisma.TransactionClient, now = new Date()) {
+  const prefix = dailyNumberPrefix('RN', now);
+  const issued = await tx.document.findMany({
+    where: { documentNumber: { startsWith: prefix } },
+    select: { documentNumber: true }
+  });
+  return nextDailyNumber(prefix, issued.map(document => document.documentNumber));
+}
+
+export function renderReturnNotePdf(note: {
+  number: string;
+  date: Date;
+  vendor: Vendor;
+  lines: { name: string; size: string | null; brand: string; lotNumber: string | null; expirationDate: Date; purchaseType: string; quantity: number }[];
+  reason: string | null;
+  returnedBy: string;
+}) {
+  const doc = new jsPDF();
+  doc.setFontSize(16);
+  doc.text('Return Note', 14, 18);
+  doc.setFontSize(10);
+  doc.text(`Return Note: ${note.number}`, 140, 14);
+  doc.text(`Date: ${note.date.toLocaleDateString()}`, 140, 20);
+
+  doc.setFontSize(11);
+  doc.text('Returned to:', 14, 32);
+  doc.setFontSize(10);
+  const addressLines = [note.vendor.name, ...vendorAddressLines(note.vendor)];
+  doc.text(addressLines, 14, 38);
+
+  autoTable(doc, {
+    startY: 38 + addressLines.length * 5 + 6,
+    head: [['#', 'Material', 'Size', 'Brand', 'Lot', 'Expiry', 'Type', 'Quantity']],
+    body: note.lines.map((line, index) => [
+      index + 1,
+      line.name,
+      line.size || '-',
+      line.brand,
+      line.lotNumber || '-',
+      line.expirationDate.toLocaleDateString(),
+      line.purchaseType,
+      line.quantity
+    ]),
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [49, 46, 129] },
+  });
+
+  let y = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  if (note.reason) {
+    doc.text(doc.splitTextToSize(`Reason: ${note.reason}`, 180), 14, y);
+    y += 12;
+  }
+  doc.text(`Returned by: ${note.returnedBy}`, 14, y);
+  doc.text('Received by (vendor): ____________________', 110, y + 16);
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+// Sends stock back to its vendor: a Return Note document with a printable PDF, linked to
+// every returned batch, and a Return to Vendor adjustment taking the units off each batch.
+export async function createVendorReturn(tx: Prisma.TransactionClient, input: VendorReturnInput) {
+  const reason = input.reason?.trim() || null;
+
+  if (input.lines.length === 0) {
+    throw new StockAdjustmentError('Select at least one batch to return');
+  }
+  const batchIds = input.lines.map(line => line.batchId);
+  if (new Set(batchIds).size !== batchIds.length) {
+    throw new StockAdjustmentError('A batch can only appear once on a return');
+  }
+  if (input.lines.some(line => !Number.isInteger(line.quantity) || line.quantity <= 0)) {
+    throw new StockAdjustmentError('Return quantities must be positive whole numbers');
+  }
+
+  const [vendor, batches, user] = await Promise.all([
+    tx.vendor.findUnique({ where: { id: input.vendorId } }),
+    tx.batch.findMany({
+      where: { id: { in: batchIds } },
+      include: { material: { include: { brand: true } } }
+    }),
+    tx.user.findUniqueOrThrow({ where: { id: input.userId }, select: { username: true } })
+  ]);
+  if (!vendor) {
+    throw new StockAdjustmentError('Vendor not found', 404);
+  }
+  if (batches.length !== batchIds.length) {
+    throw new StockAdjustmentError('Batch not found', 404);
+  }
+  if (batches.some(batch => batch.vendorId !== vendor.id)) {
+    throw new StockAdjustmentError(`Only batches supplied by ${vendor.name} can be returned on this note`);
+  }
+
+  const date = new Date();
+  const documentNumber = await nextReturnNoteNumber(tx, date);
+  const lines = input.lines.map(line => {
+    const batch = batches.find(b => b.id === line.batchId)!;
+    return {
+      batchId: batch.id,
+      name: batch.material.name,
+      size: batch.material.size,
+      brand: batch.material.brand.name,
+      lotNumber: batch.lotNumber,
+      expirationDate: batch.expirationDate,
+      purchaseType: batch.purchaseType,
+      quantity: line.quantity
+    };
+  });
+
+  const document = await tx.document.create({
+    data: {
+      type: 'Return Note',
+      documentNumber,
+      date,
+      vendor: vendor.name,
+      filePath: `return-notes/${documentNumber}.pdf`,
+      batches: {
+        create: batchIds.map(batchId => ({ batchId }))
+      }
+    }
+  });
+
+  for (const line of lines) {
+    await applyStockAdjustment(tx, {
+      batchId: line.batchId,
+      type: 'Return to Vendor',
+      quantity: -line.quantity,
+      reason: `Returned on ${documentNumber}${reason ? ` - ${reason}` : ''}`,
+      documentId: document.id,
+      userId: input.userId
+    });
+  }
+
+  // Rendered once every line has been taken out of stock, so the note never lists a failed line
+  await uploadFile(
+    `${documentNumber}.pdf`,
+    renderReturnNotePdf({ number: documentNumber, date, vendor, lines, reason, returnedBy: user.username }),
+    'return-notes'
+  );
+
+  await logCreate(
+    'Document',
+    document.id,
+    {
+      type: document.type,
+      documentNumber,
+      date,
+      vendor: vendor.name,
+      filePath: document.filePath,
+      lines: input.lines,
+      reason
+    },
+    input.userId,
+    `Return note ${documentNumber} to ${vendor.name}: ${lines.reduce((sum, line) => sum + line.quantity, 0)} unit(s) from ${lines.length} batch(es)`,
+    tx
+  );
+
+  return document;
+}
@@ -0,0 +1,38 @@
+export const BATCH_STATUSES = ['Available', 'Quarantined', 'Damaged', 'Expired-Pending-Disposal'] as const
+
+export type BatchStatus = typeof BATCH_STATUSES[number]
+
+// Advance stock is held on consignment and billed by the vendor once used
+export const PURCHASE_TYPES = ['Advance', 'Purchased'] as const
+
+export const STOCK_ADJUSTMENT_TYPES = ['Damage', 'Expiry Disposal', 'Count Correction', 'Return to Vendor', 'Transfer'] as const
+
+export type StockAdjustmentType = typeof STOCK_ADJUSTMENT_TYPES[number]
+
+// Transfers and returns are recorded by their own operations, which create the stock at the
+// destination or the vendor's return note
+export const MANUAL_STOCK_ADJUSTMENT_TYPES: readonly StockAdjustmentType[] = STOCK_ADJUSTMENT_TYPES.filter(
+  type => type !== 'Transfer' && type !== 'Return to Vendor'
+)
+
+export type BatchHistoryEventType =
+  | 'Created'
+  | 'Usage'
+  | 'Usage Edited'
+  | 'Usage Deleted'
+  | 'Quantity Edit'
+  | StockAdjustmentType
+  | 'Unrecorded Change'
+
+// One event in a batch's history; quantity is the signed change and balance the stock after it
+export interface BatchHistoryEvent {
+  id: string
+  date: string
+  type: BatchHistoryEventType
+  description: string
+  patient: { name: string; id: string } | null
+  procedure: string | null
+  quantity: number
+  balance: number
+  user: string | null
+}
@@ -0,0 +1,13 @@
+export const CONSIGNMENT_STATEMENT_STATUSES = ['Open', 'Billed'] as const
+
+export type ConsignmentStatementStatus = typeof CONSIGNMENT_STATEMENT_STATUSES[number]
+
+// Unclaimed Advance usage for one vendor
+export interface UnbilledConsignment {
+  vendorId: string
+  vendorName: string
+  recordCount: number
+  units: number
+  earliestDate: string
+  latestDate: string
+}
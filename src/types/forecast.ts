@@ -0,0 +1,26 @@
+export const DELIVERY_BASES = ['Open order', 'If ordered today'] as const
+
+export type DeliveryBasis = typeof DELIVERY_BASES[number]
+
+// Projected consumption of one material against its usable stock
+export interface MaterialForecast {
+  materialId: string
+  name: string
+  size: string | null
+  brand: string
+  materialType: string
+  usableQuantity: number
+  // Forecast units per day: a weighted moving average of recent weeks, adjusted for the season
+  dailyUsage: number
+  weeklyUsage: number
+  // Usage expected over the coming month relative to an average month a year ago; null until
+  // the material has a year of usage history
+  seasonalFactor: number | null
+  daysOfCover: number
+  stockOutDate: string
+  nextDeliveryDate: string
+  deliveryBasis: DeliveryBasis
+  vendor: string | null
+  leadTimeDays: number
+  runsOutBeforeDelivery: boolean
+}
@@ -0,0 +1,53 @@
+// Label stock, in millimetres. Roll labels print one label per page; sheets lay labels out
+// in a grid on an A4 or Letter page.
+export interface LabelTemplate {
+  id: string
+  name: string
+  width: number
+  height: number
+  sheet?: {
+    format: 'a4' | 'letter'
+    columns: number
+    rows: number
+    marginTop: number
+    marginLeft: number
+    gapX: number
+    gapY: number
+  }
+}
+
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  { id: 'roll-50x25', name: 'Thermal roll 50 × 25 mm (Zebra, TSC)', width: 50, height: 25 },
+  { id: 'roll-57x32', name: 'Thermal roll 57 × 32 mm', width: 57, height: 32 },
+  { id: 'roll-102x51', name: 'Thermal roll 102 × 51 mm (4" × 2")', width: 102, height: 51 },
+  { id: 'dymo-99012', name: 'Dymo 99012 (89 × 36 mm)', width: 89, height: 36 },
+  { id: 'brother-dk11201', name: 'Brother DK-11201 (90 × 29 mm)', width: 90, height: 29 },
+  {
+    id: 'a4-l7160',
+    name: 'A4 sheet, 21 per page (Avery L7160)',
+    width: 63.5,
+    height: 38.1,
+    sheet: { format: 'a4', columns: 3, rows: 7, marginTop: 15.1, marginLeft: 7.2, gapX: 2.5, gapY: 0 },
+  },
+  {
+    id: 'letter-5160',
+    name: 'Letter sheet, 30 per page (Avery 5160)',
+    width: 66.7,
+    height: 25.4,
+    sheet: { format: 'letter', columns: 3, rows: 10, marginTop: 12.7, marginLeft: 4.8, gapX: 3.2, gapY: 0 },
+  },
+]
+
+export const LABEL_COPIES = ['One per batch', 'One per unit'] as const
+
+export type LabelCopies = typeof LABEL_COPIES[number]
+
+// What is printed on one label
+export interface BatchLabel {
+  code: string
+  material: string
+  size: string | null
+  lotNumber: string | null
+  expirationDate: string
+  location: string
+}
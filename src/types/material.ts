@@ -0,0 +1,30 @@
+// Reorder point for materials that have no minimum level set
+export const DEFAULT_MIN_LEVEL = 5
+
+// Units stock can be counted in; packSize says how many make up a box
+export const UNITS_OF_MEASURE = ['Each', 'Pair', 'Set', 'Kit', 'Roll', 'Bottle'] as const
+export type UnitOfMeasure = typeof UNITS_OF_MEASURE[number]
+
+// Units materials are bought in, each holding the material's pack size
+export const PURCHASE_UNITS = ['Box', 'Pack', 'Case', 'Carton'] as const
+
+// Materials that look like the same product: same brand, type and size, with names that
+// differ only slightly
+export interface DuplicateMaterial {
+  id: string
+  name: string
+  size: string | null
+  catalogNumber: string | null
+  batchCount: number
+  quantity: number
+  createdAt: string
+}
+
+export interface DuplicateGroup {
+  brand: string
+  materialType: string
+  size: string | null
+  // Lowest similarity, 0-1, of the name matches that put the group together
+  similarity: number
+  materials: DuplicateMaterial[]
+}
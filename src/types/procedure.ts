@@ -0,0 +1,17 @@
+export const PROCEDURE_STATUSES = ['Scheduled', 'In Progress', 'Completed', 'Cancelled'] as const
+
+export type ProcedureStatus = typeof PROCEDURE_STATUSES[number]
+
+export interface Procedure {
+  id: string
+  patientName: string
+  patientId: string
+  procedureName: string
+  procedureDate: string
+  startTime: string | null
+  endTime: string | null
+  room: string | null
+  physicianId: string | null
+  notes: string | null
+  status: ProcedureStatus
+}
@@ -0,0 +1,44 @@
+// A material to reorder, with the quantity needed to bring it back up to par
+export interface ReorderSuggestion {
+  materialId: string
+  name: string
+  size: string | null
+  brand: string
+  materialType: string
+  usableQuantity: number
+  minLevel: number
+  parLevel: number | null
+  // Units used per month on average over the consumption window
+  monthlyUsage: number
+  // Storage locations below their own minimum, when the shortfall is local
+  lowLocations: string[]
+  // In base units, and rounded up to whole purchase units (boxes) for ordering
+  suggestedQuantity: number
+  purchaseUnit: string
+  unitsPerPurchaseUnit: number
+  suggestedPurchaseQuantity: number
+}
+
+// Suggestions grouped by the vendor who last supplied each material; vendor is null when
+// the material has never been received
+export interface ReorderSuggestionGroup {
+  vendor: { id: string; name: string } | null
+  suggestions: ReorderSuggestion[]
+}
+
+export const ORDER_LINE_STATUSES = ['Pending', 'Partially Received', 'Received', 'Over-received', 'Unexpected'] as const
+
+export type OrderLineStatus = typeof ORDER_LINE_STATUSES[number]
+
+// One lot of one material counted off a delivery
+export interface ReceiptLine {
+  materialId: string
+  quantity: number
+  lotNumber: string
+  expirationDate: string
+  storageLocationId: string
+  purchaseType: string
+  unitCost?: number | null
+  // Quantity and unit cost are per purchase unit (a box), rather than per base unit
+  inPurchaseUnits?: boolean
+}
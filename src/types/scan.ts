@@ -0,0 +1,16 @@
+// Data read from a GS1 barcode; any element the barcode does not carry is null
+export interface Gs1Scan {
+  gtin: string | null
+  lotNumber: string | null
+  // YYYY-MM-DD
+  expirationDate: string | null
+  serialNumber: string | null
+}
+
+// A scan resolved against the catalog: the material carrying the GTIN, and the batch with the
+// scanned lot when one is in stock. A batch label resolves to its batch, with no GTIN.
+export interface ScanResult {
+  scan: Gs1Scan
+  material: { id: string; name: string; size: string | null; brand: { name: string } } | null
+  batch: { id: string; quantity: number; status: string; expirationDate: string } | null
+}
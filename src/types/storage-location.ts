@@ -0,0 +1,13 @@
+// Ordered outermost first; a location may only sit inside a location of an earlier type
+export const STORAGE_LOCATION_TYPES = ['Building', 'Room', 'Cabinet', 'Shelf', 'Bin'] as const
+
+export type StorageLocationType = typeof STORAGE_LOCATION_TYPES[number]
+
+export interface StorageLocation {
+  id: string
+  name: string
+  type: StorageLocationType
+  parentId: string | null
+  path: string
+  batchCount: number
+}
@@ -0,0 +1,36 @@
+// Value of a group of stock or usage at the actual unit cost of the batches involved.
+// Units from batches with no unit cost recorded are counted but add nothing to the value.
+export interface CostRow {
+  key: string
+  label: string
+  units: number
+  uncostedUnits: number
+  value: number
+}
+
+export interface InventoryValuation {
+  totalUnits: number
+  uncostedUnits: number
+  totalValue: number
+  byMaterialType: CostRow[]
+  byVendor: CostRow[]
+  byLocation: CostRow[]
+}
+
+export interface ProcedureCost extends CostRow {
+  procedureDate: string
+  patientName: string
+  patientId: string
+  physician: string | null
+}
+
+export interface ConsumptionCost {
+  from: string
+  to: string
+  totalUnits: number
+  uncostedUnits: number
+  totalValue: number
+  byProcedure: ProcedureCost[]
+  byPhysician: CostRow[]
+  byMonth: CostRow[]
+}